@@ -0,0 +1,61 @@
+// Service worker: keeps the app shell (HTML, scripts, styles) available
+// offline. API data is cached separately in IndexedDB by the app itself, so
+// /api requests always go straight to the network.
+
+const CACHE_NAME = "rural-health-shell-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+// Precache the shell plus the hashed bundles referenced by index.html, so
+// the app can start offline after a single online visit
+async function precacheShell() {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(SHELL_URLS);
+  const html = await (await cache.match("/")).text();
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+  await cache.addAll(assets);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  // Pages: network first so deploys are picked up, falling back to the
+  // cached shell; the client-side router renders the requested route
+  if (event.request.mode === "navigate") {
+    event.respondWith(
+      fetch(event.request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put("/", copy));
+          return response;
+        })
+        .catch(() => caches.match("/")),
+    );
+    return;
+  }
+
+  // Static files: hashed bundle names never change content, so cache first
+  event.respondWith(
+    caches.match(event.request).then((cached) => cached || fetch(event.request).then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+      }
+      return response;
+    })),
+  );
+});
@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useRoute } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -16,11 +16,17 @@ import Dashboard from "@/pages/dashboard";
 import Patients from "@/pages/patients";
 import PatientNew from "@/pages/patient-new";
 import PatientDetail from "@/pages/patient-detail";
+import PatientEdit from "@/pages/patient-edit";
+import Households from "@/pages/households";
+import HouseholdDetail from "@/pages/household-detail";
 import Vaccinations from "@/pages/vaccinations";
 import QrScanner from "@/pages/qr-scanner";
+import Inventory from "@/pages/inventory";
+import ColdChain from "@/pages/cold-chain";
 import Admin from "@/pages/admin";
 import Reports from "@/pages/reports";
 import Settings from "@/pages/settings";
+import VerifyCertificate from "@/pages/verify-certificate";
 import NotFound from "@/pages/not-found";
 
 function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
@@ -41,6 +47,12 @@ function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
 function Router() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const { needsSetup, isLoading: setupLoading } = useSetup();
+  const [isVerifyRoute] = useRoute("/verify/:code");
+
+  // Certificate verification is public and rendered without the app layout
+  if (isVerifyRoute) {
+    return <Route path="/verify/:code" component={VerifyCertificate} />;
+  }
 
   if (authLoading || setupLoading) {
     return (
@@ -66,9 +78,14 @@ function Router() {
         <Route path="/" component={Dashboard} />
         <Route path="/patients" component={Patients} />
         <Route path="/patients/new" component={PatientNew} />
+        <Route path="/patients/:id/edit" component={PatientEdit} />
         <Route path="/patients/:id" component={PatientDetail} />
+        <Route path="/households" component={Households} />
+        <Route path="/households/:id" component={HouseholdDetail} />
         <Route path="/vaccinations" component={Vaccinations} />
         <Route path="/qr-scanner" component={QrScanner} />
+        <Route path="/inventory" component={Inventory} />
+        <Route path="/cold-chain" component={ColdChain} />
         <Route path="/admin" component={Admin} />
         <Route path="/reports" component={Reports} />
         <Route path="/settings" component={Settings} />
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Vaccination, VaccineLot } from "@shared/schema";
+import { CheckCircle } from "lucide-react";
+
+export interface AdministerDoseData {
+  administeredDate: string;
+  lotId?: number;
+}
+
+interface AdministerDoseDialogProps {
+  vaccination: Vaccination | null;
+  onClose: () => void;
+  onSubmit: (data: AdministerDoseData) => void;
+  isLoading?: boolean;
+}
+
+export function AdministerDoseDialog({
+  vaccination,
+  onClose,
+  onSubmit,
+  isLoading = false,
+}: AdministerDoseDialogProps) {
+  const today = new Date().toISOString().split('T')[0];
+  const [lotId, setLotId] = useState("none");
+  const [administeredDate, setAdministeredDate] = useState(today);
+
+  const { data: lots } = useQuery<VaccineLot[]>({
+    queryKey: ["/api/inventory/lots", vaccination?.vaccineId],
+    enabled: !!vaccination,
+    queryFn: () => fetch(`/api/inventory/lots?vaccineId=${vaccination?.vaccineId}`, { credentials: "include" }).then(res => res.json()),
+  });
+
+  // Empty or quarantined lots, and lots expired by the day of the dose,
+  // cannot be drawn from
+  const usableLots = lots?.filter(lot =>
+    lot.quantity > 0 && lot.expiryDate >= administeredDate && lot.status === "available"
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      administeredDate,
+      lotId: lotId !== "none" ? parseInt(lotId) : undefined,
+    });
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setLotId("none");
+      setAdministeredDate(today);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!vaccination} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Dose {vaccination?.doseNumber}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="administeredDate">Administered Date</Label>
+            <Input
+              id="administeredDate"
+              type="date"
+              max={today}
+              value={administeredDate}
+              onChange={(e) => setAdministeredDate(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lotId">Vaccine Lot</Label>
+            <Select value={lotId} onValueChange={setLotId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select lot" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not recorded</SelectItem>
+                {usableLots?.map((lot) => (
+                  <SelectItem key={lot.id} value={lot.id.toString()}>
+                    {lot.batchNumber} ({lot.facility}) - {lot.quantity} left, exp. {new Date(lot.expiryDate).toLocaleDateString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="submit"
+            className="w-full bg-success-green hover:bg-green-600"
+            disabled={isLoading}
+          >
+            <CheckCircle className="mr-2 h-4 w-4" />
+            {isLoading ? "Saving..." : "Mark as Completed"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
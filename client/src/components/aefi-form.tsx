@@ -0,0 +1,143 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertAefiReportSchema } from "@shared/schema";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const aefiFormSchema = insertAefiReportSchema
+  .omit({ patientId: true, reportedBy: true })
+  .extend({
+    onsetAt: z.string().min(1, "Onset time is required"),
+    followUpDate: z.string().optional(),
+  });
+
+type AefiFormData = z.infer<typeof aefiFormSchema>;
+
+interface AefiFormProps {
+  vaccinationId: number;
+  onSubmit: (data: AefiFormData) => void;
+  isLoading?: boolean;
+}
+
+export function AefiForm({ vaccinationId, onSubmit, isLoading = false }: AefiFormProps) {
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<AefiFormData>({
+    resolver: zodResolver(aefiFormSchema),
+    defaultValues: {
+      vaccinationId,
+      severity: "mild",
+      outcome: "recovering",
+      isSerious: false,
+    },
+  });
+
+  const isSerious = watch("isSerious");
+
+  const onFormSubmit = (data: AefiFormData) => {
+    onSubmit({
+      ...data,
+      onsetAt: new Date(data.onsetAt).toISOString(),
+      followUpDate: data.followUpDate || undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="onsetAt">Onset Time *</Label>
+        <Input id="onsetAt" type="datetime-local" {...register("onsetAt")} />
+        {errors.onsetAt && (
+          <p className="text-sm text-error-red">{errors.onsetAt.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="symptoms">Symptoms *</Label>
+        <Textarea
+          id="symptoms"
+          {...register("symptoms")}
+          placeholder="e.g. fever, swelling at injection site, persistent crying"
+          rows={3}
+        />
+        {errors.symptoms && (
+          <p className="text-sm text-error-red">{errors.symptoms.message}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="severity">Severity *</Label>
+          <Select defaultValue="mild" onValueChange={(value) => setValue("severity", value as AefiFormData["severity"])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="mild">Mild</SelectItem>
+              <SelectItem value="moderate">Moderate</SelectItem>
+              <SelectItem value="severe">Severe</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="outcome">Outcome *</Label>
+          <Select defaultValue="recovering" onValueChange={(value) => setValue("outcome", value as AefiFormData["outcome"])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="recovering">Recovering</SelectItem>
+              <SelectItem value="recovered">Recovered</SelectItem>
+              <SelectItem value="recovered_with_sequelae">Recovered with sequelae</SelectItem>
+              <SelectItem value="hospitalized">Hospitalized</SelectItem>
+              <SelectItem value="died">Died</SelectItem>
+              <SelectItem value="unknown">Unknown</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-start space-x-2">
+        <Checkbox
+          id="isSerious"
+          checked={!!isSerious}
+          onCheckedChange={(checked) => setValue("isSerious", checked === true)}
+        />
+        <div>
+          <Label htmlFor="isSerious">Serious AEFI</Label>
+          <p className="text-xs text-gray-500">
+            Resulted in death, hospitalization, disability, or was life-threatening
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="followUpDate">Follow-up Date</Label>
+        <Input id="followUpDate" type="date" {...register("followUpDate")} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="followUpNotes">Follow-up Notes</Label>
+        <Textarea id="followUpNotes" {...register("followUpNotes")} rows={2} />
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isLoading}
+        className="w-full bg-error-red hover:bg-red-700"
+      >
+        {isLoading ? "Saving..." : "Submit AEFI Report"}
+      </Button>
+    </form>
+  );
+}
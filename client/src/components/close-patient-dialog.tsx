@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ClosePatient, Patient } from "@shared/schema";
+import { PATIENT_STATUS_LABELS } from "@/lib/patientStatus";
+import { Archive } from "lucide-react";
+
+const CLOSED_STATUSES: ClosePatient["status"][] = ["migrated", "deceased", "duplicate", "registered_in_error"];
+
+interface ClosePatientDialogProps {
+  patient: Patient;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: ClosePatient) => void;
+  isLoading?: boolean;
+}
+
+export function ClosePatientDialog({
+  patient,
+  open,
+  onOpenChange,
+  onSubmit,
+  isLoading = false,
+}: ClosePatientDialogProps) {
+  const today = new Date().toISOString().split('T')[0];
+  const [status, setStatus] = useState<ClosePatient["status"]>("migrated");
+  const [statusDate, setStatusDate] = useState(today);
+  const [reason, setReason] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ status, statusDate, reason: reason.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Close Record for {patient.name}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="closeStatus">Outcome</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as ClosePatient["status"])}>
+              <SelectTrigger id="closeStatus">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CLOSED_STATUSES.map((value) => (
+                  <SelectItem key={value} value={value}>{PATIENT_STATUS_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statusDate">Date</Label>
+            <Input
+              id="statusDate"
+              type="date"
+              max={today}
+              value={statusDate}
+              onChange={(e) => setStatusDate(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statusReason">Reason</Label>
+            <Textarea
+              id="statusReason"
+              placeholder={status === "migrated" ? "e.g. Family moved to another district" : "Details for the record"}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              required
+            />
+          </div>
+          <p className="text-sm text-gray-600">
+            The record and its vaccination history are kept, but the patient no longer appears in lists,
+            schedules or reports. An administrator can restore it.
+          </p>
+          <Button
+            type="submit"
+            className="w-full bg-error-red hover:bg-red-700"
+            disabled={isLoading || !reason.trim()}
+          >
+            <Archive className="mr-2 h-4 w-4" />
+            {isLoading ? "Closing..." : "Close Record"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,33 +1,48 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
 import { apiRequest } from "@/lib/queryClient";
-import { Heart, LogOut, User } from "lucide-react";
+import { clearCachedResponses } from "@/lib/offlineStore";
+import { roleLabel } from "@/lib/roles";
+import { Heart, LogOut, User, Cloud, CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
 
 export function Header() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { isOnline, isSyncing, queued, pendingCount, failedCount, syncNow, retry, discard } = useOfflineSync();
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest("POST", "/api/auth/logout", {});
+      // Patient data leaves the device even when the server can't be reached
+      try {
+        await apiRequest("POST", "/api/auth/logout", {});
+      } finally {
+        queryClient.clear();
+        await clearCachedResponses().catch((error) => console.error("Offline cache clear error:", error));
+      }
     },
     onSuccess: () => {
-      queryClient.clear();
       setLocation("/login");
+      // Unsent changes stay on the device under this user and are uploaded
+      // the next time they sign in here
       toast({
         title: "Logged out",
-        description: "You have been logged out successfully.",
+        description: pendingCount > 0
+          ? `${pendingCount} unsent change(s) will be uploaded when you next sign in on this device.`
+          : "You have been logged out successfully.",
       });
     },
     onError: (error) => {
+      setLocation("/login");
       toast({
-        title: "Error",
-        description: error.message || "Failed to logout",
+        title: "Logged out on this device",
+        description: `Patient data was removed from this device, but the server could not be told: ${error.message || "Failed to logout"}`,
         variant: "destructive",
       });
     },
@@ -46,11 +61,78 @@ export function Header() {
             <h1 className="text-xl font-medium">Rural Health Tracker</h1>
           </div>
           <div className="flex items-center space-x-4">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-white hover:bg-blue-700">
+                  {!isOnline ? (
+                    <CloudOff className="h-4 w-4" />
+                  ) : isSyncing ? (
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Cloud className="h-4 w-4" />
+                  )}
+                  {pendingCount > 0 && (
+                    <span className="ml-1 text-xs bg-warning-orange px-1.5 rounded">{pendingCount}</span>
+                  )}
+                  {failedCount > 0 && (
+                    <span className="ml-1 text-xs bg-red-500 px-1.5 rounded">{failedCount}</span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-80">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-sm">{isOnline ? "Online" : "Offline"}</p>
+                      <p className="text-xs text-gray-500">
+                        {pendingCount === 0
+                          ? "All changes are synced"
+                          : `${pendingCount} change${pendingCount === 1 ? "" : "s"} waiting to sync`}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={syncNow} disabled={!isOnline || isSyncing}>
+                      <RefreshCw className="mr-2 h-3 w-3" />
+                      Sync Now
+                    </Button>
+                  </div>
+                  {queued.length > 0 && (
+                    <ul className="divide-y divide-gray-200 text-sm max-h-64 overflow-y-auto">
+                      {queued.map((request) => (
+                        <li key={request.id} className="py-2">
+                          <p>{request.description}</p>
+                          <p className="text-xs text-gray-500">
+                            Saved {new Date(request.createdAt).toLocaleString()}
+                          </p>
+                          {request.error && (
+                            <div className="mt-1 space-y-1">
+                              <p className="text-xs text-error-red flex items-center">
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                {request.error}
+                              </p>
+                              <div className="flex space-x-2">
+                                <Button size="sm" variant="outline" onClick={() => retry(request.id!)}>
+                                  Retry
+                                </Button>
+                                <Button size="sm" variant="ghost" className="text-error-red" onClick={() => discard(request.id!)}>
+                                  Discard
+                                </Button>
+                              </div>
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </PopoverContent>
+            </Popover>
             <div className="hidden md:flex items-center space-x-2">
               <User className="h-4 w-4" />
               <span className="text-sm">{user?.name}</span>
-              {user?.role === 'admin' && (
+              {user?.role === 'admin' ? (
                 <span className="text-xs bg-red-500 px-2 py-1 rounded">Admin</span>
+              ) : user && user.role !== 'health_worker' && (
+                <span className="text-xs bg-blue-700 px-2 py-1 rounded">{roleLabel(user.role)}</span>
               )}
             </div>
             <Button
@@ -18,11 +18,11 @@ const navigation = [
 
 export function MobileNav() {
   const [location] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
 
   const navItems = [...navigation];
   
-  if (user?.role === 'admin') {
+  if (user?.role === 'admin' || can("manage_users")) {
     navItems.push({
       name: "Admin",
       href: "/admin",
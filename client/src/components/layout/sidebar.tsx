@@ -6,29 +6,37 @@ import {
   Users,
   Syringe,
   QrCode,
+  Package,
+  Thermometer,
   BarChart3,
   Settings,
   UserCog,
+  House,
 } from "lucide-react";
+import type { Permission } from "@shared/schema";
 
-const navigation = [
+// Items with a permission are only shown to roles that have it
+const navigation: { name: string; href: string; icon: typeof Home; permission?: Permission }[] = [
   { name: "Dashboard", href: "/", icon: Home },
   { name: "Patient Records", href: "/patients", icon: Users },
+  { name: "Households", href: "/households", icon: House },
   { name: "Vaccination Tracker", href: "/vaccinations", icon: Syringe },
   { name: "QR Code Scanner", href: "/qr-scanner", icon: QrCode },
-  { name: "Reports", href: "/reports", icon: BarChart3 },
+  { name: "Vaccine Inventory", href: "/inventory", icon: Package },
+  { name: "Cold Chain", href: "/cold-chain", icon: Thermometer },
+  { name: "Reports", href: "/reports", icon: BarChart3, permission: "view_reports" },
   { name: "Settings", href: "/settings", icon: Settings },
 ];
 
 export function Sidebar() {
   const [location] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
 
   return (
     <aside className="hidden md:block w-64 bg-white shadow-lg min-h-screen">
       <nav className="p-4">
         <ul className="space-y-2">
-          {navigation.map((item) => {
+          {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
             const isActive = location === item.href || 
               (item.href !== "/" && location.startsWith(item.href));
             
@@ -49,7 +57,7 @@ export function Sidebar() {
             );
           })}
           
-          {user?.role === 'admin' && (
+          {(user?.role === 'admin' || can("manage_users")) && (
             <li>
               <Link href="/admin">
                 <div className={cn(
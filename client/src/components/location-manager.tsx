@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Location, LocationLevel, locationLevels } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { LOCATION_LEVEL_LABELS, locationLevelLabel, locationTree } from "@/lib/locations";
+import { LocationSelect } from "@/components/location-select";
+import { MapPin, Plus, Edit } from "lucide-react";
+
+interface LocationFormState {
+  id?: number;
+  level: LocationLevel;
+  parentId: number | null;
+  name: string;
+  code: string;
+}
+
+const childLevel = (level: string): LocationLevel | undefined =>
+  locationLevels[locationLevels.indexOf(level as LocationLevel) + 1];
+
+const parentLevel = (level: LocationLevel): LocationLevel | undefined =>
+  locationLevels[locationLevels.indexOf(level) - 1];
+
+export function LocationManager() {
+  const [form, setForm] = useState<LocationFormState | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: locations, isLoading } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const saveLocationMutation = useMutation({
+    mutationFn: async ({ id, level, parentId, name, code }: LocationFormState) => {
+      const response = id
+        ? await apiRequest("PUT", `/api/locations/${id}`, { name, code: code || null })
+        : await apiRequest("POST", "/api/locations", { level, parentId, name, code: code || null });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      setForm(null);
+      toast({
+        title: "Success",
+        description: "Location saved successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save location",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form) saveLocationMutation.mutate(form);
+  };
+
+  const formParentLevel = form ? parentLevel(form.level) : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <MapPin className="h-5 w-5" />
+            <span>Locations</span>
+          </CardTitle>
+          <Button
+            className="bg-medical-blue hover:bg-blue-700"
+            onClick={() => setForm({ level: "district", parentId: null, name: "", code: "" })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Location
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          Districts, blocks, PHCs, sub-centres and villages. Patients are registered to a village and
+          users are posted to a PHC or sub-centre; lists and reports can be narrowed to any location.
+        </p>
+        {isLoading ? (
+          <div className="h-32 bg-gray-200 rounded animate-pulse"></div>
+        ) : locations?.length ? (
+          <div className="max-h-96 overflow-y-auto border rounded-lg divide-y">
+            {locationTree(locations).map(({ location, depth }) => {
+              const next = childLevel(location.level);
+              return (
+                <div
+                  key={location.id}
+                  className="flex items-center justify-between p-2 hover:bg-gray-50"
+                  style={{ paddingLeft: `${0.5 + depth * 1.5}rem` }}
+                >
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className="font-medium">{location.name}</span>
+                    <Badge variant="outline" className="text-xs">{locationLevelLabel(location.level)}</Badge>
+                    {location.code && <span className="text-xs text-gray-500">{location.code}</span>}
+                  </div>
+                  <div className="flex space-x-1">
+                    {next && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs text-medical-blue hover:bg-blue-50"
+                        onClick={() => setForm({ level: next, parentId: location.id, name: "", code: "" })}
+                      >
+                        <Plus className="mr-1 h-3 w-3" />
+                        {LOCATION_LEVEL_LABELS[next]}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-1 text-medical-blue hover:bg-blue-50"
+                      onClick={() => setForm({
+                        id: location.id,
+                        level: location.level as LocationLevel,
+                        parentId: location.parentId,
+                        name: location.name,
+                        code: location.code ?? "",
+                      })}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <MapPin className="mx-auto h-12 w-12 mb-4 opacity-50" />
+            <p>No locations yet</p>
+            <p className="text-sm mt-2">Start by adding a district</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit Location" : "New Location"}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="locationLevel">Level</Label>
+                <Select
+                  value={form.level}
+                  onValueChange={(level) => setForm({ ...form, level: level as LocationLevel, parentId: null })}
+                  disabled={!!form.id}
+                >
+                  <SelectTrigger id="locationLevel">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locationLevels.map((level) => (
+                      <SelectItem key={level} value={level}>{LOCATION_LEVEL_LABELS[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formParentLevel && !form.id && (
+                <div className="space-y-2">
+                  <Label htmlFor="locationParent">{LOCATION_LEVEL_LABELS[formParentLevel]}</Label>
+                  <LocationSelect
+                    id="locationParent"
+                    value={form.parentId}
+                    onChange={(parentId) => setForm({ ...form, parentId })}
+                    levels={[formParentLevel]}
+                    placeholder={`Select ${LOCATION_LEVEL_LABELS[formParentLevel].toLowerCase()}`}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="locationName">Name</Label>
+                <Input
+                  id="locationName"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="locationCode">Code</Label>
+                <Input
+                  id="locationCode"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                  placeholder="LGD or HMIS code (optional)"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={saveLocationMutation.isPending || (!!formParentLevel && !form.id && !form.parentId)}
+              >
+                {saveLocationMutation.isPending ? "Saving..." : "Save Location"}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Location, LocationLevel } from "@shared/schema";
+import { locationLevelLabel, locationTree } from "@/lib/locations";
+
+interface LocationSelectProps {
+  id?: string;
+  value: number | null | undefined;
+  onChange: (locationId: number | null) => void;
+  levels?: readonly LocationLevel[]; // selectable levels; the others are shown for context only
+  placeholder?: string;
+  allLabel?: string; // offered first to clear the selection, e.g. "All locations"
+  className?: string;
+}
+
+const ALL = "all";
+
+export function LocationSelect({
+  id,
+  value,
+  onChange,
+  levels,
+  placeholder = "Select location",
+  allLabel,
+  className,
+}: LocationSelectProps) {
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const isSelectable = (location: Location) =>
+    !levels || levels.includes(location.level as LocationLevel);
+
+  return (
+    <Select
+      value={value ? String(value) : allLabel ? ALL : ""}
+      onValueChange={(selected) => onChange(selected === ALL ? null : parseInt(selected))}
+    >
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {allLabel && <SelectItem value={ALL}>{allLabel}</SelectItem>}
+        {locationTree(locations ?? []).map(({ location, depth }) => (
+          <SelectItem
+            key={location.id}
+            value={String(location.id)}
+            disabled={!isSelectable(location)}
+            style={{ paddingLeft: `${2 + depth}rem` }}
+          >
+            {location.name}
+            <span className="ml-2 text-xs text-gray-500">{locationLevelLabel(location.level)}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
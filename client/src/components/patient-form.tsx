@@ -1,7 +1,9 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertPatientSchema } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { registerPatientSchema, DuplicateCheck, Patient } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,34 +11,53 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calendar, CalendarIcon } from "lucide-react";
+import { AlertTriangle, Calendar, CalendarIcon, Eye } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { cn } from "@/lib/utils";
+import { LocationSelect } from "@/components/location-select";
 
-const patientFormSchema = insertPatientSchema.extend({
+const patientFormSchema = registerPatientSchema.extend({
   dateOfBirth: z.string().optional(),
 });
 
 type PatientFormData = z.infer<typeof patientFormSchema>;
 
+// Matches in another area carry only the patient's name and ID
+interface PossibleDuplicate {
+  patient: Pick<Patient, "id" | "patientId" | "name">;
+  score: number;
+  reasons: string[];
+  outOfArea?: true;
+}
+
+// Wait for typing to pause before checking for an existing registration
+const DUPLICATE_CHECK_DELAY_MS = 600;
+
 interface PatientFormProps {
   onSubmit: (data: PatientFormData) => void;
+  onCancel?: () => void;
   isLoading?: boolean;
   initialData?: Partial<PatientFormData>;
   submitText?: string;
+  excludeId?: number; // the patient being edited, left out of the duplicate check
 }
 
 export function PatientForm({ 
   onSubmit, 
+  onCancel,
   isLoading = false, 
   initialData,
-  submitText = "Create Patient" 
+  submitText = "Create Patient",
+  excludeId,
 }: PatientFormProps) {
+  // The calendar works in local midnights; dates go to the server as the
+  // local calendar day, not the UTC one
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(
-    initialData?.dateOfBirth ? new Date(initialData.dateOfBirth) : undefined
+    initialData?.dateOfBirth ? parseISO(initialData.dateOfBirth) : undefined
   );
+  const dateOfBirth = selectedDate ? format(selectedDate, "yyyy-MM-dd") : undefined;
 
   const {
     register,
@@ -50,11 +71,40 @@ export function PatientForm({
   });
 
   const watchedAgeGroup = watch("ageGroup");
+  const [watchedName, watchedPhone, watchedGuardianName, watchedGuardianPhone] =
+    watch(["name", "phone", "guardianName", "guardianPhone"]);
+  const [duplicateCheck, setDuplicateCheck] = useState<DuplicateCheck | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const name = watchedName?.trim() ?? "";
+      setDuplicateCheck(name.length >= 3 ? {
+        name,
+        dateOfBirth,
+        phone: watchedPhone || undefined,
+        guardianName: watchedGuardianName || undefined,
+        guardianPhone: watchedGuardianPhone || undefined,
+        excludeId,
+      } : null);
+    }, DUPLICATE_CHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [watchedName, watchedPhone, watchedGuardianName, watchedGuardianPhone, dateOfBirth, excludeId]);
+
+  // Only a warning: the same name and birth date can belong to two children.
+  // Offline the check fails quietly and registration carries on.
+  const { data: duplicates } = useQuery<PossibleDuplicate[]>({
+    queryKey: ["/api/patients/duplicates", duplicateCheck],
+    enabled: !!duplicateCheck,
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/patients/duplicates", duplicateCheck);
+      return response.json();
+    },
+  });
 
   const onFormSubmit = (data: PatientFormData) => {
     const formattedData = {
       ...data,
-      dateOfBirth: selectedDate ? selectedDate.toISOString().split('T')[0] : undefined,
+      dateOfBirth,
     };
     onSubmit(formattedData);
   };
@@ -118,7 +168,7 @@ export function PatientForm({
 
           <div className="space-y-2">
             <Label htmlFor="gender">Gender</Label>
-            <Select onValueChange={(value) => setValue("gender", value)}>
+            <Select defaultValue={initialData?.gender ?? undefined} onValueChange={(value) => setValue("gender", value)}>
               <SelectTrigger>
                 <SelectValue placeholder="Select gender" />
               </SelectTrigger>
@@ -135,7 +185,7 @@ export function PatientForm({
 
           <div className="space-y-2">
             <Label htmlFor="ageGroup">Age Group *</Label>
-            <Select onValueChange={(value) => setValue("ageGroup", value)}>
+            <Select defaultValue={initialData?.ageGroup} onValueChange={(value) => setValue("ageGroup", value)}>
               <SelectTrigger>
                 <SelectValue placeholder="Select age group" />
               </SelectTrigger>
@@ -152,6 +202,17 @@ export function PatientForm({
             )}
           </div>
 
+          <div className="md:col-span-2 space-y-2">
+            <Label htmlFor="villageId">Village</Label>
+            <LocationSelect
+              id="villageId"
+              value={watch("villageId")}
+              onChange={(villageId) => setValue("villageId", villageId)}
+              levels={["village"]}
+              placeholder="Select village"
+            />
+          </div>
+
           <div className="md:col-span-2 space-y-2">
             <Label htmlFor="address">Address</Label>
             <Textarea
@@ -233,8 +294,45 @@ export function PatientForm({
         </CardContent>
       </Card>
 
+      {duplicateCheck && duplicates?.length ? (
+        <Card className="border-orange-300 bg-orange-50">
+          <CardHeader>
+            <CardTitle className="flex items-center warning-orange">
+              <AlertTriangle className="mr-2 h-5 w-5" />
+              Possible Duplicate
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-600">
+              This patient may already be registered. Check these records before creating a new one.
+            </p>
+            {duplicates.map((match) => (
+              <div key={match.patient.id} className="flex items-center justify-between border rounded-lg p-3 bg-white">
+                <div>
+                  <div className="font-medium">
+                    {match.patient.name}
+                    <span className="ml-2 text-xs text-gray-500">{match.patient.patientId}</span>
+                  </div>
+                  <div className="text-xs text-gray-600">{match.reasons.join(" · ")}</div>
+                </div>
+                {match.outOfArea ? (
+                  <span className="text-xs text-gray-500">Registered in another area</span>
+                ) : (
+                  <a href={`/patients/${match.patient.id}`} target="_blank" rel="noreferrer">
+                    <Button type="button" variant="outline" size="sm">
+                      <Eye className="mr-1 h-3 w-3" />
+                      View
+                    </Button>
+                  </a>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ) : null}
+
       <div className="flex justify-end space-x-4">
-        <Button type="button" variant="outline">
+        <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
         </Button>
         <Button 
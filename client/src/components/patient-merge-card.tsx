@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Patient } from "@shared/schema";
+import { apiRequest, getJson } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { GitMerge, Search, X } from "lucide-react";
+
+interface PossibleDuplicate {
+  patient: Patient;
+  score: number;
+  reasons: string[];
+}
+
+interface MergeResult {
+  survivor: Patient;
+  movedVaccinations: number;
+  cancelledDuplicateDoses: number;
+  movedAppointments: number;
+}
+
+interface PatientPickerProps {
+  id: string;
+  label: string;
+  selected: Patient | null;
+  onSelect: (patient: Patient | null) => void;
+  excludeId?: number;
+}
+
+function PatientPicker({ id, label, selected, onSelect, excludeId }: PatientPickerProps) {
+  const [query, setQuery] = useState("");
+
+  const { data: results } = useQuery<Patient[]>({
+    queryKey: ["/api/patients/search", query],
+    enabled: query.length > 2 && !selected,
+    queryFn: () => getJson<Patient[]>(`/api/patients/search?q=${encodeURIComponent(query)}`),
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      {selected ? (
+        <div className="flex items-start justify-between border rounded-lg p-3">
+          <PatientSummary patient={selected} />
+          <Button variant="ghost" size="sm" className="p-1" onClick={() => onSelect(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="relative">
+            <Input
+              id={id}
+              placeholder="Search by name, phone, or patient ID..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-10"
+            />
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          </div>
+          {query.length > 2 && (
+            <div className="max-h-48 overflow-y-auto border rounded-lg divide-y">
+              {results?.filter(patient => patient.id !== excludeId).map((patient) => (
+                <button
+                  key={patient.id}
+                  type="button"
+                  className="w-full text-left p-2 hover:bg-gray-50"
+                  onClick={() => {
+                    onSelect(patient);
+                    setQuery("");
+                  }}
+                >
+                  <div className="text-sm font-medium">{patient.name}</div>
+                  <div className="text-xs text-gray-500">{patient.patientId}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function PatientSummary({ patient }: { patient: Patient }) {
+  return (
+    <div className="text-sm space-y-1">
+      <div className="font-medium">
+        {patient.name}
+        <span className="ml-2 text-xs text-gray-500">{patient.patientId}</span>
+      </div>
+      <div className="text-gray-600">
+        Born {patient.dateOfBirth ? new Date(patient.dateOfBirth).toLocaleDateString() : "N/A"}
+        {patient.guardianName ? ` · Guardian ${patient.guardianName}` : ""}
+      </div>
+      {(patient.phone || patient.guardianPhone) && (
+        <div className="text-gray-600">{patient.phone || patient.guardianPhone}</div>
+      )}
+      {patient.createdAt && (
+        <div className="text-xs text-gray-500">Registered {new Date(patient.createdAt).toLocaleDateString()}</div>
+      )}
+    </div>
+  );
+}
+
+export function PatientMergeCard() {
+  const [survivor, setSurvivor] = useState<Patient | null>(null);
+  const [retired, setRetired] = useState<Patient | null>(null);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Records that look like the one being kept, offered as the one to retire
+  const { data: suggestions } = useQuery<PossibleDuplicate[]>({
+    queryKey: ["/api/patients/duplicates", survivor?.id],
+    enabled: !!survivor && !retired,
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/patients/duplicates", {
+        name: survivor!.name,
+        dateOfBirth: survivor!.dateOfBirth ?? undefined,
+        guardianName: survivor!.guardianName ?? undefined,
+        phone: survivor!.phone ?? undefined,
+        guardianPhone: survivor!.guardianPhone ?? undefined,
+        excludeId: survivor!.id,
+      });
+      return response.json();
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/patients/merge", {
+        survivorId: survivor!.id,
+        retiredId: retired!.id,
+      });
+      return response.json();
+    },
+    onSuccess: (result: MergeResult) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/households"] });
+      toast({
+        title: "Patients Merged",
+        description: `${retired?.patientId} now opens ${result.survivor.patientId}. ` +
+          `${result.movedVaccinations} doses and ${result.movedAppointments} appointments moved` +
+          (result.cancelledDuplicateDoses ? `, ${result.cancelledDuplicateDoses} duplicate doses cancelled.` : "."),
+      });
+      setSurvivor(null);
+      setRetired(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge patients",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <GitMerge className="mr-2 h-5 w-5" />
+          Merge Duplicate Patients
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Vaccinations, appointments, AEFI reports and certificates move to the record you keep. The other
+          record is removed; its patient ID and health card keep opening the kept record.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <PatientPicker
+            id="mergeSurvivor"
+            label="Record to keep"
+            selected={survivor}
+            onSelect={setSurvivor}
+            excludeId={retired?.id}
+          />
+          <PatientPicker
+            id="mergeRetired"
+            label="Duplicate to retire"
+            selected={retired}
+            onSelect={setRetired}
+            excludeId={survivor?.id}
+          />
+        </div>
+
+        {survivor && !retired && suggestions?.length ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-900">Possible duplicates of {survivor.name}</p>
+            {suggestions.map((match) => (
+              <div key={match.patient.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <div className="text-sm font-medium">
+                    {match.patient.name}
+                    <span className="ml-2 text-xs text-gray-500">{match.patient.patientId}</span>
+                  </div>
+                  <div className="text-xs text-gray-600">{match.reasons.join(" · ")}</div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline" className="text-xs">{Math.round(match.score * 100)}%</Badge>
+                  <Button variant="outline" size="sm" onClick={() => setRetired(match.patient)}>
+                    Select
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="flex justify-end">
+          <Button
+            className="bg-error-red hover:bg-red-700"
+            disabled={!survivor || !retired || mergeMutation.isPending}
+            onClick={() => setIsConfirmOpen(true)}
+          >
+            <GitMerge className="mr-2 h-4 w-4" />
+            {mergeMutation.isPending ? "Merging..." : "Merge Records"}
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge {retired?.patientId} into {survivor?.patientId}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {retired?.name}'s record will be removed and its history moved to {survivor?.name}. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-error-red hover:bg-red-700" onClick={() => mergeMutation.mutate()}>
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
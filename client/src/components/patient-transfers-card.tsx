@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Patient, PatientTransfer } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRightLeft, Check, X } from "lucide-react";
+
+interface PendingTransfer extends PatientTransfer {
+  patient: Pick<Patient, "id" | "name" | "patientId">;
+  fromVillageName: string | null;
+  toVillageName: string | null;
+  requestedByName: string | null;
+}
+
+// Transfer requests waiting on the current user, and their own requests
+// waiting on someone else. Hidden when there are none.
+export function PatientTransfersCard() {
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: transfers } = useQuery<PendingTransfer[]>({
+    queryKey: ["/api/transfers"],
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: number; decision: "approve" | "reject" }) => {
+      const response = await apiRequest("POST", `/api/transfers/${id}/${decision}`);
+      return response.json();
+    },
+    onSuccess: (transfer: PatientTransfer) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: transfer.status === "approved" ? "Patient transferred" : "Transfer request rejected",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to decide transfer request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!transfers?.length) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          Transfer Requests
+          <ArrowRightLeft className="h-5 w-5 text-gray-400" />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {transfers.map((transfer) => (
+          <div key={transfer.id} className="p-3 border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-900">{transfer.patient.name}</span>
+              <span className="text-xs text-gray-500">{transfer.patient.patientId}</span>
+            </div>
+            <p className="text-xs text-gray-600">
+              {transfer.fromVillageName ?? "No village"} → {transfer.toVillageName}
+              {transfer.requestedByName && ` · requested by ${transfer.requestedByName}`}
+            </p>
+            {transfer.reason && <p className="text-xs text-gray-600 mt-1">{transfer.reason}</p>}
+            {transfer.requestedBy === user?.id || !can("edit_patient") ? (
+              <Badge variant="outline" className="mt-2 text-xs">Awaiting approval</Badge>
+            ) : (
+              <div className="flex space-x-2 mt-2">
+                <Button
+                  size="sm"
+                  className="flex-1 bg-success-green text-white text-xs hover:bg-green-600"
+                  onClick={() => decideMutation.mutate({ id: transfer.id, decision: "approve" })}
+                  disabled={decideMutation.isPending}
+                >
+                  <Check className="mr-1 h-3 w-3" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="flex-1 text-xs"
+                  onClick={() => decideMutation.mutate({ id: transfer.id, decision: "reject" })}
+                  disabled={decideMutation.isPending}
+                >
+                  <X className="mr-1 h-3 w-3" />
+                  Reject
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
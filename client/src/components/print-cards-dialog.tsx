@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Patient, HealthCardSelection } from "@shared/schema";
+import { PrinterCheck } from "lucide-react";
+
+interface PrintCardsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  searchResults?: Patient[];
+}
+
+export function PrintCardsDialog({ open, onOpenChange, searchResults }: PrintCardsDialogProps) {
+  const [selectionMode, setSelectionMode] = useState<"filters" | "search">("filters");
+  const [village, setVillage] = useState("");
+  const [registeredFrom, setRegisteredFrom] = useState("");
+  const [registeredTo, setRegisteredTo] = useState("");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { toast } = useToast();
+
+  const useSearchResults = selectionMode === "search" && !!searchResults?.length;
+
+  const buildSelection = (): HealthCardSelection => {
+    if (useSearchResults) {
+      return { patientIds: searchResults!.map(p => p.id) };
+    }
+    return {
+      village: village.trim() || undefined,
+      registeredFrom: registeredFrom || undefined,
+      registeredTo: registeredTo || undefined,
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsGenerating(true);
+      const response = await fetch('/api/patients/cards.pdf', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(buildSelection()),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || 'Failed to generate health cards');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `health_cards_${new Date().toISOString().split('T')[0]}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate health cards",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const hasFilter = !!(village.trim() || registeredFrom || registeredTo);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Print Health Cards</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="selectionMode">Patients</Label>
+            <Select
+              value={useSearchResults ? "search" : "filters"}
+              onValueChange={(value) => setSelectionMode(value as "filters" | "search")}
+            >
+              <SelectTrigger id="selectionMode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="filters">By village or registration date</SelectItem>
+                {searchResults?.length ? (
+                  <SelectItem value="search">Current search results ({searchResults.length})</SelectItem>
+                ) : null}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!useSearchResults && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="village">Village</Label>
+                <Input
+                  id="village"
+                  placeholder="Matches the patient address"
+                  value={village}
+                  onChange={(e) => setVillage(e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="registeredFrom">Registered From</Label>
+                  <Input
+                    id="registeredFrom"
+                    type="date"
+                    value={registeredFrom}
+                    onChange={(e) => setRegisteredFrom(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="registeredTo">Registered To</Label>
+                  <Input
+                    id="registeredTo"
+                    type="date"
+                    value={registeredTo}
+                    onChange={(e) => setRegisteredTo(e.target.value)}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Cards are wallet-sized (85.6 × 54 mm), ten per A4 sheet, with cut marks for trimming before lamination.
+          </p>
+
+          <Button
+            type="submit"
+            className="w-full bg-medical-blue hover:bg-blue-700"
+            disabled={isGenerating || (!useSearchResults && !hasFilter)}
+          >
+            <PrinterCheck className="mr-2 h-4 w-4" />
+            {isGenerating ? "Generating..." : "Download Printable PDF"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,8 +2,22 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { QrCode, Download, PrinterCheck, Copy } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { QrCode, Download, PrinterCheck, Copy, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { Patient } from "@shared/schema";
 
 interface QRCodeGeneratorProps {
@@ -12,77 +26,48 @@ interface QRCodeGeneratorProps {
 }
 
 export function QRCodeGenerator({ patient, size = 200 }: QRCodeGeneratorProps) {
-  const [isGenerating, setIsGenerating] = useState(false);
+  // Higher levels survive more damage (dirt, creases) at the cost of denser codes
+  const [errorCorrection, setErrorCorrection] = useState("Q");
+  const [isReissueOpen, setIsReissueOpen] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  // Generate SVG QR code (simplified representation)
-  const generateQRCodeSVG = (data: string, size: number) => {
-    // This is a simplified QR code representation
-    // In a real implementation, you would use a proper QR code library
-    const gridSize = 25;
-    const cellSize = size / gridSize;
-    
-    // Create a simple pattern based on the data
-    const pattern = [];
-    for (let i = 0; i < gridSize; i++) {
-      pattern[i] = [];
-      for (let j = 0; j < gridSize; j++) {
-        // Simple hash-based pattern generation
-        const hash = (data.charCodeAt((i * gridSize + j) % data.length) + i + j) % 3;
-        pattern[i][j] = hash > 0;
-      }
-    }
-
-    // Generate SVG
-    let svg = `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg">`;
-    svg += `<rect width="${size}" height="${size}" fill="white"/>`;
-    
-    for (let i = 0; i < gridSize; i++) {
-      for (let j = 0; j < gridSize; j++) {
-        if (pattern[i][j]) {
-          svg += `<rect x="${j * cellSize}" y="${i * cellSize}" width="${cellSize}" height="${cellSize}" fill="black"/>`;
-        }
-      }
-    }
-    
-    svg += `</svg>`;
-    return svg;
-  };
-
-  const qrData = JSON.stringify({
-    id: patient.patientId,
-    name: patient.name,
-    qr: patient.qrCode,
-  });
-
-  const qrCodeSVG = generateQRCodeSVG(qrData, size);
-
-  const handleDownload = () => {
-    setIsGenerating(true);
-    try {
-      const blob = new Blob([qrCodeSVG], { type: 'image/svg+xml' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${patient.patientId}-qr-code.svg`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      
+  const reissueMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/patients/${patient.id}/qr/reissue`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsReissueOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
       toast({
-        title: "Success",
-        description: "QR code downloaded successfully",
+        title: "Card Reissued",
+        description: "The previous card no longer works. Print and hand over the new card.",
       });
-    } catch (error) {
+    },
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to download QR code",
+        description: error.message || "Failed to reissue card",
         variant: "destructive",
       });
-    } finally {
-      setIsGenerating(false);
-    }
+    },
+  });
+
+  // Images are rendered by the server with a standard 4-module quiet zone.
+  // The card nonce busts the browser cache once a card is reissued.
+  const qrUrl = (format: "svg" | "png", extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams({ ecl: errorCorrection, v: patient.qrCode?.slice(-8) ?? "", ...extra });
+    return `/api/patients/${patient.id}/qr.${format}?${params}`;
+  };
+
+  const handleDownload = (format: "svg" | "png") => {
+    const link = document.createElement('a');
+    link.href = qrUrl(format, { size: "600", download: "1" });
+    link.download = `${patient.patientId}-qr-code.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
   };
 
   const handlePrint = () => {
@@ -93,17 +78,21 @@ export function QRCodeGenerator({ patient, size = 200 }: QRCodeGeneratorProps) {
           <head>
             <title>QR Code - ${patient.name}</title>
             <style>
-              body { 
-                font-family: Arial, sans-serif; 
-                text-align: center; 
-                padding: 20px; 
+              body {
+                font-family: Arial, sans-serif;
+                text-align: center;
+                padding: 20px;
               }
-              .qr-container { 
-                border: 2px solid #000; 
-                padding: 20px; 
-                display: inline-block; 
+              .qr-container {
+                border: 2px solid #000;
+                padding: 20px;
+                display: inline-block;
                 margin: 20px;
               }
+              .qr-container img {
+                width: 200px;
+                height: 200px;
+              }
               .patient-info {
                 margin-top: 10px;
                 font-size: 14px;
@@ -113,7 +102,7 @@ export function QRCodeGenerator({ patient, size = 200 }: QRCodeGeneratorProps) {
           <body>
             <div class="qr-container">
               <h2>Rural Health Card</h2>
-              ${qrCodeSVG}
+              <img src="${window.location.origin}${qrUrl("png", { size: "600" })}" onload="window.print()" />
               <div class="patient-info">
                 <strong>${patient.name}</strong><br/>
                 ID: ${patient.patientId}<br/>
@@ -124,7 +113,6 @@ export function QRCodeGenerator({ patient, size = 200 }: QRCodeGeneratorProps) {
         </html>
       `);
       printWindow.document.close();
-      printWindow.print();
     }
   };
 
@@ -160,34 +148,60 @@ export function QRCodeGenerator({ patient, size = 200 }: QRCodeGeneratorProps) {
 
         {/* QR Code Display */}
         <div className="flex justify-center">
-          <div 
-            className="border-2 border-gray-300 p-4 rounded-lg bg-white"
-            dangerouslySetInnerHTML={{ __html: qrCodeSVG }}
-          />
+          <div className="border-2 border-gray-300 p-4 rounded-lg bg-white">
+            <img
+              src={qrUrl("svg")}
+              alt={`QR code for ${patient.patientId}`}
+              width={size}
+              height={size}
+            />
+          </div>
+        </div>
+
+        {/* Error Correction */}
+        <div className="flex items-center justify-center space-x-2">
+          <Label htmlFor="errorCorrection" className="text-sm text-gray-600">Error correction</Label>
+          <Select value={errorCorrection} onValueChange={setErrorCorrection}>
+            <SelectTrigger id="errorCorrection" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="L">Low (7%)</SelectItem>
+              <SelectItem value="M">Medium (15%)</SelectItem>
+              <SelectItem value="Q">Quartile (25%)</SelectItem>
+              <SelectItem value="H">High (30%)</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
 
         {/* QR Code Info */}
         <div className="text-sm text-gray-600 space-y-1">
           <p>Scan this QR code to access patient records</p>
-          <p className="text-xs">Code: {patient.qrCode}</p>
+          <p className="text-xs break-all">Code: {patient.qrCode}</p>
         </div>
 
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-2 justify-center">
           <Button
-            onClick={handleDownload}
-            disabled={isGenerating}
+            onClick={() => handleDownload("png")}
             className="bg-medical-blue hover:bg-blue-700"
           >
             <Download className="mr-2 h-4 w-4" />
-            Download
+            PNG
+          </Button>
+          <Button
+            onClick={() => handleDownload("svg")}
+            variant="outline"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            SVG
           </Button>
           <Button
             onClick={handlePrint}
             variant="outline"
           >
             <PrinterCheck className="mr-2 h-4 w-4" />
-            PrinterCheck
+            Print
           </Button>
           <Button
             onClick={handleCopyCode}
@@ -197,18 +211,49 @@ export function QRCodeGenerator({ patient, size = 200 }: QRCodeGeneratorProps) {
             Copy Code
           </Button>
         </div>
+        <Button
+          onClick={() => setIsReissueOpen(true)}
+          variant="ghost"
+          size="sm"
+          className="text-error-red hover:bg-red-50"
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Card lost? Reissue
+        </Button>
 
         {/* Instructions */}
         <div className="bg-blue-50 rounded-lg p-3 text-sm text-left">
           <h4 className="font-medium text-medical-blue mb-2">Usage Instructions:</h4>
           <ul className="text-gray-700 space-y-1 text-xs">
-            <li>• PrinterCheck and laminate for durability</li>
+            <li>• Print and laminate for durability</li>
             <li>• Attach to patient's health booklet</li>
             <li>• Scan during health visits for quick access</li>
             <li>• Keep QR code clean and unfolded</li>
           </ul>
         </div>
       </CardContent>
+
+      <AlertDialog open={isReissueOpen} onOpenChange={setIsReissueOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reissue health card?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A new QR code will be issued for {patient.name}. The current card will stop working
+              immediately and scanning it will no longer find this patient.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => reissueMutation.mutate()}
+              disabled={reissueMutation.isPending}
+              className="bg-error-red hover:bg-red-700"
+            >
+              Reissue Card
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
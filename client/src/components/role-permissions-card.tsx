@@ -0,0 +1,103 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Permission, UserRole, permissionNames, userRoles } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PERMISSION_LABELS, ROLE_LABELS } from "@/lib/roles";
+import { KeyRound } from "lucide-react";
+
+type EditableRole = Exclude<UserRole, "admin">;
+type PermissionMatrix = Record<EditableRole, Permission[]>;
+
+const editableRoles = userRoles.filter((role): role is EditableRole => role !== "admin");
+
+export function RolePermissionsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: matrix, isLoading } = useQuery<PermissionMatrix>({
+    queryKey: ["/api/permissions"],
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ role, permissions }: { role: EditableRole; permissions: Permission[] }) => {
+      const response = await apiRequest("PUT", `/api/permissions/${role}`, { permissions });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/permissions"] });
+      toast({
+        title: "Success",
+        description: "Permissions updated",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update permissions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (role: EditableRole, permission: Permission, granted: boolean) => {
+    const current = matrix?.[role] ?? [];
+    const permissions = granted
+      ? permissionNames.filter(name => name === permission || current.includes(name))
+      : current.filter(name => name !== permission);
+    updateRoleMutation.mutate({ role, permissions });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5" />
+          <span>Role Permissions</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          What each role can do. Everyone can look up the patients in their area; changes take effect on
+          the user's next request. Administrators always have every permission.
+        </p>
+        {isLoading || !matrix ? (
+          <div className="h-32 bg-gray-200 rounded animate-pulse"></div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Role</th>
+                  {permissionNames.map((permission) => (
+                    <th key={permission} className="p-2 font-medium text-center">
+                      {PERMISSION_LABELS[permission]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {editableRoles.map((role) => (
+                  <tr key={role} className="border-b hover:bg-gray-50">
+                    <td className="p-2 font-medium whitespace-nowrap">{ROLE_LABELS[role]}</td>
+                    {permissionNames.map((permission) => (
+                      <td key={permission} className="p-2 text-center">
+                        <Checkbox
+                          checked={matrix[role].includes(permission)}
+                          onCheckedChange={(checked) => toggle(role, permission, checked === true)}
+                          disabled={updateRoleMutation.isPending}
+                          aria-label={`${ROLE_LABELS[role]}: ${PERMISSION_LABELS[permission]}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,348 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ScheduleTemplate, Vaccine } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Plus, Edit, Trash2, RefreshCw } from "lucide-react";
+
+export function ScheduleTemplateManager() {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ScheduleTemplate | null>(null);
+  const [applyAgeGroup, setApplyAgeGroup] = useState("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates, isLoading } = useQuery<ScheduleTemplate[]>({
+    queryKey: ["/api/schedule-templates"],
+  });
+
+  const { data: vaccines } = useQuery<Vaccine[]>({
+    queryKey: ["/api/vaccines"],
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ id, ...templateData }: any) => {
+      const response = id
+        ? await apiRequest("PUT", `/api/schedule-templates/${id}`, templateData)
+        : await apiRequest("POST", "/api/schedule-templates", templateData);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-templates"] });
+      setIsCreateDialogOpen(false);
+      setEditingTemplate(null);
+      toast({
+        title: "Success",
+        description: "Schedule template saved successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save schedule template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/schedule-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-templates"] });
+      toast({
+        title: "Success",
+        description: "Schedule template deleted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete schedule template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyTemplatesMutation = useMutation({
+    mutationFn: async (ageGroup: string) => {
+      const response = await apiRequest("POST", "/api/schedule-templates/apply", {
+        ageGroup: ageGroup === "all" ? undefined : ageGroup,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { patients: number; created: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations/stats"] });
+      toast({
+        title: "Templates Applied",
+        description: `${result.created} vaccinations scheduled across ${result.patients} patients`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply schedule templates",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveTemplate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const maxAgeDays = formData.get('maxAgeDays') as string;
+    saveTemplateMutation.mutate({
+      id: editingTemplate?.id,
+      name: formData.get('name') as string,
+      ageGroup: formData.get('ageGroup') as string,
+      vaccineId: parseInt(formData.get('vaccineId') as string),
+      doseNumber: parseInt(formData.get('doseNumber') as string),
+      dueAgeDays: parseInt(formData.get('dueAgeDays') as string),
+      maxAgeDays: maxAgeDays ? parseInt(maxAgeDays) : null,
+      isActive: formData.get('isActive') === 'true',
+    });
+  };
+
+  const formatDueAge = (days: number) => {
+    if (days === 0) return "At birth / registration";
+    if (days % 7 === 0 && days < 120) return `${days / 7} weeks`;
+    if (days % 30 === 0) return `${days / 30} months`;
+    return `${days} days`;
+  };
+
+  const vaccineName = (vaccineId: number) =>
+    vaccines?.find(v => v.id === vaccineId)?.name || `Vaccine #${vaccineId}`;
+
+  const renderTemplateForm = (template?: ScheduleTemplate | null) => (
+    <form onSubmit={handleSaveTemplate} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="template-name">Name</Label>
+        <Input
+          id="template-name"
+          name="name"
+          defaultValue={template?.name}
+          placeholder="e.g. Pentavalent at 6 weeks"
+          required
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-ageGroup">Age Group</Label>
+          <Select name="ageGroup" defaultValue={template?.ageGroup || "infant"}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="infant">Infant</SelectItem>
+              <SelectItem value="child">Child</SelectItem>
+              <SelectItem value="pregnant">Pregnant Woman</SelectItem>
+              <SelectItem value="adult">Adult</SelectItem>
+              <SelectItem value="elderly">Elderly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-vaccineId">Vaccine</Label>
+          <Select name="vaccineId" defaultValue={template?.vaccineId?.toString()} required>
+            <SelectTrigger>
+              <SelectValue placeholder="Select vaccine" />
+            </SelectTrigger>
+            <SelectContent>
+              {vaccines?.map((vaccine) => (
+                <SelectItem key={vaccine.id} value={vaccine.id.toString()}>
+                  {vaccine.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-doseNumber">Dose</Label>
+          <Input
+            id="template-doseNumber"
+            name="doseNumber"
+            type="number"
+            min="1"
+            defaultValue={template?.doseNumber ?? 1}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-dueAgeDays">Due at (days)</Label>
+          <Input
+            id="template-dueAgeDays"
+            name="dueAgeDays"
+            type="number"
+            min="0"
+            defaultValue={template?.dueAgeDays ?? 0}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-maxAgeDays">Max age (days)</Label>
+          <Input
+            id="template-maxAgeDays"
+            name="maxAgeDays"
+            type="number"
+            min="0"
+            defaultValue={template?.maxAgeDays ?? ""}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="template-isActive">Status</Label>
+        <Select name="isActive" defaultValue={(template?.isActive ?? true).toString()}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Active</SelectItem>
+            <SelectItem value="false">Inactive</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={saveTemplateMutation.isPending}
+      >
+        {saveTemplateMutation.isPending ? "Saving..." : "Save Template"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-4 md:space-y-0">
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5" />
+            <span>Immunization Schedule Templates</span>
+          </CardTitle>
+          <div className="flex space-x-2">
+            <Select value={applyAgeGroup} onValueChange={setApplyAgeGroup}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Age Groups</SelectItem>
+                <SelectItem value="infant">Infants</SelectItem>
+                <SelectItem value="child">Children</SelectItem>
+                <SelectItem value="pregnant">Pregnant Women</SelectItem>
+                <SelectItem value="adult">Adults</SelectItem>
+                <SelectItem value="elderly">Elderly</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => applyTemplatesMutation.mutate(applyAgeGroup)}
+              disabled={applyTemplatesMutation.isPending}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              {applyTemplatesMutation.isPending ? "Applying..." : "Re-apply"}
+            </Button>
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button className="bg-medical-blue hover:bg-blue-700">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Template
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>New Schedule Template</DialogTitle>
+                </DialogHeader>
+                {renderTemplateForm()}
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-32 bg-gray-200 rounded animate-pulse"></div>
+        ) : templates?.length ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left p-3 font-medium text-gray-900">Template</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Age Group</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Vaccine</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Due At</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Status</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {templates.map((template) => (
+                  <tr key={template.id} className="hover:bg-gray-50">
+                    <td className="p-3 font-medium">{template.name}</td>
+                    <td className="p-3 text-gray-600 capitalize">{template.ageGroup}</td>
+                    <td className="p-3 text-gray-600">
+                      {vaccineName(template.vaccineId)} - Dose {template.doseNumber}
+                    </td>
+                    <td className="p-3 text-gray-600">{formatDueAge(template.dueAgeDays)}</td>
+                    <td className="p-3">
+                      <Badge className={`text-xs ${template.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                        {template.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </td>
+                    <td className="p-3">
+                      <div className="flex space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="p-1 text-medical-blue hover:bg-blue-50"
+                          onClick={() => setEditingTemplate(template)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="p-1 text-error-red hover:bg-red-50"
+                          onClick={() => deleteTemplateMutation.mutate(template.id)}
+                          disabled={deleteTemplateMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500">
+            <CalendarClock className="mx-auto h-12 w-12 mb-4 opacity-50" />
+            <p>No schedule templates defined</p>
+            <p className="text-sm mt-2">Add templates to schedule vaccinations automatically at registration</p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Edit Template Dialog */}
+      <Dialog open={!!editingTemplate} onOpenChange={() => setEditingTemplate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Schedule Template</DialogTitle>
+          </DialogHeader>
+          {editingTemplate && renderTemplateForm(editingTemplate)}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { QrSigningKey } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, RefreshCw } from "lucide-react";
+
+type PublicSigningKey = Omit<QrSigningKey, "privateKey">;
+
+export function SigningKeyCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: keys } = useQuery<PublicSigningKey[]>({
+    queryKey: ["/api/qr-keys"],
+  });
+
+  const rotateKeyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/qr-keys/rotate");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/qr-keys"] });
+      toast({
+        title: "Success",
+        description: "New signing key is active. Existing cards remain valid.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to rotate signing key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <KeyRound className="mr-2 h-5 w-5" />
+            Health Card Signing Keys
+          </CardTitle>
+          <Button
+            variant="outline"
+            onClick={() => rotateKeyMutation.mutate()}
+            disabled={rotateKeyMutation.isPending}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {rotateKeyMutation.isPending ? "Rotating..." : "Rotate Key"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {keys?.length ? (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="text-left p-3 font-medium text-gray-900">Key ID</th>
+                <th className="text-left p-3 font-medium text-gray-900">Created</th>
+                <th className="text-left p-3 font-medium text-gray-900">Retired</th>
+                <th className="text-left p-3 font-medium text-gray-900">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {keys.map((key) => (
+                <tr key={key.id}>
+                  <td className="p-3 font-mono">{key.keyId}</td>
+                  <td className="p-3 text-gray-600">
+                    {key.createdAt ? new Date(key.createdAt).toLocaleDateString() : "N/A"}
+                  </td>
+                  <td className="p-3 text-gray-600">
+                    {key.retiredAt ? new Date(key.retiredAt).toLocaleDateString() : "-"}
+                  </td>
+                  <td className="p-3">
+                    {key.isActive ? (
+                      <Badge className="text-xs bg-success-green text-white">Signing</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs">Verify only</Badge>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-500">
+            No signing key yet. One is created when the first health card is issued.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
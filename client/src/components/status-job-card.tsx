@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { JobRun } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Clock, Play } from "lucide-react";
+
+interface StatusJobInfo {
+  lastRun: JobRun | null;
+  nextRunAt: string | null;
+  missedGraceDays: number;
+}
+
+export function StatusJobCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: job } = useQuery<StatusJobInfo>({
+    queryKey: ["/api/jobs/vaccination-status"],
+  });
+
+  const runJobMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/jobs/vaccination-status/run");
+      return response.json();
+    },
+    onSuccess: (run: JobRun) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/vaccination-status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations/stats"] });
+      const counts = run.counts as { overdue: number; missed: number } | null;
+      toast({
+        title: "Success",
+        description: `Marked ${counts?.overdue ?? 0} overdue and ${counts?.missed ?? 0} missed`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run status job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const lastRun = job?.lastRun;
+  const counts = lastRun?.counts as { overdue: number; missed: number } | null | undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Clock className="mr-2 h-5 w-5" />
+            Overdue &amp; Missed Status Job
+          </CardTitle>
+          <Button
+            variant="outline"
+            onClick={() => runJobMutation.mutate()}
+            disabled={runJobMutation.isPending}
+          >
+            <Play className="mr-2 h-4 w-4" />
+            {runJobMutation.isPending ? "Running..." : "Run Now"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <div className="text-gray-500">Last Run</div>
+            <div className="font-medium">
+              {lastRun ? new Date(lastRun.startedAt).toLocaleString() : "Never"}
+            </div>
+            {lastRun?.error && (
+              <Badge className="mt-1 text-xs bg-error-red text-white">Failed: {lastRun.error}</Badge>
+            )}
+          </div>
+          <div>
+            <div className="text-gray-500">Marked Overdue / Missed</div>
+            <div className="font-medium">
+              {counts ? `${counts.overdue} / ${counts.missed}` : "N/A"}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-500">Next Run</div>
+            <div className="font-medium">
+              {job?.nextRunAt ? new Date(job.nextRunAt).toLocaleString() : "Not scheduled"}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-500">Missed After</div>
+            <div className="font-medium">{job?.missedGraceDays ?? "-"} days past due</div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PatientTransferRequest } from "@shared/schema";
+import { LocationSelect } from "@/components/location-select";
+import { ArrowRightLeft } from "lucide-react";
+
+interface TransferRequestDialogProps {
+  patientCode: string;
+  area: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: PatientTransferRequest) => void;
+  isLoading?: boolean;
+}
+
+export function TransferRequestDialog({
+  patientCode,
+  area,
+  open,
+  onOpenChange,
+  onSubmit,
+  isLoading = false,
+}: TransferRequestDialogProps) {
+  const [toVillageId, setToVillageId] = useState<number | null>(null);
+  const [reason, setReason] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (toVillageId) onSubmit({ toVillageId, reason: reason.trim() || undefined });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Transfer of {patientCode}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="transferVillage">Move to village</Label>
+            <LocationSelect
+              id="transferVillage"
+              value={toVillageId}
+              onChange={setToVillageId}
+              levels={["village"]}
+              placeholder="Select village in your area"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transferReason">Reason</Label>
+            <Textarea
+              id="transferReason"
+              placeholder="e.g. Family has moved to this village"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+            />
+          </div>
+          <p className="text-sm text-gray-600">
+            {area ? `The patient is registered in ${area}. ` : ""}
+            A worker or supervisor covering that area will be asked to approve the move. Until then the
+            record stays with them.
+          </p>
+          <Button
+            type="submit"
+            className="w-full bg-medical-blue hover:bg-blue-700"
+            disabled={isLoading || !toVillageId}
+          >
+            <ArrowRightLeft className="mr-2 h-4 w-4" />
+            {isLoading ? "Requesting..." : "Request Transfer"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
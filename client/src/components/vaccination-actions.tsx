@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Vaccination,
+  VaccinationAction,
+  VaccinationEvent,
+  vaccinationTransitions,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { MoreVertical, CalendarClock, XCircle, Ban, RotateCcw, History } from "lucide-react";
+
+// Administering has its own dialog (AdministerDoseDialog), so it is not listed here
+const menuActions: { action: Exclude<VaccinationAction, "administer">; label: string; icon: typeof CalendarClock }[] = [
+  { action: "schedule", label: "Reschedule", icon: CalendarClock },
+  { action: "miss", label: "Mark Missed", icon: XCircle },
+  { action: "cancel", label: "Cancel Dose", icon: Ban },
+  { action: "reopen", label: "Reopen", icon: RotateCcw },
+];
+
+interface VaccinationActionsProps {
+  vaccination: Vaccination;
+}
+
+export function VaccinationActions({ vaccination }: VaccinationActionsProps) {
+  const [activeAction, setActiveAction] = useState<Exclude<VaccinationAction, "administer"> | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [scheduledDate, setScheduledDate] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: history } = useQuery<(VaccinationEvent & { changedByName: string | null })[]>({
+    queryKey: [`/api/vaccinations/${vaccination.id}/history`],
+    enabled: isHistoryOpen,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ action, data }: { action: VaccinationAction; data: Record<string, unknown> }) => {
+      const response = await apiRequest("POST", `/api/vaccinations/${vaccination.id}/${action}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      closeDialog();
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/lots"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/vaccinations/${vaccination.id}/history`] });
+      toast({
+        title: "Success",
+        description: "Vaccination status updated",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update vaccination status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (action: Exclude<VaccinationAction, "administer">) => {
+    setScheduledDate(action === "schedule" ? vaccination.scheduledDate || "" : "");
+    setReason("");
+    setActiveAction(action);
+  };
+
+  const closeDialog = () => {
+    setActiveAction(null);
+    setScheduledDate("");
+    setReason("");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeAction) return;
+    transitionMutation.mutate({
+      action: activeAction,
+      data: {
+        reason: reason || undefined,
+        scheduledDate: scheduledDate || undefined,
+      },
+    });
+  };
+
+  // Without permission to change doses only the history is offered
+  const availableActions = menuActions.filter(({ action }) =>
+    can("administer_vaccine") && (vaccinationTransitions[action].from as readonly string[]).includes(vaccination.status)
+  );
+  const activeLabel = menuActions.find(({ action }) => action === activeAction)?.label;
+  const reasonRequired = activeAction === "cancel" || activeAction === "reopen";
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="p-1 text-gray-600 hover:bg-gray-50">
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {availableActions.map(({ action, label, icon: Icon }) => (
+            <DropdownMenuItem key={action} onClick={() => openDialog(action)}>
+              <Icon className="mr-2 h-4 w-4" />
+              {label}
+            </DropdownMenuItem>
+          ))}
+          {availableActions.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onClick={() => setIsHistoryOpen(true)}>
+            <History className="mr-2 h-4 w-4" />
+            View History
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!activeAction} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{activeLabel} - Dose {vaccination.doseNumber}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {(activeAction === "schedule" || activeAction === "reopen") && (
+              <div className="space-y-2">
+                <Label htmlFor="scheduledDate">
+                  {activeAction === "schedule" ? "New Due Date *" : "New Due Date"}
+                </Label>
+                <Input
+                  id="scheduledDate"
+                  type="date"
+                  value={scheduledDate}
+                  onChange={(e) => setScheduledDate(e.target.value)}
+                  required={activeAction === "schedule"}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="reason">{reasonRequired ? "Reason *" : "Reason"}</Label>
+              <Textarea
+                id="reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                required={reasonRequired}
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-medical-blue hover:bg-blue-700"
+              disabled={transitionMutation.isPending}
+            >
+              {transitionMutation.isPending ? "Saving..." : activeLabel}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Status History - Dose {vaccination.doseNumber}</DialogTitle>
+          </DialogHeader>
+          {history?.length ? (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {history.map((event) => (
+                <div key={event.id} className="border-l-2 border-medical-blue pl-3 text-sm">
+                  <div className="font-medium capitalize">
+                    {event.fromStatus} → {event.toStatus}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {event.createdAt ? new Date(event.createdAt).toLocaleString() : ""}
+                    {" · "}
+                    {event.changedByName || "System"}
+                  </div>
+                  {event.reason && <p className="text-gray-600 mt-1">{event.reason}</p>}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-6 text-gray-500 text-sm">No status changes recorded</p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -150,8 +150,6 @@ export function VaccinationForm({
               <SelectContent>
                 <SelectItem value="scheduled">Scheduled</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="missed">Missed</SelectItem>
-                <SelectItem value="overdue">Overdue</SelectItem>
               </SelectContent>
             </Select>
             {errors.status && (
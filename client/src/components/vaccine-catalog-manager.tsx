@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Vaccine } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Syringe, Plus, Edit, Ban, RotateCcw } from "lucide-react";
+
+export function VaccineCatalogManager() {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editingVaccine, setEditingVaccine] = useState<Vaccine | null>(null);
+  const [deactivating, setDeactivating] = useState<{ vaccine: Vaccine; pendingDoses: number } | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: vaccines, isLoading } = useQuery<Vaccine[]>({
+    queryKey: ["/api/vaccines", "all"],
+    queryFn: () => fetch("/api/vaccines?includeInactive=true", { credentials: "include" }).then(res => res.json()),
+  });
+
+  const saveVaccineMutation = useMutation({
+    mutationFn: async ({ id, ...vaccineData }: any) => {
+      const response = id
+        ? await apiRequest("PUT", `/api/vaccines/${id}`, vaccineData)
+        : await apiRequest("POST", "/api/vaccines", vaccineData);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccines"] });
+      setIsCreateDialogOpen(false);
+      setEditingVaccine(null);
+      toast({
+        title: "Success",
+        description: "Vaccine saved successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save vaccine",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateVaccineMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/vaccines/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccines"] });
+      setDeactivating(null);
+      toast({
+        title: "Vaccine Deactivated",
+        description: "The vaccine is no longer offered for new vaccinations",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to deactivate vaccine",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDeactivateClick = async (vaccine: Vaccine) => {
+    try {
+      const response = await apiRequest("GET", `/api/vaccines/${vaccine.id}/usage`);
+      const { pendingDoses } = await response.json();
+      setDeactivating({ vaccine, pendingDoses });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check vaccine usage",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveVaccine = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const optionalNumber = (field: string) => {
+      const value = formData.get(field) as string;
+      return value ? parseInt(value) : null;
+    };
+    saveVaccineMutation.mutate({
+      id: editingVaccine?.id,
+      name: formData.get('name') as string,
+      description: (formData.get('description') as string) || null,
+      ageGroup: formData.get('ageGroup') as string,
+      dosesRequired: parseInt(formData.get('dosesRequired') as string),
+      intervalDays: optionalNumber('intervalDays'),
+      minAgeDays: optionalNumber('minAgeDays'),
+      maxAgeDays: optionalNumber('maxAgeDays'),
+    });
+  };
+
+  const formatAgeWindow = (vaccine: Vaccine) => {
+    if (vaccine.minAgeDays == null && vaccine.maxAgeDays == null) return "Any age";
+    return `${vaccine.minAgeDays ?? 0} – ${vaccine.maxAgeDays ?? "∞"} days`;
+  };
+
+  const renderVaccineForm = (vaccine?: Vaccine | null) => (
+    <form onSubmit={handleSaveVaccine} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="vaccine-name">Name</Label>
+        <Input id="vaccine-name" name="name" defaultValue={vaccine?.name} required />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="vaccine-description">Description</Label>
+        <Textarea
+          id="vaccine-description"
+          name="description"
+          defaultValue={vaccine?.description || ''}
+          rows={2}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="vaccine-ageGroup">Age Group</Label>
+          <Select name="ageGroup" defaultValue={vaccine?.ageGroup || "infant"}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="infant">Infant</SelectItem>
+              <SelectItem value="child">Child</SelectItem>
+              <SelectItem value="pregnant">Pregnant Woman</SelectItem>
+              <SelectItem value="adult">Adult</SelectItem>
+              <SelectItem value="elderly">Elderly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="vaccine-dosesRequired">Doses</Label>
+          <Input
+            id="vaccine-dosesRequired"
+            name="dosesRequired"
+            type="number"
+            min="1"
+            defaultValue={vaccine?.dosesRequired ?? 1}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="vaccine-intervalDays">Interval (days)</Label>
+          <Input
+            id="vaccine-intervalDays"
+            name="intervalDays"
+            type="number"
+            min="0"
+            defaultValue={vaccine?.intervalDays ?? ''}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="vaccine-minAgeDays">Minimum age (days)</Label>
+          <Input
+            id="vaccine-minAgeDays"
+            name="minAgeDays"
+            type="number"
+            min="0"
+            defaultValue={vaccine?.minAgeDays ?? ''}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="vaccine-maxAgeDays">Maximum age (days)</Label>
+          <Input
+            id="vaccine-maxAgeDays"
+            name="maxAgeDays"
+            type="number"
+            min="0"
+            defaultValue={vaccine?.maxAgeDays ?? ''}
+          />
+        </div>
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={saveVaccineMutation.isPending}
+      >
+        {saveVaccineMutation.isPending ? "Saving..." : "Save Vaccine"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Syringe className="h-5 w-5" />
+            <span>Vaccine Catalog</span>
+          </CardTitle>
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-medical-blue hover:bg-blue-700">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Vaccine
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>New Vaccine</DialogTitle>
+              </DialogHeader>
+              {renderVaccineForm()}
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-32 bg-gray-200 rounded animate-pulse"></div>
+        ) : vaccines?.length ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left p-3 font-medium text-gray-900">Vaccine</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Age Group</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Doses</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Age Window</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Status</th>
+                  <th className="text-left p-3 font-medium text-gray-900">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {vaccines.map((vaccine) => (
+                  <tr key={vaccine.id} className="hover:bg-gray-50">
+                    <td className="p-3">
+                      <div className="font-medium">{vaccine.name}</div>
+                      {vaccine.description && (
+                        <div className="text-gray-500 text-xs">{vaccine.description}</div>
+                      )}
+                    </td>
+                    <td className="p-3 text-gray-600 capitalize">{vaccine.ageGroup}</td>
+                    <td className="p-3 text-gray-600">
+                      {vaccine.dosesRequired}
+                      {vaccine.intervalDays ? ` (every ${vaccine.intervalDays} days)` : ''}
+                    </td>
+                    <td className="p-3 text-gray-600">{formatAgeWindow(vaccine)}</td>
+                    <td className="p-3">
+                      <Badge className={`text-xs ${vaccine.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                        {vaccine.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </td>
+                    <td className="p-3">
+                      <div className="flex space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="p-1 text-medical-blue hover:bg-blue-50"
+                          onClick={() => setEditingVaccine(vaccine)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        {vaccine.isActive ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="p-1 text-error-red hover:bg-red-50"
+                            onClick={() => handleDeactivateClick(vaccine)}
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="p-1 text-success-green hover:bg-green-50"
+                            onClick={() => saveVaccineMutation.mutate({ id: vaccine.id, isActive: true })}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500">
+            <Syringe className="mx-auto h-12 w-12 mb-4 opacity-50" />
+            <p>No vaccines in the catalog</p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Edit Vaccine Dialog */}
+      <Dialog open={!!editingVaccine} onOpenChange={() => setEditingVaccine(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Vaccine</DialogTitle>
+          </DialogHeader>
+          {editingVaccine && renderVaccineForm(editingVaccine)}
+        </DialogContent>
+      </Dialog>
+
+      {/* Deactivate Confirmation */}
+      <AlertDialog open={!!deactivating} onOpenChange={() => setDeactivating(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate {deactivating?.vaccine.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deactivating?.pendingDoses
+                ? `${deactivating.pendingDoses} scheduled or overdue doses still reference this vaccine. They will remain on patient records but the vaccine will no longer be offered for new vaccinations.`
+                : "No pending doses reference this vaccine. It will no longer be offered for new vaccinations."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-error-red hover:bg-red-700"
+              onClick={() => deactivating && deactivateVaccineMutation.mutate(deactivating.vaccine.id)}
+            >
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
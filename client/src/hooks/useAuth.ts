@@ -1,8 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
-import { User } from "@shared/schema";
+import { Permission, User } from "@shared/schema";
+
+// The signed-in user, with what their role is allowed to do
+export type AuthUser = User & { permissions: Permission[] };
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery<User>({
+  const { data: user, isLoading } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -11,5 +14,6 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    can: (permission: Permission) => !!user?.permissions?.includes(permission),
   };
 }
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { getQueuedRequests, removeQueuedRequest, subscribeToOutbox, QueuedRequest } from "@/lib/offlineStore";
+import { primeOfflineCache, replayQueuedRequests, retryQueuedRequest } from "@/lib/offlineSync";
+
+// navigator.onLine can report a connection that doesn't reach the server,
+// so pending writes are also retried on this interval
+const RETRY_INTERVAL_MS = 60_000;
+
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [queued, setQueued] = useState<QueuedRequest[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      if (user) {
+        await replayQueuedRequests(user.id);
+        await primeOfflineCache(user);
+      }
+    } catch (error) {
+      console.error("Offline sync error:", error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setQueued([]);
+      return;
+    }
+    const refresh = () => {
+      getQueuedRequests(user.id).then(setQueued).catch((error) => console.error("Outbox read error:", error));
+    };
+    refresh();
+    return subscribeToOutbox(refresh);
+  }, [user?.id]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [syncNow]);
+
+  // Sync once the user is known, so their schedule is cached for the field
+  useEffect(() => {
+    if (user && navigator.onLine) {
+      syncNow();
+    }
+  }, [user, syncNow]);
+
+  const pendingCount = queued.filter(request => !request.error).length;
+  const failedCount = queued.length - pendingCount;
+
+  useEffect(() => {
+    if (pendingCount === 0 || !user) return;
+    const interval = setInterval(() => {
+      if (navigator.onLine) {
+        replayQueuedRequests(user.id);
+      }
+    }, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingCount, user?.id]);
+
+  return {
+    isOnline,
+    isSyncing,
+    queued,
+    pendingCount,
+    failedCount,
+    syncNow,
+    retry: (id: number) => (user ? retryQueuedRequest(user.id, id) : Promise.resolve()),
+    discard: removeQueuedRequest,
+  };
+}
@@ -0,0 +1,39 @@
+import type { Location, LocationLevel } from "@shared/schema";
+
+export const LOCATION_LEVEL_LABELS: Record<LocationLevel, string> = {
+  district: "District",
+  block: "Block",
+  phc: "PHC",
+  sub_centre: "Sub-centre",
+  village: "Village",
+};
+
+export function locationLevelLabel(level: string): string {
+  return LOCATION_LEVEL_LABELS[level as LocationLevel] ?? level;
+}
+
+// Each location followed by the ones under it, with its depth in the hierarchy
+export function locationTree(locations: Location[]): { location: Location; depth: number }[] {
+  const children = new Map<number | null, Location[]>();
+  for (const location of locations) {
+    const siblings = children.get(location.parentId) ?? [];
+    siblings.push(location);
+    children.set(location.parentId, siblings);
+  }
+
+  const tree: { location: Location; depth: number }[] = [];
+  const visit = (parentId: number | null, depth: number) => {
+    for (const location of children.get(parentId) ?? []) {
+      tree.push({ location, depth });
+      visit(location.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return tree;
+}
+
+// Narrows an API list, stat or report url to a location and everything under it
+export function withLocation(url: string, locationId: number | null | undefined): string {
+  if (!locationId) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}locationId=${locationId}`;
+}
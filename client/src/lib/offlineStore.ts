@@ -0,0 +1,178 @@
+import type { SyncMutation } from "@shared/schema";
+
+// IndexedDB storage for offline use: the last response seen for each GET
+// endpoint, an outbox of writes made while the server was unreachable, and
+// patient IDs reserved for registering patients offline.
+
+const DB_NAME = "rural-health-offline";
+const DB_VERSION = 2;
+const RESPONSES = "responses";
+const OUTBOX = "outbox";
+const RESERVED_IDS = "reservedIds";
+
+export interface QueuedRequest {
+  id?: number;
+  userId: number; // who made the write; only sent while they are signed in
+  mutation: SyncMutation; // sent to /api/sync as-is
+  description: string;
+  createdAt: string;
+  error?: string; // set when the server rejected or conflicted with the change
+  serverVersion?: number; // the row's version on the server, after a conflict
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const outboxListeners = new Set<() => void>();
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RESPONSES)) {
+          db.createObjectStore(RESPONSES, { keyPath: "url" });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          db.createObjectStore(OUTBOX, { keyPath: "id", autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(RESERVED_IDS)) {
+          db.createObjectStore(RESERVED_IDS, { keyPath: "patientId" }).createIndex("userId", "userId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const notifyOutboxListeners = () => outboxListeners.forEach(listener => listener());
+
+// Cached responses
+
+export async function getCachedResponse<T>(url: string): Promise<T | undefined> {
+  const entry = await withStore<{ url: string; data: T } | undefined>(RESPONSES, "readonly", store => store.get(url));
+  return entry?.data;
+}
+
+export async function putCachedResponse(url: string, data: unknown): Promise<void> {
+  await withStore(RESPONSES, "readwrite", store => store.put({ url, data, cachedAt: new Date().toISOString() }));
+}
+
+// Lists the sync assembles in full, such as every patient in the user's area,
+// are kept apart from the last page fetched for the same URL and are what
+// that URL serves offline
+const primedKey = (url: string) => `primed:${url}`;
+
+export async function putPrimedResponse(url: string, data: unknown): Promise<void> {
+  await putCachedResponse(primedKey(url), data);
+}
+
+export async function getOfflineResponse<T>(url: string): Promise<T | undefined> {
+  return (await getCachedResponse<T>(primedKey(url))) ?? (await getCachedResponse<T>(url));
+}
+
+export async function removeCachedResponses(urls: string[]): Promise<void> {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(RESPONSES, "readwrite");
+    const store = transaction.objectStore(RESPONSES);
+    urls.forEach(url => store.delete(url));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Called on logout so the next user of a shared device can't read patient data
+export async function clearCachedResponses(): Promise<void> {
+  await withStore(RESPONSES, "readwrite", store => store.clear());
+}
+
+// Outbox
+
+export async function queueRequest(request: Omit<QueuedRequest, "id" | "createdAt">): Promise<void> {
+  await withStore(OUTBOX, "readwrite", store => store.add({
+    ...request,
+    createdAt: new Date().toISOString(),
+  }));
+  notifyOutboxListeners();
+}
+
+// The user's queued writes, oldest first, which is the order they must be
+// replayed in. Other users' writes on a shared device wait for them to sign in.
+export async function getQueuedRequests(userId: number): Promise<QueuedRequest[]> {
+  const requests = await withStore<QueuedRequest[]>(OUTBOX, "readonly", store => store.getAll());
+  return requests.filter(request => request.userId === userId);
+}
+
+export async function updateQueuedRequest(request: QueuedRequest): Promise<void> {
+  await withStore(OUTBOX, "readwrite", store => store.put(request));
+  notifyOutboxListeners();
+}
+
+export async function removeQueuedRequest(id: number): Promise<void> {
+  await withStore(OUTBOX, "readwrite", store => store.delete(id));
+  notifyOutboxListeners();
+}
+
+export function subscribeToOutbox(listener: () => void): () => void {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+}
+
+// Reserved patient IDs. Reservations belong to the user they were issued
+// to, so each user on a shared device draws from their own pool.
+
+export async function addReservedPatientIds(userId: number, patientIds: string[]): Promise<void> {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(RESERVED_IDS, "readwrite");
+    const store = transaction.objectStore(RESERVED_IDS);
+    patientIds.forEach(patientId => store.put({ patientId, userId }));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function countReservedPatientIds(userId: number): Promise<number> {
+  return withStore(RESERVED_IDS, "readonly", store => store.index("userId").count(userId));
+}
+
+// Removes and returns the user's lowest reserved ID, if any are left
+export async function takeReservedPatientId(userId: number): Promise<string | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(RESERVED_IDS, "readwrite");
+    const request = transaction.objectStore(RESERVED_IDS).index("userId").openCursor(userId);
+    let patientId: string | undefined;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        patientId = cursor.value.patientId;
+        cursor.delete();
+      }
+    };
+    transaction.oncomplete = () => resolve(patientId);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,194 @@
+import type { Patient, User } from "@shared/schema";
+import { apiRequest, getJson, queryClient } from "./queryClient";
+import {
+  addReservedPatientIds,
+  countReservedPatientIds,
+  getCachedResponse,
+  getQueuedRequests,
+  putCachedResponse,
+  putPrimedResponse,
+  removeCachedResponses,
+  removeQueuedRequest,
+  updateQueuedRequest,
+} from "./offlineStore";
+
+// Assigned doses are fetched a page at a time; stop after this many pages so
+// a large assignment can't stall the device on a slow connection
+const MAX_SCHEDULE_PAGES = 10;
+// Largest batch /api/sync accepts
+const MAX_SYNC_BATCH = 100;
+// Reserved patient IDs are topped up when fewer than the low-water mark are
+// left, enough for a day of registrations at a village camp
+const RESERVED_ID_LOW_WATER = 20;
+const RESERVED_ID_BATCH = 50;
+// Patient lists the pages request without a filter: the patient list and the
+// vaccination form's patient picker
+const PATIENT_LIST_URLS = ["/api/patients", "/api/patients?status=active"];
+
+let replayInFlight: Promise<void> | null = null;
+
+interface SyncItemResult {
+  clientId: string;
+  status: "pending" | "applied" | "conflict" | "rejected";
+  version?: number;
+  message?: string;
+}
+
+// Sends the signed-in user's queued writes to /api/sync in the order they
+// were made. The server skips any it has already applied, so resending after
+// a dropped connection is safe. Writes it refuses stay in the outbox with the
+// reason.
+export function replayQueuedRequests(userId: number): Promise<void> {
+  if (!replayInFlight) {
+    replayInFlight = replay(userId).finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+}
+
+async function replay(userId: number) {
+  const pending = (await getQueuedRequests(userId)).filter(request => !request.error);
+  let applied = 0;
+
+  for (let start = 0; start < pending.length; start += MAX_SYNC_BATCH) {
+    const batch = pending.slice(start, start + MAX_SYNC_BATCH);
+    let res: Response;
+    try {
+      res = await fetch("/api/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mutations: batch.map(request => request.mutation) }),
+        credentials: "include",
+      });
+    } catch {
+      break;
+    }
+    if (!res.ok) {
+      // Expired session or server error; try again on the next sync
+      break;
+    }
+
+    const { results }: { results: SyncItemResult[] } = await res.json();
+    for (const request of batch) {
+      const result = results.find(r => r.clientId === request.mutation.clientId);
+      if (result?.status === "applied") {
+        await removeQueuedRequest(request.id!);
+        applied++;
+      } else if (result?.status === "conflict") {
+        await updateQueuedRequest({
+          ...request,
+          error: "Changed by someone else since it was downloaded",
+          serverVersion: result.version,
+        });
+      } else if (result && result.status !== "pending") {
+        // Pending ones are still being applied by an earlier request; they
+        // stay queued and the next sync picks up the outcome
+        await updateQueuedRequest({ ...request, error: result.message || "Rejected by the server" });
+      }
+    }
+  }
+
+  if (applied > 0) {
+    await queryClient.invalidateQueries();
+  }
+}
+
+// Sends a refused write again as a new mutation. After a conflict it is
+// applied on top of the server's current version, which the worker has
+// chosen to do by retrying.
+export async function retryQueuedRequest(userId: number, id: number): Promise<void> {
+  const request = (await getQueuedRequests(userId)).find(r => r.id === id);
+  if (!request) {
+    return;
+  }
+  const mutation = { ...request.mutation, clientId: crypto.randomUUID() };
+  if ("baseVersion" in mutation && request.serverVersion !== undefined) {
+    mutation.baseVersion = request.serverVersion;
+  }
+  await updateQueuedRequest({ ...request, mutation, error: undefined, serverVersion: undefined });
+  await replayQueuedRequests(userId);
+}
+
+// Fetches what a worker needs in the field - the vaccine catalogue, their
+// assigned schedule, and the list and record of every patient in their area -
+// so the responses are in the offline cache before connectivity is lost. The
+// URLs match the ones the pages request.
+export async function primeOfflineCache(user: User): Promise<void> {
+  await Promise.all([
+    getJson("/api/vaccines"),
+    getJson("/api/vaccinations/stats"),
+    topUpReservedPatientIds(user),
+  ]);
+
+  let cursor: string | null = null;
+  for (let page = 0; page < MAX_SCHEDULE_PAGES; page++) {
+    const params = new URLSearchParams({ assignedTo: String(user.id) });
+    if (cursor) params.set("cursor", cursor);
+    const result: { nextCursor: string | null } = await getJson(`/api/vaccinations?${params}`);
+    cursor = result.nextCursor;
+    if (!cursor) break;
+  }
+
+  // The sync feed says which patients in the area changed since the last
+  // time; only those records are downloaded again, and the area's patient
+  // list is kept up to date from it. The cursor and list live with the cached
+  // responses so clearing them on logout starts the next user afresh. Without
+  // a list yet, the whole area is fetched.
+  const cursorKey = `sync-cursor:${user.id}`;
+  const areaKey = `area-patients:${user.id}`;
+  const areaPatients = await getCachedResponse<Patient[]>(areaKey);
+  const since = areaPatients ? await getCachedResponse<string>(cursorKey) : undefined;
+  const res = await fetch("/api/sync", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ since }),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    return;
+  }
+  const feed: {
+    changes: { patients: Patient[]; vaccinations: { patientId: number }[]; mergedPatientIds: number[] };
+    cursor: string;
+  } = await res.json();
+
+  // Records merged into another patient no longer exist on the server
+  await removeCachedResponses(feed.changes.mergedPatientIds.flatMap(patientId => [
+    `/api/patients/${patientId}`,
+    `/api/patients/${patientId}/vaccinations`,
+    `/api/patients/${patientId}/aefi`,
+  ]));
+
+  const area = new Map((since && areaPatients ? areaPatients : []).map(patient => [patient.id, patient]));
+  feed.changes.patients.forEach(patient => area.set(patient.id, patient));
+  feed.changes.mergedPatientIds.forEach(patientId => area.delete(patientId));
+  await putCachedResponse(areaKey, Array.from(area.values()));
+  // Newest first, as /api/patients lists them
+  const activePatients = Array.from(area.values())
+    .filter(patient => patient.status === "active")
+    .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+  await Promise.all(PATIENT_LIST_URLS.map(url => putPrimedResponse(url, activePatients)));
+
+  const changedPatientIds = new Set([
+    ...feed.changes.patients.map(patient => patient.id),
+    ...feed.changes.vaccinations.map(vaccination => vaccination.patientId),
+  ]);
+  for (const patientId of Array.from(changedPatientIds)) {
+    await Promise.all([
+      getJson(`/api/patients/${patientId}`),
+      getJson(`/api/patients/${patientId}/vaccinations`),
+      getJson(`/api/patients/${patientId}/aefi`),
+    ]);
+  }
+  await putCachedResponse(cursorKey, feed.cursor);
+}
+
+async function topUpReservedPatientIds(user: User): Promise<void> {
+  if (await countReservedPatientIds(user.id) >= RESERVED_ID_LOW_WATER) {
+    return;
+  }
+  const response = await apiRequest("POST", "/api/patient-ids/reserve", { count: RESERVED_ID_BATCH });
+  const { patientIds }: { patientIds: string[] } = await response.json();
+  await addReservedPatientIds(user.id, patientIds);
+}
@@ -0,0 +1,13 @@
+import type { PatientStatus } from "@shared/schema";
+
+export const PATIENT_STATUS_LABELS: Record<PatientStatus, string> = {
+  active: "Active",
+  migrated: "Migrated out",
+  deceased: "Deceased",
+  duplicate: "Duplicate",
+  registered_in_error: "Registered in error",
+};
+
+export function patientStatusLabel(status: string): string {
+  return PATIENT_STATUS_LABELS[status as PatientStatus] ?? status;
+}
@@ -0,0 +1,118 @@
+import jsQR from "jsqr";
+
+// Signed card tokens (RH1.<payload>.<signature>) and the RH_<patientId>_<timestamp>
+// codes on cards printed before signing
+const CARD_CODE_PATTERN = /^(RH1\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+|RH_[A-Za-z0-9-]+_\d+)$/;
+
+// Cards encode either the bare patient qrCode, or (older printed cards) the
+// JSON payload {id, name, qr}. Returns the qrCode to look up, or null for
+// anything that isn't a health card, e.g. a product or payment QR code.
+export function parseQrPayload(text: string): string | null {
+  let code = text.trim();
+  if (code.startsWith("{")) {
+    try {
+      const payload = JSON.parse(code);
+      code = typeof payload?.qr === "string" ? payload.qr.trim() : "";
+    } catch {
+      return null;
+    }
+  }
+
+  return CARD_CODE_PATTERN.test(code) ? code : null;
+}
+
+export interface CardTokenPayload {
+  p: string; // patientId
+  i: string; // issue date
+  k: string; // signing key id
+  n: string; // card nonce
+}
+
+export interface PublicSigningKey {
+  keyId: string;
+  publicKey: JsonWebKey;
+  isActive: boolean | null;
+}
+
+export type CardVerification =
+  | { status: "verified"; payload: CardTokenPayload }
+  | { status: "invalid" | "unknown-key"; payload: CardTokenPayload }
+  | { status: "unsigned" };
+
+const base64UrlToBytes = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Checks a signed card token (RH1.<payload>.<signature>) against the cached
+// public keys, without contacting the server
+export async function verifyCardTokenOffline(
+  token: string,
+  keys: PublicSigningKey[],
+): Promise<CardVerification> {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== "RH1") {
+    return { status: "unsigned" };
+  }
+
+  let payload: CardTokenPayload;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(base64UrlToBytes(parts[1])));
+  } catch {
+    return { status: "unsigned" };
+  }
+
+  const key = keys.find(k => k.keyId === payload.k);
+  if (!key) {
+    return { status: "unknown-key", payload };
+  }
+
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      "jwk",
+      key.publicKey,
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["verify"],
+    );
+    const valid = await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      publicKey,
+      base64UrlToBytes(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+    );
+    return { status: valid ? "verified" : "invalid", payload };
+  } catch {
+    return { status: "invalid", payload };
+  }
+}
+
+// Decodes the first QR code found in a drawable source (video frame or image)
+export function decodeQrFromSource(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  canvas: HTMLCanvasElement,
+  tryInverted = false,
+): string | null {
+  // Large frames are scaled down; decoding stays fast and QR finder
+  // patterns are still resolvable at this size
+  const scale = Math.min(1, 800 / Math.max(sourceWidth, sourceHeight));
+  const width = Math.round(sourceWidth * scale);
+  const height = Math.round(sourceHeight * scale);
+
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context || width === 0 || height === 0) {
+    return null;
+  }
+
+  context.drawImage(source, 0, 0, width, height);
+  const imageData = context.getImageData(0, 0, width, height);
+  const result = jsQR(imageData.data, width, height, {
+    inversionAttempts: tryInverted ? "attemptBoth" : "dontInvert",
+  });
+  return result?.data ?? null;
+}
@@ -1,4 +1,6 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { SyncMutation, User } from "@shared/schema";
+import { getOfflineResponse, putCachedResponse, queueRequest } from "./offlineStore";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,38 +9,105 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// fetch() only rejects when the request never reached the server
+function isNetworkError(error: unknown) {
+  return error instanceof TypeError;
+}
+
+interface OfflineWrite {
+  description: string;
+  mutation: SyncMutation;
+}
+
+export interface ApiRequestOptions {
+  // When set, a write that can't reach the server is saved to the outbox as
+  // this sync mutation and sent to /api/sync once the device is back online.
+  // A function is only called if the write is queued.
+  queueOffline?: OfflineWrite | (() => Promise<OfflineWrite>);
+}
+
+// Body of the 202 response returned for a write saved to the outbox
+export interface QueuedResult {
+  queued: true;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  options: ApiRequestOptions = {},
 ): Promise<Response> {
-  const res = await fetch(url, {
-    method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
-  });
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method,
+      headers: data ? { "Content-Type": "application/json" } : {},
+      body: data ? JSON.stringify(data) : undefined,
+      credentials: "include",
+    });
+  } catch (error) {
+    // Queued writes belong to whoever is signed in, so they are replayed
+    // under their session and not the next user's on a shared device
+    const user = queryClient.getQueryData<User>(["/api/auth/user"]);
+    if (!options.queueOffline || !isNetworkError(error) || !user) {
+      throw error;
+    }
+    const write = typeof options.queueOffline === "function"
+      ? await options.queueOffline()
+      : options.queueOffline;
+    await queueRequest({ ...write, userId: user.id });
+    const queued: QueuedResult = { queued: true };
+    return new Response(JSON.stringify(queued), {
+      status: 202,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
 
   await throwIfResNotOk(res);
   return res;
 }
 
+export function isQueuedResult(result: unknown): result is QueuedResult {
+  return (result as QueuedResult | null)?.queued === true;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
+
+// GETs a JSON endpoint, remembering the response so the same URL can be
+// served from IndexedDB when the server is unreachable
+async function fetchJsonWithOfflineCache(url: string, unauthorizedBehavior: UnauthorizedBehavior) {
+  let res: Response;
+  try {
+    res = await fetch(url, { credentials: "include" });
+  } catch (error) {
+    const cached = isNetworkError(error) ? await getOfflineResponse(url) : undefined;
+    if (cached === undefined) {
+      throw error;
+    }
+    return cached;
+  }
+
+  if (unauthorizedBehavior === "returnNull" && res.status === 401) {
+    return null;
+  }
+
+  await throwIfResNotOk(res);
+  const data = await res.json();
+  putCachedResponse(url, data).catch((error) => console.error("Offline cache write failed:", error));
+  return data;
+}
+
+// For query functions that build their own URL from the query key
+export async function getJson<T>(url: string): Promise<T> {
+  return fetchJsonWithOfflineCache(url, "throw");
+}
+
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
-      credentials: "include",
-    });
-
-    if (unauthorizedBehavior === "returnNull" && res.status === 401) {
-      return null;
-    }
-
-    await throwIfResNotOk(res);
-    return await res.json();
+    return fetchJsonWithOfflineCache(queryKey[0] as string, unauthorizedBehavior);
   };
 
 export const queryClient = new QueryClient({
@@ -49,9 +118,12 @@ export const queryClient = new QueryClient({
       refetchOnWindowFocus: false,
       staleTime: Infinity,
       retry: false,
+      // Queries still run without a connection; they fall back to the cache
+      networkMode: "always",
     },
     mutations: {
       retry: false,
+      networkMode: "always",
     },
   },
 });
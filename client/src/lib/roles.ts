@@ -0,0 +1,27 @@
+import type { Permission, UserRole } from "@shared/schema";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Administrator",
+  medical_officer: "Medical Officer",
+  supervisor: "Supervisor",
+  anm: "ANM",
+  asha: "ASHA",
+  health_worker: "Health Worker",
+  data_entry_operator: "Data Entry Operator",
+  auditor: "Auditor (read-only)",
+};
+
+export function roleLabel(role: string): string {
+  return ROLE_LABELS[role as UserRole] ?? role;
+}
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  register_patient: "Register patients",
+  edit_patient: "Edit patients",
+  administer_vaccine: "Record vaccinations",
+  manage_appointments: "Manage appointments",
+  manage_inventory: "Manage stock & cold chain",
+  view_reports: "View reports",
+  export_data: "Export data",
+  manage_users: "Manage users",
+};
@@ -7,10 +7,19 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { User } from "@shared/schema";
+import { Location, User, facilityLevels, userRoles } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { ScheduleTemplateManager } from "@/components/schedule-template-manager";
+import { VaccineCatalogManager } from "@/components/vaccine-catalog-manager";
+import { StatusJobCard } from "@/components/status-job-card";
+import { SigningKeyCard } from "@/components/signing-key-card";
+import { PatientMergeCard } from "@/components/patient-merge-card";
+import { LocationManager } from "@/components/location-manager";
+import { LocationSelect } from "@/components/location-select";
+import { RolePermissionsCard } from "@/components/role-permissions-card";
+import { ROLE_LABELS, roleLabel } from "@/lib/roles";
 import {
   Users,
   UserPlus,
@@ -23,14 +32,17 @@ import {
 } from "lucide-react";
 
 export default function Admin() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [facilityId, setFacilityId] = useState<number | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Redirect if not admin
-  if (user?.role !== 'admin') {
+  const isAdmin = user?.role === 'admin';
+
+  // Redirect if not allowed to manage users
+  if (!isAdmin && !can("manage_users")) {
     return (
       <div className="text-center py-12">
         <AlertTriangle className="mx-auto h-12 w-12 text-red-500 mb-4" />
@@ -43,6 +55,10 @@ export default function Admin() {
     queryKey: ["/api/users"],
   });
 
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
   const createUserMutation = useMutation({
     mutationFn: async (userData: any) => {
       const response = await apiRequest("POST", "/api/users", userData);
@@ -97,6 +113,7 @@ export default function Admin() {
       email: formData.get('email') as string,
       phone: formData.get('phone') as string,
       role: formData.get('role') as string,
+      facilityId,
     };
     createUserMutation.mutate(userData);
   };
@@ -112,11 +129,15 @@ export default function Admin() {
       email: formData.get('email') as string,
       phone: formData.get('phone') as string,
       role: formData.get('role') as string,
+      facilityId,
       isActive: formData.get('isActive') === 'true',
     };
     updateUserMutation.mutate(userData);
   };
 
+  // Only admins may hand out the admin role
+  const assignableRoles = userRoles.filter(role => isAdmin || role !== 'admin');
+
   const getRoleColor = (role: string) => {
     return role === 'admin' ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800';
   };
@@ -150,12 +171,12 @@ export default function Admin() {
         <div>
           <h1 className="text-2xl font-medium text-gray-900">User Management</h1>
           <p className="text-gray-600">
-            Manage health workers and administrators
+            Manage user accounts, roles and permissions
           </p>
         </div>
         <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
           <DialogTrigger asChild>
-            <Button className="bg-medical-blue hover:bg-blue-700">
+            <Button className="bg-medical-blue hover:bg-blue-700" onClick={() => setFacilityId(null)}>
               <UserPlus className="mr-2 h-4 w-4" />
               Add User
             </Button>
@@ -192,11 +213,25 @@ export default function Admin() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="health_worker">Health Worker</SelectItem>
-                    <SelectItem value="admin">Administrator</SelectItem>
+                    {assignableRoles.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="facility">Facility</Label>
+                <LocationSelect
+                  id="facility"
+                  value={facilityId}
+                  onChange={setFacilityId}
+                  levels={facilityLevels}
+                  allLabel="Not assigned"
+                />
+                <p className="text-xs text-gray-500">
+                  Health workers see patients in the facility's villages; supervisors see its whole block.
+                </p>
+              </div>
               <Button 
                 type="submit" 
                 className="w-full" 
@@ -268,6 +303,7 @@ export default function Admin() {
                     <th className="text-left p-3 font-medium text-gray-900">User</th>
                     <th className="text-left p-3 font-medium text-gray-900">Contact</th>
                     <th className="text-left p-3 font-medium text-gray-900">Role</th>
+                    <th className="text-left p-3 font-medium text-gray-900">Facility</th>
                     <th className="text-left p-3 font-medium text-gray-900">Status</th>
                     <th className="text-left p-3 font-medium text-gray-900">Actions</th>
                   </tr>
@@ -302,11 +338,14 @@ export default function Admin() {
                           ) : (
                             <>
                               <Users className="mr-1 h-3 w-3" />
-                              Health Worker
+                              {roleLabel(user.role)}
                             </>
                           )}
                         </Badge>
                       </td>
+                      <td className="p-3 text-gray-600">
+                        {locations?.find(l => l.id === user.facilityId)?.name ?? "—"}
+                      </td>
                       <td className="p-3">
                         <Badge className={`text-xs ${getStatusColor(user.isActive)}`}>
                           {user.isActive ? 'Active' : 'Inactive'}
@@ -318,7 +357,11 @@ export default function Admin() {
                             variant="ghost"
                             size="sm"
                             className="p-1 text-medical-blue hover:bg-blue-50"
-                            onClick={() => setEditingUser(user)}
+                            disabled={!isAdmin && user.role === 'admin'}
+                            onClick={() => {
+                              setEditingUser(user);
+                              setFacilityId(user.facilityId);
+                            }}
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
@@ -347,6 +390,31 @@ export default function Admin() {
         </CardContent>
       </Card>
 
+      {isAdmin && (
+        <>
+          {/* Role permissions */}
+          <RolePermissionsCard />
+
+          {/* Administrative hierarchy */}
+          <LocationManager />
+
+          {/* Vaccine Catalog */}
+          <VaccineCatalogManager />
+
+          {/* Schedule Templates */}
+          <ScheduleTemplateManager />
+
+          {/* Nightly status job */}
+          <StatusJobCard />
+
+          {/* Health card signing keys */}
+          <SigningKeyCard />
+
+          {/* Duplicate patient merge */}
+          <PatientMergeCard />
+        </>
+      )}
+
       {/* Edit User Dialog */}
       <Dialog open={!!editingUser} onOpenChange={() => setEditingUser(null)}>
         <DialogContent>
@@ -388,8 +456,9 @@ export default function Admin() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="health_worker">Health Worker</SelectItem>
-                    <SelectItem value="admin">Administrator</SelectItem>
+                    {assignableRoles.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -405,6 +474,16 @@ export default function Admin() {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-facility">Facility</Label>
+                <LocationSelect
+                  id="edit-facility"
+                  value={facilityId}
+                  onChange={setFacilityId}
+                  levels={facilityLevels}
+                  allLabel="Not assigned"
+                />
+              </div>
               <Button
                 type="submit"
                 className="w-full"
@@ -0,0 +1,426 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { StorageUnit, TemperatureReading, VaccineLot } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  Thermometer,
+  Plus,
+  Upload,
+  AlertTriangle,
+  ShieldAlert,
+} from "lucide-react";
+
+interface ReadingResult {
+  recorded: number;
+  excursions: number;
+  lotsAtRisk: VaccineLot[];
+  rejectedLines: number[];
+}
+
+// A datetime-local value ("2024-05-01T18:30") as ISO with this device's offset,
+// e.g. "2024-05-01T18:30:00+05:30", so the server files it under the right session
+const toLocalIsoString = (value: string) => {
+  const offset = -new Date(value).getTimezoneOffset();
+  const pad = (n: number) => String(Math.floor(Math.abs(n))).padStart(2, "0");
+  return `${value.slice(0, 16)}:00${offset >= 0 ? "+" : "-"}${pad(offset / 60)}:${pad(offset % 60)}`;
+};
+
+interface Excursion {
+  id: number;
+  readingAt: string;
+  temperature: number;
+  storageUnit: Pick<StorageUnit, "id" | "name" | "facility">;
+}
+
+export default function ColdChain() {
+  const { user, can } = useAuth();
+  const [selectedUnitId, setSelectedUnitId] = useState<string>("");
+  const [isUnitDialogOpen, setIsUnitDialogOpen] = useState(false);
+  const [lotsAtRisk, setLotsAtRisk] = useState<VaccineLot[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: units, isLoading } = useQuery<StorageUnit[]>({
+    queryKey: ["/api/cold-chain/units"],
+  });
+
+  const { data: excursions } = useQuery<Excursion[]>({
+    queryKey: ["/api/cold-chain/excursions"],
+  });
+
+  useEffect(() => {
+    if (!selectedUnitId && units?.length) {
+      setSelectedUnitId(units[0].id.toString());
+    }
+  }, [units, selectedUnitId]);
+
+  const selectedUnit = units?.find(unit => unit.id.toString() === selectedUnitId);
+
+  const { data: readings } = useQuery<TemperatureReading[]>({
+    queryKey: ["/api/cold-chain/units", selectedUnitId, "readings"],
+    enabled: !!selectedUnitId,
+    queryFn: () => fetch(`/api/cold-chain/units/${selectedUnitId}/readings`, { credentials: "include" }).then(res => res.json()),
+  });
+
+  const createUnitMutation = useMutation({
+    mutationFn: async (unitData: any) => {
+      const response = await apiRequest("POST", "/api/cold-chain/units", unitData);
+      return response.json();
+    },
+    onSuccess: (unit: StorageUnit) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cold-chain/units"] });
+      setIsUnitDialogOpen(false);
+      setSelectedUnitId(unit.id.toString());
+      toast({
+        title: "Success",
+        description: "Storage unit added",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add storage unit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const recordReadingsMutation = useMutation({
+    mutationFn: async (payload: any) => {
+      const response = await apiRequest("POST", `/api/cold-chain/units/${selectedUnitId}/readings`, payload);
+      return response.json();
+    },
+    onSuccess: (result: ReadingResult) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cold-chain/units", selectedUnitId, "readings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cold-chain/excursions"] });
+      setLotsAtRisk(result.lotsAtRisk);
+      toast({
+        title: result.excursions > 0 ? "Temperature Excursion" : "Success",
+        description: (result.excursions > 0
+          ? `${result.excursions} of ${result.recorded} readings outside the safe range`
+          : `${result.recorded} reading(s) recorded`) +
+          (result.rejectedLines.length > 0 ? `; skipped line(s) ${result.rejectedLines.join(", ")}` : ""),
+        variant: result.excursions > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record readings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const quarantineMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/cold-chain/units/${selectedUnitId}/quarantine`, {
+        reason: "Temperature excursion",
+      });
+      return response.json();
+    },
+    onSuccess: (lots: VaccineLot[]) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/lots"] });
+      setLotsAtRisk([]);
+      toast({
+        title: "Lots Quarantined",
+        description: `${lots.length} lot(s) quarantined pending review`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to quarantine lots",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreateUnit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    createUnitMutation.mutate({
+      name: formData.get('name') as string,
+      facility: formData.get('facility') as string,
+      type: formData.get('type') as string,
+      minTemp: parseFloat(formData.get('minTemp') as string),
+      maxTemp: parseFloat(formData.get('maxTemp') as string),
+    });
+  };
+
+  const handleRecordReading = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    recordReadingsMutation.mutate({
+      readingAt: toLocalIsoString(formData.get('readingAt') as string),
+      temperature: parseFloat(formData.get('temperature') as string),
+    }, {
+      onSuccess: () => form.reset(),
+    });
+  };
+
+  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const csv = await file.text();
+    recordReadingsMutation.mutate({ csv });
+    e.target.value = "";
+  };
+
+  const formatDateTime = (value: string | Date) => new Date(value).toLocaleString();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+        <div className="h-96 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-4 md:space-y-0">
+        <div>
+          <h1 className="text-2xl font-medium text-gray-900">Cold Chain Monitoring</h1>
+          <p className="text-gray-600">
+            Record storage temperatures and act on excursions outside the safe range
+          </p>
+        </div>
+        {user?.role === 'admin' && (
+          <Dialog open={isUnitDialogOpen} onOpenChange={setIsUnitDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-medical-blue hover:bg-blue-700">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Storage Unit
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>New Storage Unit</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleCreateUnit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="unit-name">Name</Label>
+                  <Input id="unit-name" name="name" placeholder="e.g. ILR 1" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="unit-facility">Facility</Label>
+                  <Input id="unit-facility" name="facility" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="unit-type">Type</Label>
+                  <Select name="type" defaultValue="ilr">
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ilr">Ice-Lined Refrigerator</SelectItem>
+                      <SelectItem value="deep_freezer">Deep Freezer</SelectItem>
+                      <SelectItem value="refrigerator">Refrigerator</SelectItem>
+                      <SelectItem value="cold_box">Cold Box</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="unit-minTemp">Min °C</Label>
+                    <Input id="unit-minTemp" name="minTemp" type="number" step="0.1" defaultValue="2" required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="unit-maxTemp">Max °C</Label>
+                    <Input id="unit-maxTemp" name="maxTemp" type="number" step="0.1" defaultValue="8" required />
+                  </div>
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={createUnitMutation.isPending}
+                >
+                  {createUnitMutation.isPending ? "Saving..." : "Add Unit"}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {/* Recent Excursions */}
+      {excursions && excursions.length > 0 && (
+        <Card className="border-error-red">
+          <CardContent className="p-4">
+            <h4 className="font-medium text-error-red mb-2 flex items-center">
+              <AlertTriangle className="mr-2 h-4 w-4" />
+              Excursions in the last 7 days
+            </h4>
+            <ul className="text-sm text-gray-700 space-y-1">
+              {excursions.slice(0, 5).map((excursion) => (
+                <li key={excursion.id}>
+                  • {excursion.storageUnit?.name} ({excursion.storageUnit?.facility}): {excursion.temperature} °C at {formatDateTime(excursion.readingAt)}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {units?.length ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Entry */}
+          <div className="lg:col-span-1 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Thermometer className="h-5 w-5" />
+                  <span>Record Temperature</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Select value={selectedUnitId} onValueChange={setSelectedUnitId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select storage unit" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {units.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id.toString()}>
+                        {unit.name} - {unit.facility}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedUnit && (
+                  <p className="text-xs text-gray-500">
+                    Safe range {selectedUnit.minTemp}–{selectedUnit.maxTemp} °C
+                  </p>
+                )}
+                <form onSubmit={handleRecordReading} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="readingAt">Reading Time</Label>
+                    <Input id="readingAt" name="readingAt" type="datetime-local" required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="temperature">Temperature (°C)</Label>
+                    <Input id="temperature" name="temperature" type="number" step="0.1" required />
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full bg-medical-blue hover:bg-blue-700"
+                    disabled={recordReadingsMutation.isPending || !selectedUnitId || !can("manage_inventory")}
+                  >
+                    {recordReadingsMutation.isPending ? "Saving..." : "Save Reading"}
+                  </Button>
+                </form>
+                <div className="border-t pt-4">
+                  <p className="text-sm text-gray-600 mb-2">Or upload a data logger CSV (ISO timestamp with timezone offset, temperature):</p>
+                  <Label htmlFor="csv-upload" className="cursor-pointer">
+                    <div className="flex items-center justify-center p-3 border border-dashed rounded-lg text-sm text-gray-600 hover:bg-gray-50">
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload CSV
+                    </div>
+                  </Label>
+                  <input
+                    id="csv-upload"
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={handleCsvUpload}
+                    disabled={!selectedUnitId || !can("manage_inventory")}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {lotsAtRisk.length > 0 && (
+              <Card className="border-error-red">
+                <CardContent className="p-4 space-y-3">
+                  <h4 className="font-medium text-error-red flex items-center">
+                    <ShieldAlert className="mr-2 h-4 w-4" />
+                    Stock at risk in this unit
+                  </h4>
+                  <ul className="text-sm text-gray-700 space-y-1">
+                    {lotsAtRisk.map((lot) => (
+                      <li key={lot.id}>• Lot {lot.batchNumber} ({lot.quantity} doses)</li>
+                    ))}
+                  </ul>
+                  <Button
+                    className="w-full bg-error-red hover:bg-red-700"
+                    onClick={() => quarantineMutation.mutate()}
+                    disabled={quarantineMutation.isPending || !can("manage_inventory")}
+                  >
+                    Quarantine Affected Lots
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Readings Log */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Temperature Log{selectedUnit ? ` — ${selectedUnit.name}` : ''}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {readings?.length ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="text-left p-3 font-medium text-gray-900">Time</th>
+                          <th className="text-left p-3 font-medium text-gray-900">Session</th>
+                          <th className="text-left p-3 font-medium text-gray-900">Temperature</th>
+                          <th className="text-left p-3 font-medium text-gray-900">Source</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {readings.map((reading) => (
+                          <tr key={reading.id} className={reading.isExcursion ? "bg-red-50" : "hover:bg-gray-50"}>
+                            <td className="p-3 text-gray-600">{formatDateTime(reading.readingAt)}</td>
+                            <td className="p-3 text-gray-600 capitalize">{reading.session}</td>
+                            <td className="p-3">
+                              <div className="flex items-center space-x-2">
+                                <span className={reading.isExcursion ? "font-medium text-error-red" : ""}>
+                                  {reading.temperature} °C
+                                </span>
+                                {reading.isExcursion && (
+                                  <Badge className="text-xs bg-error-red text-white">Excursion</Badge>
+                                )}
+                              </div>
+                            </td>
+                            <td className="p-3 text-gray-600 capitalize">{reading.source}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="text-center py-12 text-gray-500">
+                    <Thermometer className="mx-auto h-12 w-12 mb-4 opacity-50" />
+                    <p>No readings recorded for this unit</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-12 text-gray-500">
+          <Thermometer className="mx-auto h-12 w-12 mb-4 opacity-50" />
+          <p>No storage units registered</p>
+          <p className="text-sm mt-2">An administrator needs to add the facility's refrigerators first</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,11 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/useAuth";
+import { getJson } from "@/lib/queryClient";
+import { withLocation } from "@/lib/locations";
+import { isMistypedPatientId } from "@shared/patient-ids";
+import { LocationSelect } from "@/components/location-select";
+import { PatientTransfersCard } from "@/components/patient-transfers-card";
 import { Link } from "wouter";
 import {
   Users,
@@ -15,6 +20,7 @@ import {
   Search,
   Calendar,
   Clock,
+  Package,
 } from "lucide-react";
 import { useState } from "react";
 
@@ -32,6 +38,17 @@ interface Patient {
   patientId: string;
 }
 
+interface ExpiringLot {
+  id: number;
+  batchNumber: string;
+  expiryDate: string;
+  facility: string;
+  quantity: number;
+  vaccine: {
+    name: string;
+  };
+}
+
 interface Appointment {
   id: number;
   appointmentTime: string;
@@ -43,25 +60,37 @@ interface Appointment {
 }
 
 export default function Dashboard() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
+  // Until another location is picked, the dashboard covers the user's own facility
+  const [selectedLocationId, setSelectedLocationId] = useState<number | null | undefined>(undefined);
+  const locationId = selectedLocationId === undefined ? user?.facilityId ?? null : selectedLocationId;
 
   const { data: stats } = useQuery<DashboardStats>({
-    queryKey: ["/api/dashboard/stats"],
+    queryKey: ["/api/dashboard/stats", { locationId }],
+    queryFn: () => getJson<DashboardStats>(withLocation("/api/dashboard/stats", locationId)),
   });
 
   const { data: patients } = useQuery<Patient[]>({
-    queryKey: ["/api/patients", "recent"],
+    queryKey: ["/api/patients", "recent", { locationId }],
+    queryFn: () => getJson<Patient[]>(withLocation("/api/patients", locationId)),
     select: (data: Patient[]) => data.slice(0, 5),
   });
 
   const { data: todayAppointments } = useQuery<Appointment[]>({
-    queryKey: ["/api/appointments/today"],
+    queryKey: ["/api/appointments/today", { locationId }],
+    queryFn: () => getJson<Appointment[]>(withLocation("/api/appointments/today", locationId)),
+  });
+
+  const { data: expiringLots } = useQuery<ExpiringLot[]>({
+    queryKey: ["/api/inventory/expiring", { locationId }],
+    queryFn: () => getJson<ExpiringLot[]>(withLocation("/api/inventory/expiring", locationId)),
   });
 
+  const mistypedId = isMistypedPatientId(searchQuery);
   const { data: searchResults } = useQuery<Patient[]>({
     queryKey: ["/api/patients/search", searchQuery],
-    enabled: searchQuery.length > 2,
+    enabled: searchQuery.length > 2 && !mistypedId,
     queryFn: () => fetch(`/api/patients/search?q=${encodeURIComponent(searchQuery)}`).then(res => res.json()),
   });
 
@@ -89,12 +118,20 @@ export default function Dashboard() {
           </p>
         </div>
         <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
-          <Link href="/patients/new">
-            <Button className="bg-medical-blue hover:bg-blue-700 w-full sm:w-auto">
-              <Plus className="mr-2 h-4 w-4" />
-              Add Patient
-            </Button>
-          </Link>
+          <LocationSelect
+            value={locationId}
+            onChange={setSelectedLocationId}
+            allLabel="All locations"
+            className="sm:w-56"
+          />
+          {can("register_patient") && (
+            <Link href="/patients/new">
+              <Button className="bg-medical-blue hover:bg-blue-700 w-full sm:w-auto">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Patient
+              </Button>
+            </Link>
+          )}
           <Link href="/qr-scanner">
             <Button className="bg-health-green hover:bg-green-700 w-full sm:w-auto">
               <QrCode className="mr-2 h-4 w-4" />
@@ -192,6 +229,11 @@ export default function Dashboard() {
                 />
                 <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
               </div>
+              {mistypedId && (
+                <p className="text-sm text-error-red">
+                  This patient ID's check digit doesn't match. Check it was typed correctly.
+                </p>
+              )}
 
               <div className="space-y-3">
                 {searchQuery.length > 2 && searchResults?.length ? (
@@ -291,6 +333,43 @@ export default function Dashboard() {
               </Link>
             </CardContent>
           </Card>
+
+          <PatientTransfersCard />
+
+          {expiringLots && expiringLots.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  Stock Expiry Alerts
+                  <Package className="h-5 w-5 text-gray-400" />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {expiringLots.map((lot) => {
+                  const isExpired = lot.expiryDate < new Date().toISOString().split('T')[0];
+                  return (
+                    <div key={lot.id} className="p-3 border border-gray-200 rounded-lg">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-sm font-medium text-gray-900">{lot.vaccine?.name}</span>
+                        <Badge className={`text-xs ${isExpired ? "bg-error-red text-white" : "bg-warning-orange text-white"}`}>
+                          {isExpired ? "Expired" : "Expiring"}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-gray-600">
+                        Lot {lot.batchNumber} · {lot.facility} · {lot.quantity} doses · exp. {new Date(lot.expiryDate).toLocaleDateString()}
+                      </p>
+                    </div>
+                  );
+                })}
+
+                <Link href="/inventory">
+                  <Button variant="ghost" className="w-full text-medical-blue hover:text-blue-700">
+                    Manage Inventory →
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { useParams, Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Household, HouseholdRelationship, Patient, householdRelationships } from "@shared/schema";
+import { apiRequest, getJson } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { ArrowLeft, House, MapPin, Edit, Eye, UserPlus, UserMinus, Search, Syringe } from "lucide-react";
+
+interface DueVaccination {
+  id: number;
+  doseNumber: number;
+  scheduledDate: string;
+  status: string;
+  patient: { id: number; name: string; patientId: string; relationship: string | null };
+  vaccine: { id: number; name: string };
+}
+
+type HouseholdDetails = Household & { members: Patient[]; dueVaccinations: DueVaccination[] };
+
+export default function HouseholdDetail() {
+  const { id } = useParams();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isAddMemberOpen, setIsAddMemberOpen] = useState(false);
+  const [address, setAddress] = useState("");
+  const [village, setVillage] = useState("");
+  const [memberSearch, setMemberSearch] = useState("");
+  const [relationship, setRelationship] = useState<HouseholdRelationship>("child");
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: household, isLoading } = useQuery<HouseholdDetails>({
+    queryKey: ["/api/households", id],
+    enabled: !!id,
+    queryFn: () => getJson<HouseholdDetails>(`/api/households/${id}`),
+  });
+
+  const { data: searchResults } = useQuery<Patient[]>({
+    queryKey: ["/api/patients/search", memberSearch],
+    enabled: memberSearch.length > 2,
+    queryFn: () => getJson<Patient[]>(`/api/patients/search?q=${encodeURIComponent(memberSearch)}`),
+  });
+
+  const invalidateHousehold = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/households"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+  };
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const updateHouseholdMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/households/${id}`, {
+        address: address.trim() || null,
+        village: village.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsEditOpen(false);
+      invalidateHousehold();
+      toast({ title: "Success", description: "Household updated successfully" });
+    },
+    onError: showError("Failed to update household"),
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (patient: Patient) => {
+      const response = await apiRequest("POST", `/api/households/${id}/members`, {
+        patientId: patient.id,
+        relationship,
+      });
+      return response.json();
+    },
+    onSuccess: (member: Patient) => {
+      setIsAddMemberOpen(false);
+      setMemberSearch("");
+      invalidateHousehold();
+      toast({ title: "Success", description: `${member.name} added to the household` });
+    },
+    onError: showError("Failed to add household member"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (patient: Patient) => {
+      const response = await apiRequest("DELETE", `/api/households/${id}/members/${patient.id}`);
+      return response.json();
+    },
+    onSuccess: (member: Patient) => {
+      invalidateHousehold();
+      toast({ title: "Success", description: `${member.name} removed from the household` });
+    },
+    onError: showError("Failed to remove household member"),
+  });
+
+  const openEdit = () => {
+    setAddress(household?.address ?? "");
+    setVillage(household?.village ?? "");
+    setIsEditOpen(true);
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "scheduled":
+        return "bg-medical-blue text-white";
+      case "overdue":
+        return "bg-error-red text-white";
+      default:
+        return "bg-gray-500 text-white";
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "N/A";
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+        <div className="h-48 bg-gray-200 rounded"></div>
+        <div className="h-64 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  if (!household) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-medium text-gray-900">Household not found</h2>
+        <Link href="/households">
+          <Button className="mt-4">Back to Households</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const head = household.members.find(member => member.id === household.headPatientId);
+  const candidates = searchResults?.filter(patient => patient.householdId !== household.id) ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Link href="/households">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+        </Link>
+        <div className="flex-1">
+          <h1 className="text-2xl font-medium text-gray-900">
+            {head ? `${head.name}'s Household` : "Household"}
+          </h1>
+          <p className="text-gray-600 flex items-center space-x-1">
+            <MapPin className="h-4 w-4" />
+            <span>{[household.address, household.village].filter(Boolean).join(", ") || "No address recorded"}</span>
+          </p>
+        </div>
+        {can("edit_patient") && (
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={openEdit}>
+              <Edit className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+            <Button className="bg-medical-blue hover:bg-blue-700" onClick={() => setIsAddMemberOpen(true)}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Add Member
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Members */}
+        <div className="lg:col-span-1">
+          <Card>
+            <CardHeader>
+              <CardTitle>Members ({household.members.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {household.members.map((member) => (
+                <div key={member.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-10 h-10 bg-medical-blue rounded-full flex items-center justify-center text-white text-sm font-medium">
+                      {member.name.split(' ').map(n => n[0]).join('').toUpperCase()}
+                    </div>
+                    <div>
+                      <Link href={`/patients/${member.id}`}>
+                        <span className="font-medium cursor-pointer hover:text-medical-blue">{member.name}</span>
+                      </Link>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-xs text-gray-500">{member.patientId}</span>
+                        {member.relationship && (
+                          <Badge variant="outline" className="text-xs capitalize">{member.relationship}</Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  {can("edit_patient") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-1 text-error-red hover:bg-red-50"
+                      onClick={() => removeMemberMutation.mutate(member)}
+                      disabled={removeMemberMutation.isPending}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Due Vaccinations */}
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Due Vaccinations</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {household.dueVaccinations.length ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="text-left p-3 font-medium text-gray-900">Member</th>
+                        <th className="text-left p-3 font-medium text-gray-900">Vaccine</th>
+                        <th className="text-left p-3 font-medium text-gray-900">Due Date</th>
+                        <th className="text-left p-3 font-medium text-gray-900">Status</th>
+                        <th className="text-left p-3 font-medium text-gray-900">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {household.dueVaccinations.map((vaccination) => (
+                        <tr key={vaccination.id} className="hover:bg-gray-50">
+                          <td className="p-3">
+                            <div className="font-medium">{vaccination.patient.name}</div>
+                            <div className="text-gray-500 text-xs capitalize">
+                              {vaccination.patient.relationship || vaccination.patient.patientId}
+                            </div>
+                          </td>
+                          <td className="p-3 text-gray-600">
+                            {vaccination.vaccine.name} - Dose {vaccination.doseNumber}
+                          </td>
+                          <td className="p-3 text-gray-600">{formatDate(vaccination.scheduledDate)}</td>
+                          <td className="p-3">
+                            <Badge className={`text-xs capitalize ${getStatusColor(vaccination.status)}`}>
+                              {vaccination.status}
+                            </Badge>
+                          </td>
+                          <td className="p-3">
+                            <Link href={`/patients/${vaccination.patient.id}`}>
+                              <Button variant="ghost" size="sm" className="p-1 text-medical-blue hover:bg-blue-50">
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </Link>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-center py-8 text-gray-500">
+                  <Syringe className="mx-auto h-12 w-12 mb-4 opacity-50" />
+                  <p>No doses due for anyone in this household</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Edit Household */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Household</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateHouseholdMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="address">Address</Label>
+              <Input id="address" value={address} onChange={(e) => setAddress(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="village">Village</Label>
+              <Input id="village" value={village} onChange={(e) => setVillage(e.target.value)} />
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-medical-blue hover:bg-blue-700"
+              disabled={updateHouseholdMutation.isPending}
+            >
+              {updateHouseholdMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Member */}
+      <Dialog open={isAddMemberOpen} onOpenChange={setIsAddMemberOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Household Member</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="relationship">Relationship to Head</Label>
+              <Select value={relationship} onValueChange={(value) => setRelationship(value as HouseholdRelationship)}>
+                <SelectTrigger id="relationship">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {householdRelationships.map((value) => (
+                    <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="relative">
+              <Input
+                type="text"
+                placeholder="Search by name, phone, or patient ID..."
+                value={memberSearch}
+                onChange={(e) => setMemberSearch(e.target.value)}
+                className="pl-10"
+              />
+              <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+            </div>
+            {memberSearch.length > 2 && (
+              <div className="max-h-64 overflow-y-auto space-y-2">
+                {candidates.length ? (
+                  candidates.map((patient) => (
+                    <div key={patient.id} className="flex items-center justify-between border rounded-lg p-3">
+                      <div>
+                        <div className="font-medium">{patient.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {patient.patientId}
+                          {patient.householdId ? " · in another household" : ""}
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => addMemberMutation.mutate(patient)}
+                        disabled={addMemberMutation.isPending || !!patient.householdId}
+                      >
+                        <House className="mr-1 h-3 w-3" />
+                        Add
+                      </Button>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-gray-500 text-center py-4">No patients found</p>
+                )}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
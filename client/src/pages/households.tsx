@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Household } from "@shared/schema";
+import { getJson } from "@/lib/queryClient";
+import { LocationSelect } from "@/components/location-select";
+import { Search, House, MapPin, Eye, Users } from "lucide-react";
+
+type HouseholdSummary = Household & { headName: string | null; memberCount: number };
+
+export default function Households() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [village, setVillage] = useState("");
+  const [locationId, setLocationId] = useState<number | null>(null);
+
+  const params = new URLSearchParams();
+  if (searchQuery.length > 2) params.set("q", searchQuery);
+  if (village.trim()) params.set("village", village.trim());
+  if (locationId) params.set("locationId", String(locationId));
+  const url = `/api/households${params.toString() ? `?${params}` : ""}`;
+
+  const { data: households, isLoading } = useQuery<HouseholdSummary[]>({
+    queryKey: ["/api/households", searchQuery.length > 2 ? searchQuery : "", village.trim(), locationId],
+    queryFn: () => getJson<HouseholdSummary[]>(url),
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-medium text-gray-900">Households</h1>
+        <p className="text-gray-600">
+          Families registered together, with every member's upcoming doses in one place
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="relative">
+              <Input
+                type="text"
+                placeholder="Search by head of household or address..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+              <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+            </div>
+            <div className="relative">
+              <Input
+                type="text"
+                placeholder="Village"
+                value={village}
+                onChange={(e) => setVillage(e.target.value)}
+                className="pl-10"
+              />
+              <MapPin className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+            </div>
+            <LocationSelect value={locationId} onChange={setLocationId} allLabel="All locations" />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Households Grid */}
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 animate-pulse">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-36 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {households?.length ? (
+            households.map((household) => (
+              <Card key={household.id} className="hover:shadow-lg transition-shadow">
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-12 h-12 bg-medical-blue rounded-full flex items-center justify-center text-white">
+                        <House className="h-6 w-6" />
+                      </div>
+                      <div>
+                        <CardTitle className="text-lg">{household.headName || "No head recorded"}</CardTitle>
+                        {household.village && (
+                          <p className="text-sm text-gray-600">{household.village}</p>
+                        )}
+                      </div>
+                    </div>
+                    <Badge variant="outline">
+                      {household.memberCount} {household.memberCount === 1 ? "member" : "members"}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {household.address && (
+                    <div className="flex items-center space-x-2 text-sm text-gray-600">
+                      <MapPin className="h-4 w-4" />
+                      <span>{household.address}</span>
+                    </div>
+                  )}
+                  <Link href={`/households/${household.id}`}>
+                    <Button variant="outline" size="sm" className="w-full">
+                      <Eye className="mr-1 h-3 w-3" />
+                      View
+                    </Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            ))
+          ) : (
+            <div className="col-span-full text-center py-12">
+              <div className="text-gray-500">
+                <Users className="mx-auto h-12 w-12 mb-4 opacity-50" />
+                <p>No households found</p>
+                <p className="text-sm mt-2">Create a household from a patient's record</p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,479 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { StorageUnit, Vaccine, VaccineLot } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  Package,
+  PackagePlus,
+  ArrowDownToLine,
+  ArrowUpFromLine,
+  Trash2,
+  AlertTriangle,
+  ShieldCheck,
+} from "lucide-react";
+
+interface LotWithVaccine extends VaccineLot {
+  vaccine: Pick<Vaccine, "id" | "name">;
+}
+
+type MovementType = "receipt" | "issue" | "wastage";
+
+export default function Inventory() {
+  const [facilityFilter, setFacilityFilter] = useState("all");
+  const [isReceiveDialogOpen, setIsReceiveDialogOpen] = useState(false);
+  const [movement, setMovement] = useState<{ lot: LotWithVaccine; type: MovementType } | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: lots, isLoading } = useQuery<LotWithVaccine[]>({
+    queryKey: ["/api/inventory/lots"],
+  });
+
+  const { data: vaccines } = useQuery<Vaccine[]>({
+    queryKey: ["/api/vaccines"],
+  });
+
+  const { data: storageUnits } = useQuery<StorageUnit[]>({
+    queryKey: ["/api/cold-chain/units"],
+  });
+
+  const invalidateInventory = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/lots"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/expiring"] });
+  };
+
+  const receiveLotMutation = useMutation({
+    mutationFn: async (lotData: any) => {
+      const response = await apiRequest("POST", "/api/inventory/lots", lotData);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateInventory();
+      setIsReceiveDialogOpen(false);
+      toast({
+        title: "Success",
+        description: "Vaccine lot received",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to receive vaccine lot",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const recordMovementMutation = useMutation({
+    mutationFn: async ({ lotId, ...transaction }: any) => {
+      const response = await apiRequest("POST", `/api/inventory/lots/${lotId}/transactions`, transaction);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateInventory();
+      setMovement(null);
+      toast({
+        title: "Success",
+        description: "Stock movement recorded",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record stock movement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const releaseLotMutation = useMutation({
+    mutationFn: async (lotId: number) => {
+      const response = await apiRequest("PUT", `/api/inventory/lots/${lotId}`, {
+        status: "available",
+        quarantineReason: null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateInventory();
+      toast({
+        title: "Lot Released",
+        description: "The lot is available for use again",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to release lot",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReceiveLot = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const storageUnitId = formData.get('storageUnitId') as string;
+    receiveLotMutation.mutate({
+      vaccineId: parseInt(formData.get('vaccineId') as string),
+      batchNumber: formData.get('batchNumber') as string,
+      manufacturer: (formData.get('manufacturer') as string) || null,
+      expiryDate: formData.get('expiryDate') as string,
+      facility: formData.get('facility') as string,
+      quantity: parseInt(formData.get('quantity') as string),
+      storageUnitId: storageUnitId && storageUnitId !== "none" ? parseInt(storageUnitId) : null,
+    });
+  };
+
+  const handleRecordMovement = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!movement) return;
+    const formData = new FormData(e.currentTarget);
+    recordMovementMutation.mutate({
+      lotId: movement.lot.id,
+      type: movement.type,
+      quantity: parseInt(formData.get('quantity') as string),
+      notes: (formData.get('notes') as string) || null,
+    });
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+  const nearExpiryCutoff = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  const getExpiryBadge = (expiryDate: string) => {
+    if (expiryDate < today) {
+      return <Badge className="text-xs bg-error-red text-white">Expired</Badge>;
+    }
+    if (expiryDate <= nearExpiryCutoff) {
+      return <Badge className="text-xs bg-warning-orange text-white">Expiring soon</Badge>;
+    }
+    return <Badge className="text-xs bg-green-100 text-green-800">OK</Badge>;
+  };
+
+  const facilities = Array.from(new Set(lots?.map(lot => lot.facility) || [])).sort();
+  const filteredLots = lots?.filter(lot => facilityFilter === "all" || lot.facility === facilityFilter);
+  const totalDoses = filteredLots?.reduce((sum, lot) => sum + lot.quantity, 0) || 0;
+  const expiredLots = filteredLots?.filter(lot => lot.quantity > 0 && lot.expiryDate < today).length || 0;
+
+  const movementLabels: Record<MovementType, string> = {
+    receipt: "Receive Stock",
+    issue: "Issue Stock",
+    wastage: "Record Wastage",
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+        <div className="h-96 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-4 md:space-y-0">
+        <div>
+          <h1 className="text-2xl font-medium text-gray-900">Vaccine Inventory</h1>
+          <p className="text-gray-600">
+            Track vaccine lots, receipts, issues and wastage at each facility
+          </p>
+        </div>
+        <Dialog open={isReceiveDialogOpen} onOpenChange={setIsReceiveDialogOpen}>
+          {can("manage_inventory") && (
+            <DialogTrigger asChild>
+              <Button className="bg-medical-blue hover:bg-blue-700">
+                <PackagePlus className="mr-2 h-4 w-4" />
+                Receive New Lot
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Receive New Lot</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleReceiveLot} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="vaccineId">Vaccine</Label>
+                <Select name="vaccineId" required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select vaccine" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vaccines?.map((vaccine) => (
+                      <SelectItem key={vaccine.id} value={vaccine.id.toString()}>
+                        {vaccine.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="batchNumber">Batch Number</Label>
+                  <Input id="batchNumber" name="batchNumber" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="manufacturer">Manufacturer</Label>
+                  <Input id="manufacturer" name="manufacturer" />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="expiryDate">Expiry Date</Label>
+                  <Input id="expiryDate" name="expiryDate" type="date" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quantity">Doses Received</Label>
+                  <Input id="quantity" name="quantity" type="number" min="1" required />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="facility">Facility</Label>
+                <Input id="facility" name="facility" placeholder="e.g. Sub-centre name" required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="storageUnitId">Storage Unit</Label>
+                <Select name="storageUnitId" defaultValue="none">
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not assigned</SelectItem>
+                    {storageUnits?.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id.toString()}>
+                        {unit.name} - {unit.facility}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={receiveLotMutation.isPending}
+              >
+                {receiveLotMutation.isPending ? "Saving..." : "Receive Lot"}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-medical-blue mb-1">
+              {filteredLots?.length || 0}
+            </div>
+            <div className="text-sm text-gray-600">Lots</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-success-green mb-1">
+              {totalDoses}
+            </div>
+            <div className="text-sm text-gray-600">Doses on Hand</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-error-red mb-1">
+              {expiredLots}
+            </div>
+            <div className="text-sm text-gray-600">Expired Lots with Stock</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <Select value={facilityFilter} onValueChange={setFacilityFilter}>
+            <SelectTrigger className="md:w-64">
+              <SelectValue placeholder="Filter by facility" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Facilities</SelectItem>
+              {facilities.map((facility) => (
+                <SelectItem key={facility} value={facility}>{facility}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {/* Lots Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Vaccine Lots</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filteredLots?.length ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="text-left p-3 font-medium text-gray-900">Vaccine</th>
+                    <th className="text-left p-3 font-medium text-gray-900">Batch</th>
+                    <th className="text-left p-3 font-medium text-gray-900">Facility</th>
+                    <th className="text-left p-3 font-medium text-gray-900">Expiry</th>
+                    <th className="text-left p-3 font-medium text-gray-900">On Hand</th>
+                    <th className="text-left p-3 font-medium text-gray-900">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {filteredLots.map((lot) => (
+                    <tr key={lot.id} className="hover:bg-gray-50">
+                      <td className="p-3">
+                        <div className="font-medium">{lot.vaccine?.name || 'Unknown'}</div>
+                        {lot.status === "quarantined" && (
+                          <Badge className="text-xs bg-error-red text-white mt-1" title={lot.quarantineReason || undefined}>
+                            Quarantined
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="p-3">
+                        <div>{lot.batchNumber}</div>
+                        {lot.manufacturer && (
+                          <div className="text-gray-500 text-xs">{lot.manufacturer}</div>
+                        )}
+                      </td>
+                      <td className="p-3 text-gray-600">{lot.facility}</td>
+                      <td className="p-3">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-gray-600">{new Date(lot.expiryDate).toLocaleDateString()}</span>
+                          {getExpiryBadge(lot.expiryDate)}
+                        </div>
+                      </td>
+                      <td className="p-3 font-medium">{lot.quantity}</td>
+                      <td className="p-3">
+                        {can("manage_inventory") && (
+                          <div className="flex space-x-1">
+                            {lot.status === "quarantined" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="p-1 text-success-green hover:bg-green-50"
+                                onClick={() => releaseLotMutation.mutate(lot.id)}
+                                disabled={releaseLotMutation.isPending}
+                              >
+                                <ShieldCheck className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="p-1 text-success-green hover:bg-green-50"
+                              onClick={() => setMovement({ lot, type: "receipt" })}
+                            >
+                              <ArrowDownToLine className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="p-1 text-medical-blue hover:bg-blue-50"
+                              onClick={() => setMovement({ lot, type: "issue" })}
+                              disabled={lot.quantity === 0}
+                            >
+                              <ArrowUpFromLine className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="p-1 text-error-red hover:bg-red-50"
+                              onClick={() => setMovement({ lot, type: "wastage" })}
+                              disabled={lot.quantity === 0}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12 text-gray-500">
+              <Package className="mx-auto h-12 w-12 mb-4 opacity-50" />
+              <p>No vaccine lots recorded</p>
+              <p className="text-sm mt-2">Receive a lot to start tracking stock</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Stock Movement Dialog */}
+      <Dialog open={!!movement} onOpenChange={() => setMovement(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{movement && movementLabels[movement.type]}</DialogTitle>
+          </DialogHeader>
+          {movement && (
+            <form onSubmit={handleRecordMovement} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {movement.lot.vaccine?.name} lot {movement.lot.batchNumber} at {movement.lot.facility} — {movement.lot.quantity} doses on hand
+              </p>
+              {movement.type !== "receipt" && movement.lot.expiryDate < today && (
+                <div className="flex items-center space-x-2 text-sm text-error-red">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span>This lot has expired</span>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="movement-quantity">Doses</Label>
+                <Input
+                  id="movement-quantity"
+                  name="quantity"
+                  type="number"
+                  min="1"
+                  max={movement.type === "receipt" ? undefined : movement.lot.quantity}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movement-notes">Notes</Label>
+                <Textarea
+                  id="movement-notes"
+                  name="notes"
+                  placeholder={movement.type === "issue" ? "Issued to (session site, facility)" : "Reason"}
+                  rows={2}
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={recordMovementMutation.isPending}
+              >
+                {recordMovementMutation.isPending ? "Saving..." : movementLabels[movement.type]}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,12 +1,21 @@
-import { useParams } from "wouter";
+import { useEffect, useState } from "react";
+import { useLocation, useParams } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Patient, Vaccination } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { AefiReport, ClosePatient, Location, Patient, PatientChange, Vaccination, vaccinationTransitions } from "@shared/schema";
+import { apiRequest, getJson, isQueuedResult } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { patientStatusLabel } from "@/lib/patientStatus";
+import { AdministerDoseDialog, AdministerDoseData } from "@/components/administer-dose-dialog";
+import { VaccinationActions } from "@/components/vaccination-actions";
+import { QRCodeGenerator } from "@/components/qr-code-generator";
+import { AefiForm } from "@/components/aefi-form";
+import { ClosePatientDialog } from "@/components/close-patient-dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import {
   ArrowLeft,
   QrCode,
@@ -19,31 +28,130 @@ import {
   CheckCircle,
   Clock,
   AlertTriangle,
+  Activity,
+  FileText,
+  House,
+  Baby,
+  History,
+  Archive,
+  RotateCcw,
 } from "lucide-react";
 import { Link } from "wouter";
 
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  phone: "Phone",
+  dateOfBirth: "Date of birth",
+  villageId: "Village",
+  gender: "Gender",
+  address: "Address",
+  guardianName: "Guardian name",
+  guardianPhone: "Guardian phone",
+  ageGroup: "Age group",
+  medicalHistory: "Medical history",
+  allergies: "Allergies",
+  status: "Record status",
+};
+
+// Older changes are behind "Show all"
+const RECENT_CHANGES = 5;
+
 export default function PatientDetail() {
   const { id } = useParams();
+  const [administeringVaccination, setAdministeringVaccination] = useState<Vaccination | null>(null);
+  const [reportingVaccination, setReportingVaccination] = useState<Vaccination | null>(null);
+  const [isDownloadingCertificate, setIsDownloadingCertificate] = useState(false);
+  const [isQrOpen, setIsQrOpen] = useState(false);
+  const [showAllChanges, setShowAllChanges] = useState(false);
+  const [isCloseOpen, setIsCloseOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const { data: patient, isLoading } = useQuery<Patient>({
     queryKey: ["/api/patients", id],
     enabled: !!id,
+    queryFn: () => getJson<Patient>(`/api/patients/${id}`),
   });
 
-  const { data: vaccinations } = useQuery<Vaccination[]>({
+  // A record merged into another comes back as the surviving patient
+  useEffect(() => {
+    if (patient && String(patient.id) !== id) {
+      setLocation(`/patients/${patient.id}`, { replace: true });
+    }
+  }, [patient, id, setLocation]);
+
+  const { data: vaccinations } = useQuery<(Vaccination & { lotStatus: string | null })[]>({
     queryKey: ["/api/patients", id, "vaccinations"],
     enabled: !!id,
+    queryFn: () => getJson(`/api/patients/${id}/vaccinations`),
+  });
+
+  const { data: changes } = useQuery<(PatientChange & { changedByName: string | null })[]>({
+    queryKey: ["/api/patients", id, "history"],
+    enabled: !!id,
+    queryFn: () => getJson(`/api/patients/${id}/history`),
+  });
+
+  const { data: village } = useQuery<Location & { path: Location[] }>({
+    queryKey: ["/api/locations", patient?.villageId],
+    enabled: !!patient?.villageId,
+    queryFn: () => getJson(`/api/locations/${patient!.villageId}`),
+  });
+
+  const { data: aefiReports } = useQuery<AefiReport[]>({
+    queryKey: ["/api/patients", id, "aefi"],
+    enabled: !!id,
+    queryFn: () => getJson(`/api/patients/${id}/aefi`),
   });
 
-  const updateVaccinationMutation = useMutation({
-    mutationFn: async ({ vaccinationId, updates }: { vaccinationId: number; updates: any }) => {
-      await apiRequest("PUT", `/api/vaccinations/${vaccinationId}`, updates);
+  const createAefiMutation = useMutation({
+    mutationFn: async (reportData: any) => {
+      const response = await apiRequest("POST", "/api/aefi", reportData);
+      return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/patients", id, "vaccinations"] });
+      setReportingVaccination(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/patients", id, "aefi"] });
       toast({
+        title: "AEFI Reported",
+        description: "The adverse event has been recorded for review",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to report adverse event",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const administerMutation = useMutation({
+    mutationFn: async ({ vaccination, data }: { vaccination: Vaccination; data: AdministerDoseData }) => {
+      const response = await apiRequest("POST", `/api/vaccinations/${vaccination.id}/administer`, data, {
+        queueOffline: {
+          description: `Record dose ${vaccination.doseNumber} for ${patient?.name ?? "patient"}`,
+          mutation: {
+            clientId: crypto.randomUUID(),
+            type: "vaccination.transition",
+            id: vaccination.id,
+            baseVersion: vaccination.version,
+            transition: { action: "administer", ...data },
+          },
+        },
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setAdministeringVaccination(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/patients", id, "vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/lots"] });
+      toast(isQueuedResult(result) ? {
+        title: "Saved Offline",
+        description: "The dose will be recorded when the device is back online",
+      } : {
         title: "Success",
         description: "Vaccination updated successfully",
       });
@@ -57,13 +165,118 @@ export default function PatientDetail() {
     },
   });
 
-  const handleCompleteVaccination = (vaccinationId: number) => {
-    updateVaccinationMutation.mutate({
-      vaccinationId,
-      updates: {
-        status: "completed",
-        administeredDate: new Date().toISOString().split('T')[0],
-      },
+  const createHouseholdMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/households", {
+        headPatientId: patient!.id,
+        address: patient!.address,
+      });
+      return response.json();
+    },
+    onSuccess: (household) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/households"] });
+      setLocation(`/households/${household.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create household",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Closing or restoring changes which lists, schedules and counts include the patient
+  const invalidateAfterStatusChange = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const closePatientMutation = useMutation({
+    mutationFn: async (data: ClosePatient) => {
+      const response = await apiRequest("POST", `/api/patients/${id}/close`, data);
+      return response.json();
+    },
+    onSuccess: (updated: Patient) => {
+      setIsCloseOpen(false);
+      invalidateAfterStatusChange();
+      toast({
+        title: "Record Closed",
+        description: `${updated.name} is marked as ${patientStatusLabel(updated.status).toLowerCase()}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to close patient record",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restorePatientMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/patients/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateAfterStatusChange();
+      toast({
+        title: "Record Restored",
+        description: "The patient is active again",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore patient record",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadCertificate = async () => {
+    try {
+      setIsDownloadingCertificate(true);
+      const response = await fetch(`/api/patients/${id}/certificate.pdf`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || 'Failed to generate certificate');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `${patient?.patientId}_vaccination_certificate.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate certificate",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloadingCertificate(false);
+    }
+  };
+
+  const handleCompleteVaccination = (data: AdministerDoseData) => {
+    if (!administeringVaccination) return;
+    administerMutation.mutate({
+      vaccination: administeringVaccination,
+      data,
     });
   };
 
@@ -75,6 +288,8 @@ export default function PatientDetail() {
         return "bg-medical-blue text-white";
       case "overdue":
         return "bg-error-red text-white";
+      case "missed":
+        return "bg-warning-orange text-white";
       default:
         return "bg-gray-500 text-white";
     }
@@ -87,12 +302,16 @@ export default function PatientDetail() {
       case "scheduled":
         return <Clock className="h-4 w-4" />;
       case "overdue":
+      case "missed":
         return <AlertTriangle className="h-4 w-4" />;
       default:
         return <Clock className="h-4 w-4" />;
     }
   };
 
+  const canAdminister = (status: string) =>
+    can("administer_vaccine") && (vaccinationTransitions.administer.from as readonly string[]).includes(status);
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return "N/A";
     return new Date(dateString).toLocaleDateString();
@@ -139,6 +358,8 @@ export default function PatientDetail() {
     );
   }
 
+  const isActive = patient.status === "active";
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -154,17 +375,63 @@ export default function PatientDetail() {
           <p className="text-gray-600">Patient ID: {patient.patientId}</p>
         </div>
         <div className="flex space-x-2">
-          <Button variant="outline">
+          <Button variant="outline" onClick={() => setIsQrOpen(true)}>
             <QrCode className="mr-2 h-4 w-4" />
             QR Code
           </Button>
-          <Button variant="outline">
-            <Edit className="mr-2 h-4 w-4" />
-            Edit
+          <Button
+            variant="outline"
+            onClick={downloadCertificate}
+            disabled={isDownloadingCertificate || !can("administer_vaccine") || !vaccinations?.some(v => v.status === "completed")}
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            {isDownloadingCertificate ? "Generating..." : "Certificate"}
           </Button>
+          {can("edit_patient") && (
+            <Link href={`/patients/${patient.id}/edit`}>
+              <Button variant="outline">
+                <Edit className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+            </Link>
+          )}
+          {isActive && can("edit_patient") && (
+            <Button variant="outline" onClick={() => setIsCloseOpen(true)}>
+              <Archive className="mr-2 h-4 w-4" />
+              Close Record
+            </Button>
+          )}
         </div>
       </div>
 
+      {!isActive && (
+        <div className="flex items-center justify-between border border-gray-300 bg-gray-50 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <Archive className="h-5 w-5 text-gray-500 mt-0.5" />
+            <div>
+              <p className="font-medium text-gray-900">
+                Record closed: {patientStatusLabel(patient.status)}
+                {patient.statusDate && ` on ${formatDate(patient.statusDate)}`}
+              </p>
+              {patient.statusReason && <p className="text-sm text-gray-600">{patient.statusReason}</p>}
+              <p className="text-sm text-gray-600">
+                This patient is left out of lists, schedules and reports, and no new doses can be recorded.
+              </p>
+            </div>
+          </div>
+          {user?.role === 'admin' && (
+            <Button
+              variant="outline"
+              onClick={() => restorePatientMutation.mutate()}
+              disabled={restorePatientMutation.isPending}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              {restorePatientMutation.isPending ? "Restoring..." : "Restore"}
+            </Button>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Patient Information */}
         <div className="lg:col-span-1 space-y-6">
@@ -212,6 +479,15 @@ export default function PatientDetail() {
                   </div>
                 )}
 
+                {village && (
+                  <div className="flex items-center space-x-2 text-sm">
+                    <MapPin className="h-4 w-4 text-gray-400" />
+                    <span className="text-gray-600">Village:</span>
+                    <span className="text-xs">
+                      {[...village.path].reverse().map(location => location.name).join(", ")}
+                    </span>
+                  </div>
+                )}
                 {patient?.address && (
                   <div className="flex items-center space-x-2 text-sm">
                     <MapPin className="h-4 w-4 text-gray-400" />
@@ -243,6 +519,44 @@ export default function PatientDetail() {
             </Card>
           )}
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Household</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {patient.householdId ? (
+                <Link href={`/households/${patient.householdId}`}>
+                  <div className="flex items-center space-x-2 text-sm cursor-pointer hover:text-medical-blue">
+                    <House className="h-4 w-4 text-gray-400" />
+                    <span>View household</span>
+                    {patient.relationship && (
+                      <Badge variant="outline" className="text-xs capitalize">{patient.relationship}</Badge>
+                    )}
+                  </div>
+                </Link>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => createHouseholdMutation.mutate()}
+                  disabled={createHouseholdMutation.isPending}
+                >
+                  <House className="mr-2 h-4 w-4" />
+                  {createHouseholdMutation.isPending ? "Creating..." : "Create Household"}
+                </Button>
+              )}
+              {isActive && can("register_patient") && (patient.gender === "female" || patient.ageGroup === "pregnant") && (
+                <Link href={`/patients/new?motherId=${patient.id}`}>
+                  <Button variant="outline" size="sm" className="w-full">
+                    <Baby className="mr-2 h-4 w-4" />
+                    Register Newborn
+                  </Button>
+                </Link>
+              )}
+            </CardContent>
+          </Card>
+
           {(patient?.medicalHistory || patient?.allergies) && (
             <Card>
               <CardHeader>
@@ -264,6 +578,38 @@ export default function PatientDetail() {
               </CardContent>
             </Card>
           )}
+
+          {changes?.length ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <History className="mr-2 h-5 w-5" />
+                  Change History
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {(showAllChanges ? changes : changes.slice(0, RECENT_CHANGES)).map((change) => (
+                  <div key={change.id} className="text-sm border-l-2 border-gray-200 pl-3">
+                    <p className="font-medium">{FIELD_LABELS[change.field] ?? change.field}</p>
+                    <p className="text-gray-600">
+                      <span className="line-through">{change.oldValue || "blank"}</span>
+                      {" → "}
+                      <span>{change.newValue || "blank"}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {change.changedByName || "Unknown"}
+                      {change.changedAt ? `, ${new Date(change.changedAt).toLocaleString()}` : ""}
+                    </p>
+                  </div>
+                ))}
+                {changes.length > RECENT_CHANGES && (
+                  <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAllChanges(!showAllChanges)}>
+                    {showAllChanges ? "Show recent" : `Show all ${changes.length} changes`}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ) : null}
         </div>
 
         {/* Vaccination History */}
@@ -272,10 +618,12 @@ export default function PatientDetail() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle>Vaccination History</CardTitle>
-                <Button className="bg-health-green hover:bg-green-700">
-                  <Syringe className="mr-2 h-4 w-4" />
-                  Add Vaccination
-                </Button>
+                {can("administer_vaccine") && (
+                  <Button className="bg-health-green hover:bg-green-700">
+                    <Syringe className="mr-2 h-4 w-4" />
+                    Add Vaccination
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -293,17 +641,31 @@ export default function PatientDetail() {
                             {vaccination.status}
                           </Badge>
                         </div>
-                        {vaccination.status === "scheduled" && (
-                          <Button
-                            size="sm"
-                            onClick={() => handleCompleteVaccination(vaccination.id)}
-                            disabled={updateVaccinationMutation.isPending}
-                            className="bg-success-green hover:bg-green-600"
-                          >
-                            <CheckCircle className="mr-1 h-3 w-3" />
-                            Complete
-                          </Button>
-                        )}
+                        <div className="flex items-center space-x-2">
+                          {isActive && canAdminister(vaccination.status) && (
+                            <Button
+                              size="sm"
+                              onClick={() => setAdministeringVaccination(vaccination)}
+                              disabled={administerMutation.isPending}
+                              className="bg-success-green hover:bg-green-600"
+                            >
+                              <CheckCircle className="mr-1 h-3 w-3" />
+                              Complete
+                            </Button>
+                          )}
+                          {vaccination.status === "completed" && can("administer_vaccine") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setReportingVaccination(vaccination)}
+                              className="text-error-red border-error-red hover:bg-red-50"
+                            >
+                              <Activity className="mr-1 h-3 w-3" />
+                              Report Reaction
+                            </Button>
+                          )}
+                          <VaccinationActions vaccination={vaccination} />
+                        </div>
                       </div>
 
                       <div className="grid grid-cols-2 gap-4 text-sm">
@@ -319,12 +681,49 @@ export default function PatientDetail() {
                         )}
                       </div>
 
+                      {vaccination.lotNumber && (
+                        <div className="mt-3 text-sm">
+                          <p className="text-gray-600">Lot Number</p>
+                          <p className="flex items-center space-x-2">
+                            <span>{vaccination.lotNumber}</span>
+                            {vaccination.lotStatus === "quarantined" && (
+                              <Badge className="text-xs bg-error-red text-white">
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                Quarantined lot
+                              </Badge>
+                            )}
+                          </p>
+                        </div>
+                      )}
+
                       {vaccination.notes && (
                         <div className="mt-3">
                           <p className="text-gray-600 text-sm">Notes</p>
                           <p className="text-sm">{vaccination.notes}</p>
                         </div>
                       )}
+
+                      {aefiReports?.filter(report => report.vaccinationId === vaccination.id).map((report) => (
+                        <div key={report.id} className="mt-3 p-3 bg-red-50 rounded-lg text-sm">
+                          <div className="flex items-center justify-between mb-1">
+                            <span className="font-medium text-error-red flex items-center">
+                              <Activity className="mr-1 h-3 w-3" />
+                              Adverse event
+                            </span>
+                            <div className="flex space-x-1">
+                              <Badge className="text-xs bg-white text-gray-800 capitalize">{report.severity}</Badge>
+                              {report.isSerious && (
+                                <Badge className="text-xs bg-error-red text-white">Serious</Badge>
+                              )}
+                            </div>
+                          </div>
+                          <p>{report.symptoms}</p>
+                          <p className="text-xs text-gray-600 mt-1">
+                            Onset {new Date(report.onsetAt).toLocaleString()} · Outcome: {report.outcome.replace(/_/g, ' ')}
+                            {report.followUpDate && ` · Follow-up ${formatDate(report.followUpDate)}`}
+                          </p>
+                        </div>
+                      ))}
                     </div>
                   ))}
                 </div>
@@ -339,6 +738,42 @@ export default function PatientDetail() {
           </Card>
         </div>
       </div>
+
+      <AdministerDoseDialog
+        vaccination={administeringVaccination}
+        onClose={() => setAdministeringVaccination(null)}
+        onSubmit={handleCompleteVaccination}
+        isLoading={administerMutation.isPending}
+      />
+
+      <ClosePatientDialog
+        patient={patient}
+        open={isCloseOpen}
+        onOpenChange={setIsCloseOpen}
+        onSubmit={(data) => closePatientMutation.mutate(data)}
+        isLoading={closePatientMutation.isPending}
+      />
+
+      <Dialog open={isQrOpen} onOpenChange={setIsQrOpen}>
+        <DialogContent className="max-w-lg p-0 border-0">
+          <QRCodeGenerator patient={patient} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!reportingVaccination} onOpenChange={() => setReportingVaccination(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report Adverse Event (Dose {reportingVaccination?.doseNumber})</DialogTitle>
+          </DialogHeader>
+          {reportingVaccination && (
+            <AefiForm
+              vaccinationId={reportingVaccination.id}
+              onSubmit={(data) => createAefiMutation.mutate(data)}
+              isLoading={createAefiMutation.isPending}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,136 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useParams, Link } from "wouter";
+import { PatientForm } from "@/components/patient-form";
+import { apiRequest, getJson, isQueuedResult } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Patient, UpdatePatient } from "@shared/schema";
+
+export default function PatientEdit() {
+  const { id } = useParams();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: patient, isLoading } = useQuery<Patient>({
+    queryKey: ["/api/patients", id],
+    enabled: !!id,
+    queryFn: () => getJson<Patient>(`/api/patients/${id}`),
+  });
+
+  const updatePatientMutation = useMutation({
+    mutationFn: async (data: UpdatePatient) => {
+      // Sent with the version the form was filled from, so an edit made by
+      // someone else in the meantime is reported instead of overwritten
+      const response = await apiRequest("PUT", `/api/patients/${id}`, { ...data, baseVersion: patient!.version }, {
+        queueOffline: {
+          description: `Edit ${patient!.name}`,
+          mutation: {
+            clientId: crypto.randomUUID(),
+            type: "patient.update",
+            id: patient!.id,
+            baseVersion: patient!.version,
+            data,
+          },
+        },
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (isQueuedResult(result)) {
+        toast({
+          title: "Saved Offline",
+          description: "The changes will be uploaded when the device is back online",
+        });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+        toast({
+          title: "Success",
+          description: "Patient updated successfully",
+        });
+      }
+      setLocation(`/patients/${id}`);
+    },
+    onError: (error) => {
+      if (error.message.startsWith("409")) {
+        // Reloading the record remounts the form with the current values
+        queryClient.invalidateQueries({ queryKey: ["/api/patients", id] });
+        toast({
+          title: "Patient Changed",
+          description: "Someone else updated this patient while you were editing. The latest details have been loaded; please make your changes again.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update patient",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+        <div className="h-96 bg-gray-200 rounded-lg"></div>
+      </div>
+    );
+  }
+
+  if (!patient) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-medium text-gray-900">Patient not found</h2>
+        <Link href="/patients">
+          <Button className="mt-4">Back to Patients</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Link href={`/patients/${id}`}>
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Patient
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-medium text-gray-900">Edit {patient.name}</h1>
+          <p className="text-gray-600">
+            Patient ID: {patient.patientId}. Changes are recorded in the patient's history.
+          </p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <PatientForm
+        key={patient.version}
+        onSubmit={(data) => updatePatientMutation.mutate(data)}
+        onCancel={() => setLocation(`/patients/${id}`)}
+        isLoading={updatePatientMutation.isPending}
+        submitText="Save Changes"
+        excludeId={patient.id}
+        initialData={{
+          name: patient.name,
+          phone: patient.phone,
+          dateOfBirth: patient.dateOfBirth ?? undefined,
+          gender: patient.gender,
+          address: patient.address,
+          villageId: patient.villageId,
+          guardianName: patient.guardianName,
+          guardianPhone: patient.guardianPhone,
+          ageGroup: patient.ageGroup,
+          medicalHistory: patient.medicalHistory,
+          allergies: patient.allergies,
+        }}
+      />
+    </div>
+  );
+}
@@ -1,25 +1,61 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { PatientForm } from "@/components/patient-form";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getJson, isQueuedResult } from "@/lib/queryClient";
+import { takeReservedPatientId } from "@/lib/offlineStore";
+import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
+import { Patient } from "@shared/schema";
 
 export default function PatientNew() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  // Set when registering a newborn from the mother's record
+  const motherId = Number(new URLSearchParams(useSearch()).get("motherId")) || undefined;
+
+  const { data: mother, isLoading: motherLoading } = useQuery<Patient>({
+    queryKey: ["/api/patients", motherId],
+    queryFn: () => getJson<Patient>(`/api/patients/${motherId}`),
+    enabled: !!motherId,
+  });
 
   const createPatientMutation = useMutation({
     mutationFn: async (patientData: any) => {
-      const response = await apiRequest("POST", "/api/patients", patientData);
-      return response.json();
+      // Online, the server assigns the next ID. Offline, one of the user's
+      // reserved IDs lets the card be written up before the record is uploaded;
+      // it is only taken once the registration is queued.
+      let patientId: string | undefined;
+      const response = await apiRequest("POST", "/api/patients", { ...patientData, motherId }, {
+        queueOffline: async () => {
+          patientId = user ? await takeReservedPatientId(user.id) : undefined;
+          return {
+            description: `Register ${patientData.name}${patientId ? ` (${patientId})` : ""}`,
+            mutation: { clientId: crypto.randomUUID(), type: "patient.create", data: patientData, patientId, motherId },
+          };
+        },
+      });
+      const result = await response.json();
+      return isQueuedResult(result) ? { ...result, patientId } : result;
     },
     onSuccess: (newPatient) => {
+      if (newPatient.queued) {
+        toast({
+          title: "Saved Offline",
+          description: newPatient.patientId
+            ? `Patient ID ${newPatient.patientId}. The record will be uploaded when the device is back online`
+            : "The patient will be registered and issued an ID when the device is back online",
+        });
+        setLocation("/patients");
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/households"] });
       toast({
         title: "Success",
         description: "Patient created successfully",
@@ -43,26 +79,42 @@ export default function PatientNew() {
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center space-x-4">
-        <Link href="/patients">
+        <Link href={motherId ? `/patients/${motherId}` : "/patients"}>
           <Button variant="outline" size="sm">
             <ArrowLeft className="mr-2 h-4 w-4" />
-            Back to Patients
+            {motherId ? "Back to Patient" : "Back to Patients"}
           </Button>
         </Link>
         <div>
-          <h1 className="text-2xl font-medium text-gray-900">Add New Patient</h1>
+          <h1 className="text-2xl font-medium text-gray-900">
+            {motherId ? "Register Newborn" : "Add New Patient"}
+          </h1>
           <p className="text-gray-600">
-            Create a new patient record and generate their digital health card
+            {mother
+              ? `The baby will be added to ${mother.name}'s household`
+              : "Create a new patient record and generate their digital health card"}
           </p>
         </div>
       </div>
 
       {/* Form */}
-      <PatientForm
-        onSubmit={handleSubmit}
-        isLoading={createPatientMutation.isPending}
-        submitText="Create Patient"
-      />
+      {motherId && motherLoading ? (
+        <div className="animate-pulse h-96 bg-gray-200 rounded-lg"></div>
+      ) : (
+        <PatientForm
+          onSubmit={handleSubmit}
+          onCancel={() => setLocation(motherId ? `/patients/${motherId}` : "/patients")}
+          isLoading={createPatientMutation.isPending}
+          submitText="Create Patient"
+          initialData={mother ? {
+            ageGroup: "infant",
+            address: mother.address,
+            villageId: mother.villageId,
+            guardianName: mother.name,
+            guardianPhone: mother.phone,
+          } : undefined}
+        />
+      )}
     </div>
   );
 }
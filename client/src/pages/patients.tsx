@@ -5,7 +5,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Patient } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Patient, patientStatuses } from "@shared/schema";
+import { isMistypedPatientId } from "@shared/patient-ids";
+import { PrintCardsDialog } from "@/components/print-cards-dialog";
+import { getJson } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { PATIENT_STATUS_LABELS, patientStatusLabel } from "@/lib/patientStatus";
+import { withLocation } from "@/lib/locations";
+import { LocationSelect } from "@/components/location-select";
 import {
   Search,
   Plus,
@@ -14,19 +22,26 @@ import {
   Phone,
   Calendar,
   Users,
+  PrinterCheck,
 } from "lucide-react";
 
 export default function Patients() {
   const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("active");
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [isPrintCardsOpen, setIsPrintCardsOpen] = useState(false);
+  const { can } = useAuth();
 
   const { data: patients, isLoading } = useQuery<Patient[]>({
-    queryKey: ["/api/patients"],
+    queryKey: ["/api/patients", { status: statusFilter, locationId }],
+    queryFn: () => getJson<Patient[]>(withLocation(`/api/patients?status=${statusFilter}`, locationId)),
   });
 
+  const mistypedId = isMistypedPatientId(searchQuery);
   const { data: searchResults } = useQuery<Patient[]>({
-    queryKey: ["/api/patients/search", searchQuery],
-    enabled: searchQuery.length > 2,
-    queryFn: () => fetch(`/api/patients/search?q=${encodeURIComponent(searchQuery)}`).then(res => res.json()),
+    queryKey: ["/api/patients/search", searchQuery, statusFilter, locationId],
+    enabled: searchQuery.length > 2 && !mistypedId,
+    queryFn: () => fetch(withLocation(`/api/patients/search?q=${encodeURIComponent(searchQuery)}&status=${statusFilter}`, locationId)).then(res => res.json()),
   });
 
   const displayPatients = searchQuery.length > 2 ? searchResults : patients;
@@ -87,18 +102,32 @@ export default function Patients() {
             Manage and view all patient information
           </p>
         </div>
-        <Link href="/patients/new">
-          <Button className="bg-medical-blue hover:bg-blue-700">
-            <Plus className="mr-2 h-4 w-4" />
-            Add New Patient
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setIsPrintCardsOpen(true)}>
+            <PrinterCheck className="mr-2 h-4 w-4" />
+            Print Cards
           </Button>
-        </Link>
+          {can("register_patient") && (
+            <Link href="/patients/new">
+              <Button className="bg-medical-blue hover:bg-blue-700">
+                <Plus className="mr-2 h-4 w-4" />
+                Add New Patient
+              </Button>
+            </Link>
+          )}
+        </div>
       </div>
 
+      <PrintCardsDialog
+        open={isPrintCardsOpen}
+        onOpenChange={setIsPrintCardsOpen}
+        searchResults={searchQuery.length > 2 ? searchResults : undefined}
+      />
+
       {/* Search */}
       <Card>
-        <CardContent className="p-4">
-          <div className="relative">
+        <CardContent className="p-4 flex flex-col md:flex-row gap-4">
+          <div className="relative flex-1">
             <Input
               type="text"
               placeholder="Search by name, phone, or patient ID..."
@@ -107,7 +136,29 @@ export default function Patients() {
               className="pl-10"
             />
             <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+            {mistypedId && (
+              <p className="text-sm text-error-red mt-1">
+                This patient ID's check digit doesn't match. Check it was typed correctly.
+              </p>
+            )}
           </div>
+          <LocationSelect
+            value={locationId}
+            onChange={setLocationId}
+            allLabel="All locations"
+            className="md:w-56"
+          />
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="md:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {patientStatuses.map((status) => (
+                <SelectItem key={status} value={status}>{PATIENT_STATUS_LABELS[status]}</SelectItem>
+              ))}
+              <SelectItem value="all">All records</SelectItem>
+            </SelectContent>
+          </Select>
         </CardContent>
       </Card>
 
@@ -127,9 +178,16 @@ export default function Patients() {
                       <p className="text-sm text-gray-600">ID: {patient.patientId}</p>
                     </div>
                   </div>
-                  <Badge className={getAgeGroupColor(patient.ageGroup)}>
-                    {patient.ageGroup}
-                  </Badge>
+                  <div className="flex flex-col items-end space-y-1">
+                    <Badge className={getAgeGroupColor(patient.ageGroup)}>
+                      {patient.ageGroup}
+                    </Badge>
+                    {patient.status !== "active" && (
+                      <Badge variant="outline" className="text-xs text-gray-600">
+                        {patientStatusLabel(patient.status)}
+                      </Badge>
+                    )}
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-3">
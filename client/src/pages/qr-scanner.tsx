@@ -4,9 +4,18 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Patient } from "@shared/schema";
+import { Patient, PatientTransferRequest } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { TransferRequestDialog } from "@/components/transfer-request-dialog";
+import {
+  parseQrPayload,
+  decodeQrFromSource,
+  verifyCardTokenOffline,
+  CardVerification,
+  PublicSigningKey,
+} from "@/lib/qrPayload";
 import {
   QrCode,
   Camera,
@@ -16,46 +25,206 @@ import {
   Phone,
   Calendar,
   MapPin,
+  SwitchCamera,
+  Flashlight,
+  Image as ImageIcon,
+  ShieldCheck,
+  ShieldAlert,
+  ShieldQuestion,
+  History,
+  ArrowRightLeft,
 } from "lucide-react";
 import { Link } from "wouter";
 
+const QR_KEYS_STORAGE_KEY = "qrSigningKeys";
+
+// How long the same unrecognized code is ignored while the camera is on it
+const REJECTED_CODE_NOTICE_MS = 5000;
+
+interface RecentScan {
+  id: string;
+  scannedAt: string;
+  device: string | null;
+  patient: Pick<Patient, "id" | "name" | "patientId" | "ageGroup" | "phone">;
+}
+
+// 403 body when the card is genuine but the patient is registered outside
+// the user's area
+interface OutOfAreaLookup {
+  message: string;
+  patient: Pick<Patient, "id" | "patientId">;
+  area: string | null;
+}
+
+class OutOfAreaError extends Error {
+  constructor(public lookup: OutOfAreaLookup) {
+    super(lookup.message);
+  }
+}
+
 export default function QrScanner() {
   const [isScanning, setIsScanning] = useState(false);
   const [scannedCode, setScannedCode] = useState("");
   const [manualCode, setManualCode] = useState("");
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [cameraIndex, setCameraIndex] = useState(0);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [cardVerification, setCardVerification] = useState<CardVerification | null>(null);
+  const [showTransferDialog, setShowTransferDialog] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const lastRejectedRef = useRef<{ text: string; at: number } | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
   const queryClient = useQueryClient();
 
-  const { data: scannedPatient, isLoading: isLoadingPatient } = useQuery<Patient>({
+  const { data: scannedPatient, isLoading: isLoadingPatient, error: lookupError } = useQuery<Patient>({
     queryKey: ["/api/patients/qr", scannedCode],
     enabled: !!scannedCode,
     retry: false,
+    queryFn: async () => {
+      const res = await fetch(`/api/patients/qr/${encodeURIComponent(scannedCode)}`, { credentials: "include" });
+      if (res.status === 403) {
+        const body = await res.json();
+        if (body.outOfScope) throw new OutOfAreaError(body);
+      }
+      if (!res.ok) {
+        throw new Error("Patient not found");
+      }
+      return res.json();
+    },
   });
 
-  const { data: recentScans } = useQuery<Patient[]>({
+  const outOfArea = lookupError instanceof OutOfAreaError ? lookupError.lookup : null;
+
+  const requestTransferMutation = useMutation({
+    mutationFn: async (data: PatientTransferRequest) => {
+      const response = await apiRequest("POST", `/api/patients/${outOfArea?.patient.id}/transfers`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+      setShowTransferDialog(false);
+      toast({
+        title: "Success",
+        description: "Transfer requested. You'll be able to open the record once it is approved.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to request transfer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Public keys are cached locally so cards can be verified with no connectivity
+  const { data: signingKeys } = useQuery<PublicSigningKey[]>({
+    queryKey: ["/api/qr-keys"],
+    initialData: () => {
+      const cached = localStorage.getItem(QR_KEYS_STORAGE_KEY);
+      return cached ? JSON.parse(cached) : undefined;
+    },
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (signingKeys) {
+      localStorage.setItem(QR_KEYS_STORAGE_KEY, JSON.stringify(signingKeys));
+    }
+  }, [signingKeys]);
+
+  useEffect(() => {
+    setCardVerification(null);
+    if (!scannedCode) return;
+    let cancelled = false;
+    verifyCardTokenOffline(scannedCode, signingKeys ?? []).then((result) => {
+      if (!cancelled) setCardVerification(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [scannedCode, signingKeys]);
+
+  const { data: recentScans } = useQuery<RecentScan[]>({
     queryKey: ["/api/patients/recent-scans"],
-    // Mock recent scans since we don't have this endpoint
-    queryFn: () => Promise.resolve([]),
   });
 
-  const startScanning = async () => {
+  // Each successful lookup is recorded server-side; refresh the list to show it
+  useEffect(() => {
+    if (scannedPatient) {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients/recent-scans"] });
+    }
+  }, [scannedPatient, queryClient]);
+
+  const handleDecoded = (text: string) => {
+    const code = parseQrPayload(text);
+    if (!code) {
+      // The camera keeps seeing the same code every frame; warn about it once
+      // rather than on each frame, and again only if it's still there later
+      const now = Date.now();
+      const last = lastRejectedRef.current;
+      if (!last || last.text !== text || now - last.at > REJECTED_CODE_NOTICE_MS) {
+        toast({
+          title: "Unrecognized QR Code",
+          description: "This QR code is not a patient health card",
+          variant: "destructive",
+        });
+      }
+      lastRejectedRef.current = { text, at: now };
+      return false;
+    }
+    lastRejectedRef.current = null;
+    setScannedCode(code);
+    return true;
+  };
+
+  // Decodes one video frame per animation frame until a card is read
+  const scanFrame = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || !streamRef.current) {
+      return;
+    }
+
+    if (video.readyState === video.HAVE_ENOUGH_DATA) {
+      const text = decodeQrFromSource(video, video.videoWidth, video.videoHeight, canvas);
+      if (text && handleDecoded(text)) {
+        stopScanning();
+        return;
+      }
+    }
+    frameRef.current = requestAnimationFrame(scanFrame);
+  };
+
+  const startScanning = async (deviceId?: string) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: 'environment' } 
+      stopScanning();
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' },
       });
-      
+      streamRef.current = stream;
+
+      const [track] = stream.getVideoTracks();
+      const capabilities = (track.getCapabilities?.() ?? {}) as MediaTrackCapabilities & { torch?: boolean };
+      setTorchSupported(!!capabilities.torch);
+      setTorchOn(false);
+
+      // Device labels are only available once camera permission is granted
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setCameras(devices.filter(device => device.kind === 'videoinput'));
+
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
-        setIsScanning(true);
-        
-        // This is a placeholder for QR code scanning
-        // In a real implementation, you would use a library like jsQR
-        toast({
-          title: "Camera Started",
-          description: "Point your camera at a QR code to scan",
-        });
+        await videoRef.current.play();
       }
+      setIsScanning(true);
+      frameRef.current = requestAnimationFrame(scanFrame);
     } catch (error) {
       toast({
         title: "Camera Error",
@@ -67,18 +236,67 @@ export default function QrScanner() {
   };
 
   const stopScanning = () => {
-    if (videoRef.current?.srcObject) {
-      const stream = videoRef.current.srcObject as MediaStream;
-      stream.getTracks().forEach(track => track.stop());
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
     setIsScanning(false);
   };
 
+  const switchCamera = () => {
+    if (cameras.length < 2) return;
+    const nextIndex = (cameraIndex + 1) % cameras.length;
+    setCameraIndex(nextIndex);
+    startScanning(cameras[nextIndex].deviceId);
+  };
+
+  const toggleTorch = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch (error) {
+      console.error("Torch error:", error);
+    }
+  };
+
+  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !canvasRef.current) return;
+
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const text = canvasRef.current
+        ? decodeQrFromSource(image, image.naturalWidth, image.naturalHeight, canvasRef.current, true)
+        : null;
+      URL.revokeObjectURL(url);
+      if (text) {
+        handleDecoded(text);
+      } else {
+        toast({
+          title: "No QR Code Found",
+          description: "Could not read a QR code in this photo. Try a closer, sharper picture.",
+          variant: "destructive",
+        });
+      }
+    };
+    image.onerror = () => URL.revokeObjectURL(url);
+    image.src = url;
+  };
+
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (manualCode.trim()) {
-      setScannedCode(manualCode.trim());
+    if (manualCode.trim() && handleDecoded(manualCode)) {
       setManualCode("");
     }
   };
@@ -132,34 +350,65 @@ export default function QrScanner() {
           </CardHeader>
           <CardContent className="space-y-4">
             {/* Camera Section */}
-            <div className="aspect-square bg-gray-100 rounded-lg flex items-center justify-center overflow-hidden">
+            <div className="aspect-square bg-gray-100 rounded-lg flex items-center justify-center overflow-hidden relative">
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className={`w-full h-full object-cover ${isScanning ? "" : "hidden"}`}
+              />
               {isScanning ? (
-                <video
-                  ref={videoRef}
-                  autoPlay
-                  playsInline
-                  className="w-full h-full object-cover"
-                />
+                <div className="absolute inset-12 border-2 border-white/80 rounded-lg pointer-events-none" />
               ) : (
                 <div className="text-center">
                   <QrCode className="mx-auto h-16 w-16 text-gray-400 mb-4" />
                   <p className="text-gray-600 mb-4">Click to start scanning</p>
                 </div>
               )}
+              <canvas ref={canvasRef} className="hidden" />
             </div>
 
             {/* Scanner Controls */}
             <div className="flex space-x-2">
               {!isScanning ? (
-                <Button onClick={startScanning} className="flex-1 bg-medical-blue hover:bg-blue-700">
+                <Button onClick={() => startScanning(cameras[cameraIndex]?.deviceId)} className="flex-1 bg-medical-blue hover:bg-blue-700">
                   <Camera className="mr-2 h-4 w-4" />
                   Start Scanner
                 </Button>
               ) : (
-                <Button onClick={stopScanning} variant="outline" className="flex-1">
-                  Stop Scanner
-                </Button>
+                <>
+                  <Button onClick={stopScanning} variant="outline" className="flex-1">
+                    Stop Scanner
+                  </Button>
+                  {cameras.length > 1 && (
+                    <Button onClick={switchCamera} variant="outline" title="Switch camera">
+                      <SwitchCamera className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {torchSupported && (
+                    <Button
+                      onClick={toggleTorch}
+                      variant="outline"
+                      title="Toggle flashlight"
+                      className={torchOn ? "bg-yellow-50" : ""}
+                    >
+                      <Flashlight className="h-4 w-4" />
+                    </Button>
+                  )}
+                </>
               )}
+              <Button onClick={() => fileInputRef.current?.click()} variant="outline" title="Scan from photo">
+                <ImageIcon className="h-4 w-4" />
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={handlePhotoUpload}
+              />
             </div>
 
             {/* Manual Entry */}
@@ -169,7 +418,7 @@ export default function QrScanner() {
                 <Input
                   value={manualCode}
                   onChange={(e) => setManualCode(e.target.value)}
-                  placeholder="Enter QR code"
+                  placeholder="Enter or paste QR code"
                   className="flex-1"
                 />
                 <Button type="submit" variant="outline">
@@ -188,6 +437,32 @@ export default function QrScanner() {
           <CardContent>
             {scannedCode ? (
               <div className="space-y-4">
+                {cardVerification && (
+                  <div className="flex items-center space-x-2 text-sm">
+                    {cardVerification.status === "verified" ? (
+                      <>
+                        <ShieldCheck className="h-4 w-4 text-success-green" />
+                        <span className="text-success-green">
+                          Authentic card, issued {new Date(cardVerification.payload.i).toLocaleDateString()}
+                        </span>
+                      </>
+                    ) : cardVerification.status === "unsigned" ? (
+                      <>
+                        <ShieldQuestion className="h-4 w-4 text-gray-400" />
+                        <span className="text-gray-600">Older unsigned card - consider reissuing</span>
+                      </>
+                    ) : (
+                      <>
+                        <ShieldAlert className="h-4 w-4 text-error-red" />
+                        <span className="text-error-red">
+                          {cardVerification.status === "invalid"
+                            ? "Signature check failed - this card may be forged"
+                            : "Signed with an unknown key - reconnect to refresh keys"}
+                        </span>
+                      </>
+                    )}
+                  </div>
+                )}
                 {isLoadingPatient ? (
                   <div className="animate-pulse">
                     <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
@@ -248,11 +523,49 @@ export default function QrScanner() {
                       </Button>
                     </div>
                   </div>
+                ) : outOfArea ? (
+                  <div className="text-center py-8 text-gray-500">
+                    <MapPin className="mx-auto h-12 w-12 mb-4 opacity-50" />
+                    <p>{outOfArea.message}</p>
+                    <p className="text-sm mt-2">
+                      {outOfArea.patient.patientId}
+                      {outOfArea.area ? ` is registered in ${outOfArea.area}` : " is registered outside your area"}.
+                      If they now live in your area, ask for the record to be transferred to you.
+                    </p>
+                    <div className="flex justify-center space-x-2 mt-4">
+                      <Button
+                        onClick={() => setShowTransferDialog(true)}
+                        className="bg-medical-blue hover:bg-blue-700"
+                        disabled={!can("edit_patient")}
+                      >
+                        <ArrowRightLeft className="mr-2 h-4 w-4" />
+                        Request Transfer
+                      </Button>
+                      <Button onClick={clearScannedCode} variant="outline">
+                        Clear
+                      </Button>
+                    </div>
+                    <TransferRequestDialog
+                      key={outOfArea.patient.id}
+                      patientCode={outOfArea.patient.patientId}
+                      area={outOfArea.area}
+                      open={showTransferDialog}
+                      onOpenChange={setShowTransferDialog}
+                      onSubmit={(data) => requestTransferMutation.mutate(data)}
+                      isLoading={requestTransferMutation.isPending}
+                    />
+                  </div>
                 ) : (
                   <div className="text-center py-8 text-gray-500">
                     <QrCode className="mx-auto h-12 w-12 mb-4 opacity-50" />
                     <p>No patient found with this QR code</p>
-                    <p className="text-sm mt-2">Please verify the code and try again</p>
+                    {cardVerification?.status === "verified" ? (
+                      <p className="text-sm mt-2">
+                        This card for {cardVerification.payload.p} is no longer current. It may have been reissued.
+                      </p>
+                    ) : (
+                      <p className="text-sm mt-2">Please verify the code and try again</p>
+                    )}
                     <Button onClick={clearScannedCode} variant="outline" className="mt-4">
                       Try Again
                     </Button>
@@ -270,6 +583,46 @@ export default function QrScanner() {
         </Card>
       </div>
 
+      {/* Recent Scans */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            Recent Scans
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recentScans?.length ? (
+            <div className="divide-y divide-gray-200">
+              {recentScans.map((scan) => (
+                <div key={scan.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="font-medium">{scan.patient.name}</p>
+                    <p className="text-sm text-gray-600">
+                      ID: {scan.patient.patientId}
+                      {scan.patient.ageGroup && <span className="capitalize"> · {scan.patient.ageGroup}</span>}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-sm text-gray-500">
+                      {new Date(scan.scannedAt).toLocaleString()}
+                    </span>
+                    <Link href={`/patients/${scan.patient.id}`}>
+                      <Button variant="outline" size="sm">
+                        <ExternalLink className="mr-2 h-4 w-4" />
+                        View
+                      </Button>
+                    </Link>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No scans yet. Patients you look up will appear here.</p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Instructions */}
       <Card>
         <CardContent className="p-4">
@@ -281,6 +634,7 @@ export default function QrScanner() {
             <ul className="text-sm text-gray-700 space-y-1">
               <li>• Ensure good lighting when scanning QR codes</li>
               <li>• Hold your device steady over the QR code</li>
+              <li>• In low light, turn on the flashlight or scan a photo of the card instead</li>
               <li>• QR codes contain patient ID and basic information</li>
               <li>• Each patient receives a unique QR code on their health card</li>
               <li>• For privacy, QR codes don't contain sensitive medical data</li>
@@ -4,6 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { getJson } from "@/lib/queryClient";
+import { withLocation } from "@/lib/locations";
+import { LocationSelect } from "@/components/location-select";
 import {
   BarChart3,
   Download,
@@ -13,22 +17,27 @@ import {
   TrendingUp,
   FileText,
   Filter,
+  AlertTriangle,
 } from "lucide-react";
 import { useState } from "react";
 
 export default function Reports() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [reportType, setReportType] = useState("vaccination");
   const [timePeriod, setTimePeriod] = useState("current-month");
   const [format, setFormat] = useState("csv");
   const [isGenerating, setIsGenerating] = useState(false);
+  const [locationId, setLocationId] = useState<number | null>(null);
 
   const { data: stats } = useQuery({
-    queryKey: ["/api/dashboard/stats"],
+    queryKey: ["/api/dashboard/stats", { locationId }],
+    queryFn: () => getJson(withLocation("/api/dashboard/stats", locationId)),
   });
 
   const { data: vaccinationStats } = useQuery({
-    queryKey: ["/api/vaccinations/stats"],
+    queryKey: ["/api/vaccinations/stats", { locationId }],
+    queryFn: () => getJson(withLocation("/api/vaccinations/stats", locationId)),
   });
 
   interface StatsData {
@@ -50,7 +59,7 @@ export default function Reports() {
   const downloadReport = async (endpoint: string, filename: string, reportFormat = 'csv') => {
     try {
       setIsGenerating(true);
-      const response = await fetch(`/api/reports/${endpoint}?format=${reportFormat}`, {
+      const response = await fetch(withLocation(`/api/reports/${endpoint}?format=${reportFormat}`, locationId), {
         method: 'GET',
         credentials: 'include',
       });
@@ -91,7 +100,8 @@ export default function Reports() {
       demographics: 'demographics',
       overdue: 'overdue',
       monthly: 'monthly',
-      patients: 'patients'
+      patients: 'patients',
+      aefi: 'aefi'
     };
 
     const endpoint = reportEndpoints[reportType as keyof typeof reportEndpoints];
@@ -137,10 +147,29 @@ export default function Reports() {
       type: "monthly",
       endpoint: "monthly",
     },
+    {
+      id: 6,
+      title: "AEFI Report",
+      description: "Adverse events following immunization by vaccine and lot",
+      type: "aefi",
+      endpoint: "aefi",
+    },
   ];
 
 
 
+  if (!can("view_reports")) {
+    return (
+      <div className="text-center py-12">
+        <AlertTriangle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <p className="text-gray-500">Access denied. Your role can't view reports.</p>
+      </div>
+    );
+  }
+
+  // CSV files count as exporting data; JSON is the on-screen report format
+  const canExport = can("export_data");
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -252,10 +281,16 @@ export default function Reports() {
                     <SelectItem value="demographics">Patient Demographics</SelectItem>
                     <SelectItem value="overdue">Overdue Vaccinations</SelectItem>
                     <SelectItem value="monthly">Monthly Summary</SelectItem>
+                    <SelectItem value="aefi">Adverse Events (AEFI)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Location</label>
+                <LocationSelect value={locationId} onChange={setLocationId} allLabel="All locations" />
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">Time Period</label>
                 <Select value={timePeriod} onValueChange={setTimePeriod}>
@@ -287,7 +322,7 @@ export default function Reports() {
 
               <Button 
                 onClick={generateReport} 
-                disabled={isGenerating}
+                disabled={isGenerating || !canExport}
                 className="w-full bg-health-green hover:bg-green-700"
               >
                 <BarChart3 className="mr-2 h-4 w-4" />
@@ -323,7 +358,7 @@ export default function Reports() {
                           size="sm" 
                           variant="outline"
                           onClick={() => downloadReport(report.endpoint, `${report.type}_report_${new Date().toISOString().split('T')[0]}.csv`, 'csv')}
-                          disabled={isGenerating}
+                          disabled={isGenerating || !canExport}
                         >
                           <Download className="mr-1 h-3 w-3" />
                           {isGenerating ? "..." : "Download CSV"}
@@ -1,12 +1,17 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Vaccination, Patient, Vaccine } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { Vaccination, Patient, Vaccine, vaccinationTransitions } from "@shared/schema";
+import { apiRequest, getJson, isQueuedResult } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { AdministerDoseDialog, AdministerDoseData } from "@/components/administer-dose-dialog";
+import { VaccinationActions } from "@/components/vaccination-actions";
+import { LocationSelect } from "@/components/location-select";
+import { withLocation } from "@/lib/locations";
 import {
   Syringe,
   CheckCircle,
@@ -22,30 +27,85 @@ import { Link } from "wouter";
 interface VaccinationWithPatient extends Vaccination {
   patient: Patient;
   vaccine: Vaccine;
+  lotStatus: string | null;
+}
+
+interface VaccinationPage {
+  items: VaccinationWithPatient[];
+  nextCursor: string | null;
 }
 
 export default function Vaccinations() {
   const [ageGroupFilter, setAgeGroupFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [vaccineFilter, setVaccineFilter] = useState("all");
+  const [assignedFilter, setAssignedFilter] = useState("all");
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [administeringVaccination, setAdministeringVaccination] = useState<VaccinationWithPatient | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user, can } = useAuth();
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<VaccinationPage>({
+    queryKey: ["/api/vaccinations", { ageGroupFilter, statusFilter, vaccineFilter, assignedFilter, locationId }],
+    initialPageParam: null,
+    queryFn: ({ pageParam }) => {
+      const params = new URLSearchParams();
+      if (ageGroupFilter !== "all") params.set("ageGroup", ageGroupFilter);
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (vaccineFilter !== "all") params.set("vaccineId", vaccineFilter);
+      if (assignedFilter === "me" && user) params.set("assignedTo", String(user.id));
+      if (locationId) params.set("locationId", String(locationId));
+      if (pageParam) params.set("cursor", pageParam as string);
+      return getJson<VaccinationPage>(`/api/vaccinations?${params}`);
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const vaccinations = data?.pages.flatMap((page) => page.items);
 
-  const { data: vaccinations, isLoading } = useQuery<VaccinationWithPatient[]>({
-    queryKey: ["/api/vaccinations"],
+  const { data: vaccines } = useQuery<Vaccine[]>({
+    queryKey: ["/api/vaccines"],
   });
 
   const { data: stats } = useQuery({
-    queryKey: ["/api/vaccinations/stats"],
+    queryKey: ["/api/vaccinations/stats", { locationId }],
+    queryFn: () => getJson<{ completed: number; due: number; overdue: number; missed: number }>(
+      withLocation("/api/vaccinations/stats", locationId)
+    ),
   });
 
-  const updateVaccinationMutation = useMutation({
-    mutationFn: async ({ vaccinationId, updates }: { vaccinationId: number; updates: any }) => {
-      await apiRequest("PUT", `/api/vaccinations/${vaccinationId}`, updates);
+  const administerMutation = useMutation({
+    mutationFn: async ({ vaccination, data }: { vaccination: VaccinationWithPatient; data: AdministerDoseData }) => {
+      const response = await apiRequest("POST", `/api/vaccinations/${vaccination.id}/administer`, data, {
+        queueOffline: {
+          description: `Record ${vaccination.vaccine.name} dose ${vaccination.doseNumber} for ${vaccination.patient.name}`,
+          mutation: {
+            clientId: crypto.randomUUID(),
+            type: "vaccination.transition",
+            id: vaccination.id,
+            baseVersion: vaccination.version,
+            transition: { action: "administer", ...data },
+          },
+        },
+      });
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      setAdministeringVaccination(null);
       queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
       queryClient.invalidateQueries({ queryKey: ["/api/vaccinations/stats"] });
-      toast({
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/lots"] });
+      toast(isQueuedResult(result) ? {
+        title: "Saved Offline",
+        description: "The dose will be recorded when the device is back online",
+      } : {
         title: "Success",
         description: "Vaccination updated successfully",
       });
@@ -59,13 +119,11 @@ export default function Vaccinations() {
     },
   });
 
-  const handleCompleteVaccination = (vaccinationId: number) => {
-    updateVaccinationMutation.mutate({
-      vaccinationId,
-      updates: {
-        status: "completed",
-        administeredDate: new Date().toISOString().split('T')[0],
-      },
+  const handleCompleteVaccination = (data: AdministerDoseData) => {
+    if (!administeringVaccination) return;
+    administerMutation.mutate({
+      vaccination: administeringVaccination,
+      data,
     });
   };
 
@@ -77,6 +135,8 @@ export default function Vaccinations() {
         return "bg-medical-blue text-white";
       case "overdue":
         return "bg-error-red text-white";
+      case "missed":
+        return "bg-warning-orange text-white";
       default:
         return "bg-gray-500 text-white";
     }
@@ -89,27 +149,21 @@ export default function Vaccinations() {
       case "scheduled":
         return <Clock className="h-4 w-4" />;
       case "overdue":
+      case "missed":
         return <AlertTriangle className="h-4 w-4" />;
       default:
         return <Clock className="h-4 w-4" />;
     }
   };
 
+  const canAdminister = (status: string) =>
+    can("administer_vaccine") && (vaccinationTransitions.administer.from as readonly string[]).includes(status);
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return "N/A";
     return new Date(dateString).toLocaleDateString();
   };
 
-  const filteredVaccinations = vaccinations?.filter((vaccination) => {
-    if (ageGroupFilter !== "all" && vaccination.patient?.ageGroup !== ageGroupFilter) {
-      return false;
-    }
-    if (statusFilter !== "all" && vaccination.status !== statusFilter) {
-      return false;
-    }
-    return true;
-  });
-
   if (isLoading) {
     return (
       <div className="space-y-6 animate-pulse">
@@ -208,6 +262,37 @@ export default function Vaccinations() {
                   <SelectItem value="scheduled">Scheduled</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="overdue">Overdue</SelectItem>
+                  <SelectItem value="missed">Missed</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1">
+              <Select value={assignedFilter} onValueChange={setAssignedFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by assignment" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Workers</SelectItem>
+                  <SelectItem value="me">Assigned to Me</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1">
+              <LocationSelect value={locationId} onChange={setLocationId} allLabel="All Locations" />
+            </div>
+            <div className="flex-1">
+              <Select value={vaccineFilter} onValueChange={setVaccineFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by vaccine" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Vaccines</SelectItem>
+                  {vaccines?.map((vaccine) => (
+                    <SelectItem key={vaccine.id} value={vaccine.id.toString()}>
+                      {vaccine.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -221,7 +306,7 @@ export default function Vaccinations() {
           <CardTitle>Vaccination Records</CardTitle>
         </CardHeader>
         <CardContent>
-          {filteredVaccinations?.length ? (
+          {vaccinations?.length ? (
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead className="bg-gray-50">
@@ -235,7 +320,7 @@ export default function Vaccinations() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  {filteredVaccinations.map((vaccination) => (
+                  {vaccinations.map((vaccination) => (
                     <tr key={vaccination.id} className="hover:bg-gray-50">
                       <td className="p-3">
                         <div className="flex items-center space-x-2">
@@ -255,6 +340,9 @@ export default function Vaccinations() {
                       </td>
                       <td className="p-3 text-gray-600">
                         {vaccination.vaccine?.name || 'Unknown'} - Dose {vaccination.doseNumber}
+                        {vaccination.lotStatus === "quarantined" && (
+                          <Badge className="ml-2 text-xs bg-error-red text-white">Quarantined lot</Badge>
+                        )}
                       </td>
                       <td className="p-3 text-gray-600">
                         {formatDate(vaccination.scheduledDate)}
@@ -272,13 +360,13 @@ export default function Vaccinations() {
                               <Eye className="h-4 w-4" />
                             </Button>
                           </Link>
-                          {vaccination.status === "scheduled" && (
+                          {canAdminister(vaccination.status) && (
                             <Button
                               variant="ghost"
                               size="sm"
                               className="p-1 text-success-green hover:bg-green-50"
-                              onClick={() => handleCompleteVaccination(vaccination.id)}
-                              disabled={updateVaccinationMutation.isPending}
+                              onClick={() => setAdministeringVaccination(vaccination)}
+                              disabled={administerMutation.isPending}
                             >
                               <Syringe className="h-4 w-4" />
                             </Button>
@@ -286,19 +374,31 @@ export default function Vaccinations() {
                           <Button variant="ghost" size="sm" className="p-1 text-gray-600 hover:bg-gray-50">
                             <Bell className="h-4 w-4" />
                           </Button>
+                          <VaccinationActions vaccination={vaccination} />
                         </div>
                       </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
+              {hasNextPage && (
+                <div className="text-center pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                  >
+                    {isFetchingNextPage ? "Loading..." : "Load More"}
+                  </Button>
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-12 text-gray-500">
               <Syringe className="mx-auto h-12 w-12 mb-4 opacity-50" />
               <p>No vaccination records found</p>
               <p className="text-sm mt-2">
-                {ageGroupFilter !== "all" || statusFilter !== "all"
+                {ageGroupFilter !== "all" || statusFilter !== "all" || vaccineFilter !== "all" || assignedFilter !== "all" || locationId
                   ? "Try adjusting your filters"
                   : "Vaccination records will appear here"}
               </p>
@@ -306,6 +406,13 @@ export default function Vaccinations() {
           )}
         </CardContent>
       </Card>
+
+      <AdministerDoseDialog
+        vaccination={administeringVaccination}
+        onClose={() => setAdministeringVaccination(null)}
+        onSubmit={handleCompleteVaccination}
+        isLoading={administerMutation.isPending}
+      />
     </div>
   );
 }
@@ -0,0 +1,71 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { CheckCircle, AlertCircle, AlertTriangle } from "lucide-react";
+
+interface CertificateVerification {
+  valid: boolean;
+  message?: string;
+  issuedAt?: string;
+  patientId?: string;
+  name?: string;
+  doseCount?: number;
+  upToDate?: boolean;
+}
+
+// Public page reached by scanning the QR code on a printed certificate
+export default function VerifyCertificate() {
+  const { code } = useParams();
+
+  const { data: result, isLoading } = useQuery<CertificateVerification>({
+    queryKey: ["/api/certificates", code, "verify"],
+    queryFn: () => fetch(`/api/certificates/${code}/verify`).then(res => res.json()),
+    enabled: !!code,
+  });
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-medical-blue"></div>
+            </div>
+          ) : result?.valid ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-8 w-8 text-success-green" />
+                <h1 className="text-2xl font-bold text-gray-900">Certificate Verified</h1>
+              </div>
+              <div className="text-sm space-y-1">
+                <p><span className="text-gray-600">Name:</span> {result.name}</p>
+                <p><span className="text-gray-600">Patient ID:</span> {result.patientId}</p>
+                <p><span className="text-gray-600">Doses listed:</span> {result.doseCount}</p>
+                <p>
+                  <span className="text-gray-600">Issued:</span>{" "}
+                  {result.issuedAt ? new Date(result.issuedAt).toLocaleDateString() : "N/A"}
+                </p>
+              </div>
+              {!result.upToDate && (
+                <div className="flex items-start gap-2 p-3 bg-orange-50 rounded text-sm text-warning-orange">
+                  <AlertTriangle className="h-4 w-4 mt-0.5" />
+                  <span>The patient's record has changed since this certificate was issued. Ask for a current copy.</span>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Not Verified</h1>
+                <p className="mt-2 text-sm text-gray-600">
+                  {result?.message || "This certificate could not be found."}
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// The patients a request may see. Set once per request by requireAuth and read
+// by the storage layer, so every patient query is limited the same way
+// without each route passing the user through.
+export interface AccessScope {
+  userId: number;
+  // Villages under this location are visible; null means the user has no
+  // posting and sees only patients they registered without a village
+  locationId: number | null;
+}
+
+const scopeStorage = new AsyncLocalStorage<AccessScope>();
+
+export function runWithScope<T>(scope: AccessScope, fn: () => T): T {
+  return scopeStorage.run(scope, fn);
+}
+
+// Undefined outside a request and for admins and auditors, meaning every
+// patient is visible
+export function currentScope(): AccessScope | undefined {
+  return scopeStorage.getStore();
+}
+
+// For lookups that must see every patient whoever is asking, e.g. checking a
+// card's signature or finding which area an out-of-scope patient belongs to
+export function runUnscoped<T>(fn: () => T): T {
+  return scopeStorage.exit(fn);
+}
@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createCardToken, decodeCardToken, generateSigningKeyPair, verifyCardToken } from "./card-token";
+
+describe("card tokens", () => {
+  const key = generateSigningKeyPair();
+
+  it("verifies a token signed with the key", () => {
+    const token = createCardToken('RH-000123-4', key);
+    const check = verifyCardToken(token, key.publicKey);
+    assert.equal(check.valid, true);
+    assert.equal(check.payload?.p, 'RH-000123-4');
+    assert.equal(check.payload?.k, key.keyId);
+  });
+
+  it("gives each card a new nonce", () => {
+    const first = decodeCardToken(createCardToken('RH-000123-4', key));
+    const second = decodeCardToken(createCardToken('RH-000123-4', key));
+    assert.notEqual(first?.n, second?.n);
+  });
+
+  it("rejects a token whose payload was changed", () => {
+    const [prefix, payload, signature] = createCardToken('RH-000123-4', key).split('.');
+    const changed = { ...JSON.parse(Buffer.from(payload, 'base64url').toString()), p: 'RH-000999-1' };
+    const token = `${prefix}.${Buffer.from(JSON.stringify(changed)).toString('base64url')}.${signature}`;
+    const check = verifyCardToken(token, key.publicKey);
+    assert.equal(check.valid, false);
+    assert.equal(check.valid === false && check.reason, "Signature does not match");
+  });
+
+  it("rejects a token checked against another key", () => {
+    const token = createCardToken('RH-000123-4', key);
+    assert.equal(verifyCardToken(token, generateSigningKeyPair().publicKey).valid, false);
+  });
+
+  it("rejects malformed tokens", () => {
+    for (const token of ['', 'RH-000123-4', 'RH2.e30.AA', 'RH1.not-json.AA']) {
+      assert.deepEqual(verifyCardToken(token, key.publicKey), { valid: false, reason: "Malformed card token" });
+    }
+  });
+});
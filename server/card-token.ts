@@ -0,0 +1,83 @@
+import { generateKeyPairSync, createPrivateKey, createPublicKey, randomBytes, sign, verify, type JsonWebKey } from "crypto";
+
+// Health card QR payloads are compact signed tokens:
+//
+//   RH1.<base64url(JSON payload)>.<base64url(ECDSA P-256 signature)>
+//
+// The signature covers "RH1.<payload>" and is in raw r||s form so the
+// browser's WebCrypto can verify it offline with the published public key.
+export const CARD_TOKEN_PREFIX = "RH1";
+
+export interface CardTokenPayload {
+  p: string; // patientId, e.g. RH000123
+  i: string; // issue date, YYYY-MM-DD
+  k: string; // signing key id
+  n: string; // card nonce, so a reissued card never matches the old one
+}
+
+export type CardTokenCheck =
+  | { valid: true; payload: CardTokenPayload }
+  | { valid: false; reason: string; payload?: CardTokenPayload };
+
+export function generateSigningKeyPair(): { keyId: string; publicKey: JsonWebKey; privateKey: string } {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return {
+    keyId: randomBytes(4).toString('hex'),
+    publicKey: publicKey.export({ format: 'jwk' }),
+    privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+  };
+}
+
+export function createCardToken(
+  patientId: string,
+  signingKey: { keyId: string; privateKey: string },
+): string {
+  const payload: CardTokenPayload = {
+    p: patientId,
+    i: new Date().toISOString().split('T')[0],
+    k: signingKey.keyId,
+    n: randomBytes(4).toString('base64url'),
+  };
+  const signingInput = `${CARD_TOKEN_PREFIX}.${Buffer.from(JSON.stringify(payload)).toString('base64url')}`;
+  const signature = sign('sha256', Buffer.from(signingInput), {
+    key: createPrivateKey(signingKey.privateKey),
+    dsaEncoding: 'ieee-p1363',
+  });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+// Reads the payload without checking the signature, e.g. to find the key id
+export function decodeCardToken(token: string): CardTokenPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== CARD_TOKEN_PREFIX) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString());
+    if (typeof payload?.p !== 'string' || typeof payload?.k !== 'string') {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function verifyCardToken(token: string, publicKey: JsonWebKey): CardTokenCheck {
+  const payload = decodeCardToken(token);
+  if (!payload) {
+    return { valid: false, reason: "Malformed card token" };
+  }
+
+  const [prefix, encodedPayload, encodedSignature] = token.split('.');
+  const signatureValid = verify(
+    'sha256',
+    Buffer.from(`${prefix}.${encodedPayload}`),
+    { key: createPublicKey({ key: publicKey, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+    Buffer.from(encodedSignature, 'base64url'),
+  );
+  if (!signatureValid) {
+    return { valid: false, reason: "Signature does not match", payload };
+  }
+  return { valid: true, payload };
+}
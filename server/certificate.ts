@@ -0,0 +1,118 @@
+import PDFDocument from "pdfkit";
+import { createHash, randomBytes } from "crypto";
+import type { Certificate, Patient } from "@shared/schema";
+import type { CertificateDose } from "./storage";
+import { renderQrPng } from "./qr";
+
+export function generateVerificationCode(): string {
+  return randomBytes(12).toString('base64url');
+}
+
+// Fingerprint of the doses listed on a certificate, so verification can tell
+// whether the patient's record has changed since it was issued
+export function digestDoses(doses: CertificateDose[]): string {
+  const canonical = doses
+    .map(d => `${d.vaccinationId}:${d.doseNumber}:${d.administeredDate ?? ''}:${d.lotNumber ?? ''}`)
+    .join('|');
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+export function formatDate(value: string | Date | null): string {
+  if (!value) return 'N/A';
+  const date = typeof value === 'string' ? new Date(`${value}T00:00:00Z`) : value;
+  return date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+// Renders an A4 certificate listing every completed dose, with a QR code that
+// links to the public verification page for this certificate
+export async function renderCertificatePdf(
+  patient: Patient,
+  doses: CertificateDose[],
+  certificate: Certificate,
+  verifyUrl: string,
+): Promise<Buffer> {
+  const qrPng = await renderQrPng(verifyUrl, { margin: 2, size: 240 });
+
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  // Header
+  doc.fontSize(20).font('Helvetica-Bold').text('Certificate of Vaccination', { align: 'center' });
+  doc.moveDown(0.3);
+  doc.fontSize(11).font('Helvetica').fillColor('#555555').text('Rural Health Tracker', { align: 'center' });
+  doc.fillColor('black').moveDown(1.5);
+
+  // Patient details, with the QR code to the right
+  const detailsTop = doc.y;
+  doc.image(qrPng, left + width - 120, detailsTop, { width: 120 });
+
+  const details: [string, string][] = [
+    ['Name', patient.name],
+    ['Patient ID', patient.patientId],
+    ['Date of Birth', formatDate(patient.dateOfBirth)],
+    ['Gender', patient.gender ? patient.gender[0].toUpperCase() + patient.gender.slice(1) : 'N/A'],
+    ['Guardian', patient.guardianName || 'N/A'],
+  ];
+  doc.fontSize(11);
+  for (const [label, value] of details) {
+    doc.font('Helvetica-Bold').text(`${label}: `, left, doc.y, { continued: true });
+    doc.font('Helvetica').text(value);
+    doc.moveDown(0.2);
+  }
+  doc.y = Math.max(doc.y, detailsTop + 130);
+  doc.moveDown(1);
+
+  // Dose table
+  const columns = [
+    { label: 'Vaccine', width: 0.3 },
+    { label: 'Dose', width: 0.1 },
+    { label: 'Date Given', width: 0.18 },
+    { label: 'Lot', width: 0.17 },
+    { label: 'Administered By', width: 0.25 },
+  ];
+  const drawRow = (values: string[], bold: boolean) => {
+    const top = doc.y;
+    let x = left;
+    let rowHeight = 0;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+    values.forEach((value, i) => {
+      const colWidth = columns[i].width * width;
+      doc.text(value, x + 4, top + 4, { width: colWidth - 8 });
+      rowHeight = Math.max(rowHeight, doc.y - top + 4);
+      x += colWidth;
+    });
+    doc.moveTo(left, top + rowHeight).lineTo(left + width, top + rowHeight).strokeColor('#cccccc').stroke();
+    doc.y = top + rowHeight;
+  };
+
+  drawRow(columns.map(c => c.label), true);
+  for (const dose of doses) {
+    if (doc.y > doc.page.height - 120) {
+      doc.addPage();
+    }
+    drawRow([
+      dose.vaccineName || 'Unknown',
+      String(dose.doseNumber),
+      formatDate(dose.administeredDate),
+      dose.lotNumber || 'N/A',
+      dose.administeredByName || 'N/A',
+    ], false);
+  }
+
+  // Footer
+  doc.moveDown(2);
+  doc.fontSize(9).font('Helvetica').fillColor('#555555');
+  doc.text(`Issued ${formatDate(certificate.issuedAt)} · Verification code ${certificate.verificationCode}`, left, doc.y, { width });
+  doc.text(`Scan the QR code or visit ${verifyUrl} to verify this certificate.`, { width });
+
+  doc.end();
+  return finished;
+}
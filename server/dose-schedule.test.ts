@@ -0,0 +1,21 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { rescheduledDoseDate } from "./dose-schedule";
+
+describe("rescheduledDoseDate", () => {
+  it("pushes a waiting dose back to the spaced date", () => {
+    assert.equal(rescheduledDoseDate({ status: 'scheduled', scheduledDate: '2024-03-01' }, '2024-03-15'), '2024-03-15');
+    assert.equal(rescheduledDoseDate({ status: 'overdue', scheduledDate: '2024-03-01' }, '2024-03-15'), '2024-03-15');
+  });
+
+  it("never brings a dose forward", () => {
+    assert.equal(rescheduledDoseDate({ status: 'scheduled', scheduledDate: '2024-04-01' }, '2024-03-15'), null);
+    assert.equal(rescheduledDoseDate({ status: 'scheduled', scheduledDate: '2024-03-15' }, '2024-03-15'), null);
+  });
+
+  it("leaves doses given, missed or cancelled as recorded", () => {
+    for (const status of ['completed', 'missed', 'cancelled']) {
+      assert.equal(rescheduledDoseDate({ status, scheduledDate: '2024-03-01' }, '2024-03-15'), null);
+    }
+  });
+});
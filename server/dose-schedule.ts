@@ -0,0 +1,22 @@
+import type { Vaccination } from "@shared/schema";
+
+// Doses still waiting to be given; the only ones a later administration moves
+const MOVABLE_STATUSES = ['scheduled', 'overdue'];
+
+// The new date for a later dose of a series once an earlier dose is given,
+// or null to leave it as it is. spacedDate is the given dose's date plus the
+// vaccine's interval. Doses given, missed or cancelled stay as recorded, and
+// a dose is only ever pushed back: giving one dose early doesn't bring the
+// rest of the series forward of the dates they were already due.
+export function rescheduledDoseDate(
+  dose: Pick<Vaccination, 'status' | 'scheduledDate'>,
+  spacedDate: string,
+): string | null {
+  if (!MOVABLE_STATUSES.includes(dose.status)) {
+    return null;
+  }
+  if (dose.scheduledDate && dose.scheduledDate >= spacedDate) {
+    return null;
+  }
+  return spacedDate;
+}
@@ -0,0 +1,116 @@
+import type { DuplicateCheck, Patient } from "@shared/schema";
+
+// Scores how likely an existing patient is the same person as one being
+// registered. Names are compared loosely because the same child is often
+// spelled differently at different camps; date of birth, guardian and phone
+// number confirm the match.
+
+export interface DuplicateMatch {
+  patient: Patient;
+  score: number; // 0..1
+  reasons: string[];
+}
+
+// A match registered in another worker's area: enough to recognise the
+// record and ask for a transfer, without the patient's details
+export interface OutOfAreaDuplicateMatch {
+  patient: Pick<Patient, 'id' | 'patientId' | 'name'>;
+  score: number;
+  reasons: string[];
+  outOfArea: true;
+}
+
+// Matches scoring below this are not shown
+export const DUPLICATE_THRESHOLD = 0.5;
+
+// Phone numbers are compared on their last digits so +91 98765 43210 and
+// 09876543210 match
+export const PHONE_DIGITS = 9;
+
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[!-\/:-@\[-`{-~]/g, ' ') // ASCII punctuation; letters in any script are kept
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort() // "Devi Lakshmi" and "Lakshmi Devi" are the same name
+    .join(' ');
+}
+
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  return digits.length >= PHONE_DIGITS ? digits.slice(-PHONE_DIGITS) : null;
+}
+
+function bigrams(value: string): string[] {
+  const padded = ` ${value} `;
+  const result: string[] = [];
+  for (let i = 0; i < padded.length - 1; i++) {
+    result.push(padded.slice(i, i + 2));
+  }
+  return result;
+}
+
+// Dice coefficient over character bigrams: 1 for identical names, tolerant
+// of a transposed or missing letter
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const remaining = bigrams(right);
+  let shared = 0;
+  for (const pair of bigrams(left)) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (bigrams(left).length + bigrams(right).length);
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime()) / (1000 * 60 * 60 * 24);
+}
+
+export function scoreDuplicate(candidate: DuplicateCheck, patient: Patient): DuplicateMatch | null {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const similarity = nameSimilarity(candidate.name, patient.name);
+  if (similarity >= 0.7) {
+    score += 0.4 * similarity;
+    reasons.push(similarity === 1 ? "Same name" : "Similar name");
+  }
+
+  if (candidate.dateOfBirth && patient.dateOfBirth) {
+    const apart = daysApart(candidate.dateOfBirth, patient.dateOfBirth);
+    if (apart === 0) {
+      score += 0.3;
+      reasons.push("Same date of birth");
+    } else if (apart <= 31) {
+      // Birth dates recalled by a parent are often off by a few weeks
+      score += 0.15;
+      reasons.push("Date of birth within a month");
+    }
+  }
+
+  if (candidate.guardianName && patient.guardianName && nameSimilarity(candidate.guardianName, patient.guardianName) >= 0.8) {
+    score += 0.15;
+    reasons.push("Same guardian");
+  }
+
+  const candidatePhones = [candidate.phone, candidate.guardianPhone].map(normalizePhone).filter(Boolean);
+  const patientPhones = [patient.phone, patient.guardianPhone].map(normalizePhone).filter(Boolean);
+  if (candidatePhones.some(phone => patientPhones.includes(phone))) {
+    score += 0.25;
+    reasons.push("Same phone number");
+  }
+
+  score = Math.min(1, Math.round(score * 100) / 100);
+  return score >= DUPLICATE_THRESHOLD ? { patient, score, reasons } : null;
+}
@@ -0,0 +1,112 @@
+import PDFDocument from "pdfkit";
+import type { Patient } from "@shared/schema";
+import { formatDate } from "./certificate";
+import { renderQrPng } from "./qr";
+
+const MM = 72 / 25.4;
+
+// Cards are ID-1 size (85.6 × 54 mm) so they fit standard laminating pouches.
+// They are laid out edge to edge, so a single guillotine cut along each cut
+// mark separates neighbouring cards.
+const CARD_WIDTH = 85.6 * MM;
+const CARD_HEIGHT = 54 * MM;
+const COLUMNS = 2;
+const ROWS = 5;
+const CUT_MARK_LENGTH = 5 * MM;
+const CUT_MARK_GAP = 2 * MM;
+const QR_SIZE = 36 * MM;
+const HEADER_HEIGHT = 9 * MM;
+const PADDING = 3 * MM;
+
+export const CARDS_PER_SHEET = COLUMNS * ROWS;
+
+function capitalize(value: string | null): string {
+  return value ? value[0].toUpperCase() + value.slice(1) : 'N/A';
+}
+
+function drawCutMarks(doc: PDFKit.PDFDocument, originX: number, originY: number) {
+  const gridWidth = COLUMNS * CARD_WIDTH;
+  const gridHeight = ROWS * CARD_HEIGHT;
+
+  doc.save().lineWidth(0.5).strokeColor('black');
+  for (let column = 0; column <= COLUMNS; column++) {
+    const x = originX + column * CARD_WIDTH;
+    doc.moveTo(x, originY - CUT_MARK_GAP - CUT_MARK_LENGTH).lineTo(x, originY - CUT_MARK_GAP).stroke();
+    doc.moveTo(x, originY + gridHeight + CUT_MARK_GAP).lineTo(x, originY + gridHeight + CUT_MARK_GAP + CUT_MARK_LENGTH).stroke();
+  }
+  for (let row = 0; row <= ROWS; row++) {
+    const y = originY + row * CARD_HEIGHT;
+    doc.moveTo(originX - CUT_MARK_GAP - CUT_MARK_LENGTH, y).lineTo(originX - CUT_MARK_GAP, y).stroke();
+    doc.moveTo(originX + gridWidth + CUT_MARK_GAP, y).lineTo(originX + gridWidth + CUT_MARK_GAP + CUT_MARK_LENGTH, y).stroke();
+  }
+  doc.restore();
+}
+
+function drawCard(doc: PDFKit.PDFDocument, patient: Patient, qrPng: Buffer, x: number, y: number) {
+  // Faint outline so a slightly misaligned cut still leaves a clean edge
+  doc.save().lineWidth(0.25).strokeColor('#cccccc').rect(x, y, CARD_WIDTH, CARD_HEIGHT).stroke().restore();
+
+  doc.save().rect(x, y, CARD_WIDTH, HEADER_HEIGHT).fill('#2196f3').restore();
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('white')
+    .text('Rural Health Card', x + PADDING, y + (HEADER_HEIGHT - 10) / 2, { width: CARD_WIDTH - 2 * PADDING, lineBreak: false });
+
+  const qrX = x + CARD_WIDTH - PADDING - QR_SIZE;
+  const qrY = y + HEADER_HEIGHT + (CARD_HEIGHT - HEADER_HEIGHT - QR_SIZE) / 2;
+  doc.image(qrPng, qrX, qrY, { width: QR_SIZE, height: QR_SIZE });
+
+  const textX = x + PADDING;
+  const textWidth = qrX - textX - PADDING;
+  let textY = y + HEADER_HEIGHT + PADDING;
+
+  doc.fillColor('black').font('Helvetica-Bold').fontSize(11)
+    .text(patient.name, textX, textY, { width: textWidth, height: 26, ellipsis: true });
+  textY = Math.min(doc.y, textY + 26) + 4;
+
+  const details: [string, string][] = [
+    ['ID', patient.patientId],
+    ['Age group', capitalize(patient.ageGroup)],
+    ['Date of birth', formatDate(patient.dateOfBirth)],
+    ['Guardian', patient.guardianName || 'N/A'],
+  ];
+  doc.fontSize(8);
+  for (const [label, value] of details) {
+    doc.font('Helvetica-Bold').text(`${label}: `, textX, textY, { continued: true, width: textWidth, height: 10, ellipsis: true });
+    doc.font('Helvetica').text(value);
+    textY += 12;
+  }
+
+  doc.font('Helvetica').fontSize(6).fillColor('#555555')
+    .text('Bring this card to every health visit', textX, y + CARD_HEIGHT - PADDING - 7, { width: textWidth, lineBreak: false });
+}
+
+// Renders A4 sheets of wallet-sized health cards, ten per page, with crop
+// marks around the grid. Each card carries the patient's signed QR code.
+export async function renderHealthCardSheets(patients: Patient[]): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'A4', margin: 0, autoFirstPage: false });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  for (let start = 0; start < patients.length; start += CARDS_PER_SHEET) {
+    doc.addPage();
+    const originX = (doc.page.width - COLUMNS * CARD_WIDTH) / 2;
+    const originY = (doc.page.height - ROWS * CARD_HEIGHT) / 2;
+
+    const sheet = patients.slice(start, start + CARDS_PER_SHEET);
+    const qrImages = await Promise.all(
+      sheet.map(patient => renderQrPng(patient.qrCode!, { errorCorrectionLevel: 'Q', margin: 2, size: 400 })),
+    );
+    sheet.forEach((patient, index) => {
+      const column = index % COLUMNS;
+      const row = Math.floor(index / COLUMNS);
+      drawCard(doc, patient, qrImages[index], originX + column * CARD_WIDTH, originY + row * CARD_HEIGHT);
+    });
+    drawCutMarks(doc, originX, originY);
+  }
+
+  doc.end();
+  return finished;
+}
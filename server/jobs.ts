@@ -0,0 +1,135 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+export const VACCINATION_STATUS_JOB = "vaccination-status";
+
+// Reads a whole-number setting, falling back to the default (with a warning)
+// when it is missing, not a number or out of range
+function intFromEnv(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    log(`${name}=${raw} is not a whole number from ${min} to ${max}; using ${fallback}`, "jobs");
+    return fallback;
+  }
+  return value;
+}
+
+// Days after the due date before an overdue dose is recorded as missed
+export const missedGraceDays = intFromEnv("MISSED_GRACE_DAYS", 28, 0, 365);
+
+// Time zone the clinics keep, e.g. Asia/Kolkata. Dates ("is this dose
+// overdue today?") and the job's hour are both taken in it. Defaults to the
+// server's own time zone.
+function timeZoneFromEnv(): string {
+  const fallback = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const raw = process.env.CLINIC_TIMEZONE;
+  if (!raw) {
+    return fallback;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: raw });
+    return raw;
+  } catch {
+    log(`CLINIC_TIMEZONE=${raw} is not a known time zone; using ${fallback}`, "jobs");
+    return fallback;
+  }
+}
+
+const clinicTimeZone = timeZoneFromEnv();
+
+// Hour of the day (clinic time) the nightly status job runs
+const statusJobHour = intFromEnv("STATUS_JOB_HOUR", 1, 0, 23);
+
+const clinicClock = new Intl.DateTimeFormat("en-CA", {
+  timeZone: clinicTimeZone,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+// The clinic's calendar date (YYYY-MM-DD) and time of day at the instant
+function clinicTime(at: Date) {
+  const parts = Object.fromEntries(clinicClock.formatToParts(at).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+let running = false;
+let nextRunAt: Date | null = null;
+
+export function getNextStatusJobRun(): Date | null {
+  return nextRunAt;
+}
+
+export async function runVaccinationStatusJob() {
+  if (running) {
+    throw new Error("Vaccination status job is already running");
+  }
+
+  running = true;
+  try {
+    const run = await storage.startJobRun(VACCINATION_STATUS_JOB);
+    try {
+      const today = clinicTime(new Date()).date;
+      const counts = await storage.markOverdueAndMissed(today, missedGraceDays);
+      log(`vaccination status job: ${counts.overdue} overdue, ${counts.missed} missed`, "jobs");
+      return await storage.finishJobRun(run.id, counts);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await storage.finishJobRun(run.id, null, message);
+      throw error;
+    }
+  } finally {
+    running = false;
+  }
+}
+
+// The next statusJobHour:00 on the clinic's clock. Across a daylight saving
+// change the run may be an hour early or late that night.
+function scheduleNextRun() {
+  const now = new Date();
+  const clock = clinicTime(now);
+  const hoursAhead = (statusJobHour - clock.hour + 24) % 24;
+  const next = new Date(now.getTime() + (hoursAhead * 3600 - clock.minute * 60 - clock.second) * 1000);
+  next.setMilliseconds(0);
+  if (next <= now) {
+    next.setTime(next.getTime() + 24 * 3600 * 1000);
+  }
+  nextRunAt = next;
+
+  setTimeout(async () => {
+    try {
+      await runVaccinationStatusJob();
+    } catch (error) {
+      console.error("Vaccination status job error:", error);
+    }
+    scheduleNextRun();
+  }, next.getTime() - Date.now());
+}
+
+// Starts the nightly scheduler. If the server was down over the last
+// scheduled time, the job is caught up immediately.
+export async function startJobScheduler() {
+  try {
+    const lastRun = await storage.getLastJobRun(VACCINATION_STATUS_JOB);
+    const today = clinicTime(new Date()).date;
+    if (!lastRun || clinicTime(lastRun.startedAt).date < today) {
+      await runVaccinationStatusJob();
+    }
+  } catch (error) {
+    console.error("Vaccination status job error:", error);
+  }
+  scheduleNextRun();
+}
@@ -0,0 +1,21 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { hasValidCheckDigit } from "@shared/patient-ids";
+import { formatPatientId } from "./patient-ids";
+
+describe("formatPatientId", () => {
+  it("pads the number and appends its check digit", () => {
+    assert.equal(formatPatientId(123, 'RH'), 'RH-000123-0');
+    assert.equal(formatPatientId(4512, 'KA-BLR'), 'KA-BLR-004512-0');
+  });
+
+  it("keeps numbers wider than six digits whole", () => {
+    assert.match(formatPatientId(1234567, 'RH'), /^RH-1234567-\d$/);
+  });
+
+  it("issues IDs that pass the check digit test", () => {
+    for (const n of [1, 99, 123456, 1234567]) {
+      assert.equal(hasValidCheckDigit(formatPatientId(n, 'RH')), true);
+    }
+  });
+});
@@ -0,0 +1,20 @@
+import { luhnCheckDigit } from "@shared/patient-ids";
+
+// Patient IDs look like RH-000123-4: a facility/district prefix, a number
+// from the patient_number_seq sequence, and a Luhn check digit so a mistyped
+// ID is caught at the keyboard instead of matching the wrong patient.
+//
+// IDs issued before this scheme (RH000123) have no check digit; they stay
+// valid as stored and are looked up exactly like any other ID. The check
+// digit rules live in shared/patient-ids.ts, and patient search and the
+// search boxes use them to reject a current-format ID whose digit is wrong.
+
+// e.g. PATIENT_ID_PREFIX=KA-BLR for a district-specific series
+export const patientIdPrefix = (process.env.PATIENT_ID_PREFIX || 'RH').toUpperCase();
+
+const NUMBER_WIDTH = 6;
+
+export function formatPatientId(sequenceNumber: number, prefix = patientIdPrefix): string {
+  const digits = String(sequenceNumber).padStart(NUMBER_WIDTH, '0');
+  return `${prefix}-${digits}-${luhnCheckDigit(digits)}`;
+}
@@ -0,0 +1,28 @@
+import type { InsertPatient } from "@shared/schema";
+import { storage } from "./storage";
+
+// Readies a new patient for createPatient, the same way for the registration
+// route and offline sync: the village must be a village, and a newborn
+// registered from the mother's record joins her household and, unless the
+// worker chose one, her village. Returns why the registration is refused,
+// or null.
+export async function prepareRegistration(
+  data: InsertPatient,
+  motherId: number | undefined,
+  userId: number,
+): Promise<string | null> {
+  if (data.villageId && !(await storage.isLocationAtLevel(data.villageId, ['village']))) {
+    return "Patients can only be assigned to a village";
+  }
+  if (motherId) {
+    const mother = await storage.getPatient(motherId);
+    if (!mother) {
+      return "Mother not found";
+    }
+    const household = await storage.ensureHousehold(mother, userId);
+    data.householdId = household.id;
+    data.relationship = 'child';
+    data.villageId ??= mother.villageId;
+  }
+  return null;
+}
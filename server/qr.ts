@@ -0,0 +1,25 @@
+import QRCode from "qrcode";
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrRenderOptions {
+  errorCorrectionLevel?: QrErrorCorrection;
+  margin?: number; // quiet zone, in modules; the QR spec asks for at least 4
+  size?: number; // output width in pixels
+}
+
+const DEFAULT_OPTIONS = {
+  errorCorrectionLevel: 'M' as QrErrorCorrection,
+  margin: 4,
+  size: 300,
+};
+
+export async function renderQrSvg(data: string, options: QrRenderOptions = {}): Promise<string> {
+  const { errorCorrectionLevel, margin, size } = { ...DEFAULT_OPTIONS, ...options };
+  return QRCode.toString(data, { type: 'svg', errorCorrectionLevel, margin, width: size });
+}
+
+export async function renderQrPng(data: string, options: QrRenderOptions = {}): Promise<Buffer> {
+  const { errorCorrectionLevel, margin, size } = { ...DEFAULT_OPTIONS, ...options };
+  return QRCode.toBuffer(data, { type: 'png', errorCorrectionLevel, margin, width: size });
+}
@@ -1,12 +1,64 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, InsufficientStockError, InvalidCursorError, InvalidPatientIdError, OutOfScopeError, PatientStatusConflictError, VersionConflictError } from "./storage";
+import { runWithScope, runUnscoped } from "./access-scope";
+import {
+  VACCINATION_STATUS_JOB,
+  missedGraceDays,
+  getNextStatusJobRun,
+  runVaccinationStatusJob,
+} from "./jobs";
+import { generateVerificationCode, digestDoses, renderCertificatePdf } from "./certificate";
+import { renderQrSvg, renderQrPng, type QrErrorCorrection } from "./qr";
+import { renderHealthCardSheets } from "./health-cards";
+import { decodeCardToken, verifyCardToken, type CardTokenCheck } from "./card-token";
+import { checkNewVaccination, checkVaccinationTransition } from "./vaccination-rules";
+import { prepareRegistration } from "./patient-registration";
+import { applySyncMutation } from "./sync";
+import type { JsonWebKey } from "crypto";
 import session from "express-session";
 import MemoryStore from "memorystore";
 import bcrypt from "bcryptjs";
-import { insertUserSchema, insertPatientSchema, insertVaccinationSchema, insertAppointmentSchema } from "@shared/schema";
+import { insertUserSchema, updateUserSchema, insertLocationSchema, locationLevels, facilityLevels, registerPatientSchema, updatePatientSchema, closePatientSchema, patientStatuses, insertVaccineSchema, insertVaccinationSchema, insertAppointmentSchema, insertScheduleTemplateSchema, insertVaccineLotSchema, insertStockTransactionSchema, insertStorageUnitSchema, insertTemperatureReadingSchema, insertAefiReportSchema, vaccinationTransitionSchema, vaccinationDateRangeSchema, healthCardSelectionSchema, syncRequestSchema, insertHouseholdSchema, householdMemberSchema, duplicateCheckSchema, patientMergeSchema, patientTransferRequestSchema, rolePermissionsSchema, userRoles, readingSession, type InsertPatient, type InsertTemperatureReading, type PatientStatus, type LocationLevel, type Permission, type UserRole } from "@shared/schema";
+import { isMistypedPatientId } from "@shared/patient-ids";
 import "./types";
 
+// Largest batch of health cards printed in one PDF
+const MAX_CARD_PATIENTS = 1000;
+
+// ?status= on patient lists: one of patientStatuses or 'all', default 'active'.
+// Returns undefined for anything else.
+function parsePatientStatus(value: unknown): PatientStatus | 'all' | undefined {
+  if (value === undefined || value === '') {
+    return 'active';
+  }
+  return value === 'all' || patientStatuses.includes(value as PatientStatus)
+    ? value as PatientStatus | 'all'
+    : undefined;
+}
+
+const LOCATION_LEVEL_NAMES: Record<LocationLevel, string> = {
+  district: 'district',
+  block: 'block',
+  phc: 'PHC',
+  sub_centre: 'sub-centre',
+  village: 'village',
+};
+
+// A location's parent must be at the level directly above it; districts have
+// none. Returns the problem, or null if the parent fits.
+async function checkLocationParent(level: LocationLevel, parentId: number | null | undefined): Promise<string | null> {
+  const parentLevel = locationLevels[locationLevels.indexOf(level) - 1];
+  if (!parentLevel) {
+    return parentId ? "A district has no parent location" : null;
+  }
+  const parent = parentId ? await storage.getLocation(parentId) : undefined;
+  if (!parent || parent.level !== parentLevel) {
+    return `A ${LOCATION_LEVEL_NAMES[level]} must belong to a ${LOCATION_LEVEL_NAMES[parentLevel]}`;
+  }
+  return null;
+}
+
 // Simple auth middleware
 const requireAuth = async (req: any, res: any, next: any) => {
   console.log('Session check:', { 
@@ -20,14 +72,27 @@ const requireAuth = async (req: any, res: any, next: any) => {
   }
   
   // Verify user still exists and is active
-  const user = await storage.getUser(req.session.userId);
-  if (!user || !user.isActive) {
-    req.session.destroy(() => {});
-    return res.status(401).json({ message: "Unauthorized" });
+  let user;
+  let scope;
+  try {
+    user = await storage.getUser(req.session.userId);
+    if (!user || !user.isActive) {
+      req.session.destroy(() => {});
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    // Everything the route reads or writes through storage is limited to the
+    // patients in the user's area; see access-scope.ts
+    scope = await storage.getAccessScope(user);
+  } catch (error) {
+    console.error("Check session error:", error);
+    return res.status(500).json({ message: "Failed to check session" });
   }
-  
+
   req.user = user;
-  next();
+  if (!scope) {
+    return next();
+  }
+  runWithScope(scope, next);
 };
 
 const requireAdmin = async (req: any, res: any, next: any) => {
@@ -35,7 +100,13 @@ const requireAdmin = async (req: any, res: any, next: any) => {
     return res.status(401).json({ message: "Unauthorized" });
   }
   
-  const user = await storage.getUser(req.session.userId);
+  let user;
+  try {
+    user = await storage.getUser(req.session.userId);
+  } catch (error) {
+    console.error("Check session error:", error);
+    return res.status(500).json({ message: "Failed to check session" });
+  }
   if (!user || user.role !== 'admin') {
     return res.status(403).json({ message: "Admin access required" });
   }
@@ -43,6 +114,73 @@ const requireAdmin = async (req: any, res: any, next: any) => {
   next();
 };
 
+// For actions the permission matrix controls, e.g. requirePermission('register_patient').
+// Admins have every permission.
+const requirePermission = (permission: Permission) => (req: any, res: any, next: any) =>
+  requireAuth(req, res, async () => {
+    let permissions: readonly Permission[];
+    try {
+      permissions = await storage.getPermissionsForRole(req.user.role);
+    } catch (error) {
+      console.error("Check permission error:", error);
+      return res.status(500).json({ message: "Failed to check permissions" });
+    }
+    if (!permissions.includes(permission)) {
+      return res.status(403).json({ message: "You don't have permission to do this" });
+    }
+    next();
+  });
+
+// Reports are shown on screen (?format=json) with view_reports; downloading
+// one as a file also needs export_data
+const requireReportAccess = (req: any, res: any, next: any) =>
+  requirePermission(req.query.format === 'json' ? 'view_reports' : 'export_data')(req, res, next);
+
+// ?locationId= on lists, stats and reports limits them to a district, block,
+// PHC, sub-centre or village and everything below it
+const locationFilter = (req: any, res: any, next: any) => {
+  const { locationId } = req.query;
+  if (locationId === undefined || locationId === '') {
+    return next();
+  }
+  const id = Number(locationId);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ message: "locationId must be a location id" });
+  }
+  req.locationId = id;
+  next();
+};
+
+// Parses data logger exports of "timestamp,temperature" rows. Timestamps must
+// be ISO with a timezone offset. A header row is skipped; any other row that
+// doesn't parse is reported by its 1-based line number.
+const parseTemperatureCsv = (
+  csv: string,
+  storageUnitId: number,
+): { readings: InsertTemperatureReading[]; rejectedLines: number[] } => {
+  const readings: InsertTemperatureReading[] = [];
+  const rejectedLines: number[] = [];
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().length === 0) return;
+    const [timestamp = '', temperature = ''] = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const parsed = insertTemperatureReadingSchema.safeParse({
+      storageUnitId,
+      readingAt: timestamp,
+      session: readingSession(timestamp),
+      temperature: temperature === '' ? NaN : Number(temperature),
+      source: 'logger',
+    });
+    if (parsed.success) {
+      readings.push(parsed.data);
+    } else if (index > 0 || !isNaN(Date.parse(timestamp)) || !isNaN(parseFloat(temperature))) {
+      rejectedLines.push(index + 1);
+    }
+  });
+
+  return { readings, rejectedLines };
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session setup
   const sessionStore = MemoryStore(session);
@@ -59,302 +197,1612 @@ export async function registerRoutes(app: Express): Promise<Server> {
       httpOnly: true,
       maxAge: 24 * 60 * 60 * 1000 // 24 hours
     }
-  }));
+  }));
+
+  // Auth routes
+  app.post("/api/auth/signup", async (req, res) => {
+    try {
+      const { username, password, name, email, phone, isFirstUser } = req.body;
+      
+      if (!username || !password || !name) {
+        return res.status(400).json({ message: "Username, password, and name are required" });
+      }
+
+      // Check if user already exists
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      // Check if this is the first user (make them admin)
+      const allUsers = await storage.getAllUsers();
+      const role = allUsers.length === 0 || isFirstUser ? 'admin' : 'health_worker';
+
+      const newUser = await storage.createUser({
+        username,
+        password,
+        name,
+        email: email || null,
+        phone: phone || null,
+        role,
+        isActive: true,
+      });
+
+      req.session.userId = newUser.id;
+      console.log('Setting session userId:', newUser.id);
+      
+      req.session.save((err) => {
+        if (err) {
+          console.error('Session save error:', err);
+        } else {
+          console.log('Session saved successfully with userId:', req.session.userId);
+        }
+      });
+      
+      const { password: _, ...userWithoutPassword } = newUser;
+      res.json({ user: userWithoutPassword });
+    } catch (error) {
+      console.error("Signup error:", error);
+      res.status(500).json({ message: "Signup failed" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const { username, password } = req.body;
+      
+      if (!username || !password) {
+        return res.status(400).json({ message: "Username and password are required" });
+      }
+
+      const user = await storage.getUserByUsername(username);
+      if (!user || !user.isActive) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      const isValidPassword = await bcrypt.compare(password, user.password);
+      if (!isValidPassword) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      req.session.userId = user.id;
+      req.session.save((err) => {
+        if (err) console.error('Session save error:', err);
+      });
+      const { password: _, ...userWithoutPassword } = user;
+      res.json({ user: userWithoutPassword });
+    } catch (error) {
+      console.error("Login error:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Logout failed" });
+      }
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  app.get("/api/auth/user", requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+      const { password: _, ...userWithoutPassword } = user;
+      const permissions = await storage.getPermissionsForRole(user.role);
+      res.json({ ...userWithoutPassword, permissions });
+    } catch (error) {
+      console.error("Get user error:", error);
+      res.status(500).json({ message: "Failed to get user" });
+    }
+  });
+
+  app.get("/api/auth/setup", async (req, res) => {
+    try {
+      const allUsers = await storage.getAllUsers();
+      res.json({ needsSetup: allUsers.length === 0 });
+    } catch (error) {
+      console.error("Setup check error:", error);
+      res.status(500).json({ message: "Failed to check setup status" });
+    }
+  });
+
+  // User management routes (Admin only)
+  app.get("/api/users", requirePermission('manage_users'), locationFilter, async (req: any, res) => {
+    try {
+      const users = await storage.getAllUsers(req.locationId);
+      const usersWithoutPasswords = users.map(({ password, ...user }) => user);
+      res.json(usersWithoutPasswords);
+    } catch (error) {
+      console.error("Get users error:", error);
+      res.status(500).json({ message: "Failed to get users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission('manage_users'), async (req: any, res) => {
+    try {
+      const parsed = insertUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const validatedData = parsed.data;
+      if (validatedData.role === 'admin' && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Only administrators can create administrators" });
+      }
+      if (validatedData.facilityId && !(await storage.isLocationAtLevel(validatedData.facilityId, facilityLevels))) {
+        return res.status(400).json({ message: "Users can only be assigned to a PHC or sub-centre" });
+      }
+      const user = await storage.createUser(validatedData);
+      const { password: _, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error("Create user error:", error);
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.put("/api/users/:id", requirePermission('manage_users'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = updateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const updates = parsed.data;
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      // Managing users doesn't extend to administrators or making new ones,
+      // nor to widening one's own access
+      if (req.user.role !== 'admin') {
+        if (existing.role === 'admin' || updates.role === 'admin') {
+          return res.status(403).json({ message: "Only administrators can change administrators" });
+        }
+        const ownAccessChanged = id === req.user.id && (
+          (updates.role !== undefined && updates.role !== existing.role) ||
+          (updates.facilityId !== undefined && updates.facilityId !== existing.facilityId) ||
+          (updates.isActive !== undefined && updates.isActive !== existing.isActive) ||
+          updates.password !== undefined
+        );
+        if (ownAccessChanged) {
+          return res.status(403).json({ message: "Ask an administrator to change your own role, facility, status or password" });
+        }
+      }
+      if (updates.facilityId && !(await storage.isLocationAtLevel(updates.facilityId, facilityLevels))) {
+        return res.status(400).json({ message: "Users can only be assigned to a PHC or sub-centre" });
+      }
+      const user = await storage.updateUser(id, updates);
+      const { password: _, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error("Update user error:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // Role permission routes
+  app.get("/api/permissions", requireAdmin, async (req, res) => {
+    try {
+      const matrix = await storage.getRolePermissions();
+      res.json(matrix);
+    } catch (error) {
+      console.error("Get role permissions error:", error);
+      res.status(500).json({ message: "Failed to get role permissions" });
+    }
+  });
+
+  // Replaces everything a role may do. Administrators always have every permission.
+  app.put("/api/permissions/:role", requireAdmin, async (req: any, res) => {
+    try {
+      const role = req.params.role as UserRole;
+      if (!userRoles.includes(role) || role === 'admin') {
+        return res.status(400).json({ message: "Unknown role" });
+      }
+      const parsed = rolePermissionsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const row = await storage.setRolePermissions(role, parsed.data.permissions, req.session.userId);
+      res.json(row);
+    } catch (error) {
+      console.error("Update role permissions error:", error);
+      res.status(500).json({ message: "Failed to update role permissions" });
+    }
+  });
+
+  // Location routes
+  app.get("/api/locations", requireAuth, async (req, res) => {
+    try {
+      const { level, parentId } = req.query;
+      if (level && !locationLevels.includes(level as LocationLevel)) {
+        return res.status(400).json({ message: "Invalid location level" });
+      }
+      const locations = await storage.getLocations({
+        level: level as LocationLevel | undefined,
+        parentId: parentId ? parseInt(parentId as string) : undefined,
+      });
+      res.json(locations);
+    } catch (error) {
+      console.error("Get locations error:", error);
+      res.status(500).json({ message: "Failed to get locations" });
+    }
+  });
+
+  // The location with its ancestors, district first, for breadcrumbs
+  app.get("/api/locations/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const path = await storage.getLocationPath(id);
+      if (path.length === 0) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      res.json({ ...path[path.length - 1], path });
+    } catch (error) {
+      console.error("Get location error:", error);
+      res.status(500).json({ message: "Failed to get location" });
+    }
+  });
+
+  app.post("/api/locations", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertLocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const problem = await checkLocationParent(parsed.data.level, parsed.data.parentId);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const location = await storage.createLocation(parsed.data);
+      res.json(location);
+    } catch (error) {
+      console.error("Create location error:", error);
+      res.status(500).json({ message: "Failed to create location" });
+    }
+  });
+
+  // The level can't change, since the locations below depend on it; moving a
+  // location to a new parent is allowed
+  app.put("/api/locations/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = insertLocationSchema.omit({ level: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const location = await storage.getLocation(id);
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      if (parsed.data.parentId !== undefined) {
+        const problem = await checkLocationParent(location.level as LocationLevel, parsed.data.parentId);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+      const updated = await storage.updateLocation(id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Update location error:", error);
+      res.status(500).json({ message: "Failed to update location" });
+    }
+  });
+
+  // Patient routes
+  app.get("/api/patients", requireAuth, locationFilter, async (req: any, res) => {
+    try {
+      const { limit = 50, offset = 0 } = req.query;
+      const status = parsePatientStatus(req.query.status);
+      if (!status) {
+        return res.status(400).json({ message: "Invalid patient status" });
+      }
+      const patients = await storage.getAllPatients(
+        parseInt(limit as string),
+        parseInt(offset as string),
+        status,
+        req.locationId
+      );
+      res.json(patients);
+    } catch (error) {
+      console.error("Get patients error:", error);
+      res.status(500).json({ message: "Failed to get patients" });
+    }
+  });
+
+  app.get("/api/patients/search", requireAuth, locationFilter, async (req: any, res) => {
+    try {
+      const { q } = req.query;
+      if (!q || typeof q !== 'string') {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+      if (isMistypedPatientId(q)) {
+        return res.status(400).json({ message: "The patient ID's check digit doesn't match; check it was typed correctly" });
+      }
+      const status = parsePatientStatus(req.query.status);
+      if (!status) {
+        return res.status(400).json({ message: "Invalid patient status" });
+      }
+      const patients = await storage.searchPatients(q, status, req.locationId);
+      res.json(patients);
+    } catch (error) {
+      console.error("Search patients error:", error);
+      res.status(500).json({ message: "Failed to search patients" });
+    }
+  });
+
+  // Existing patients who look like the one being registered, so the form
+  // can warn before a second record is created
+  app.post("/api/patients/duplicates", requireAuth, async (req, res) => {
+    try {
+      const parsed = duplicateCheckSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const matches = await storage.findPossibleDuplicates(parsed.data);
+      res.json(matches);
+    } catch (error) {
+      console.error("Find duplicate patients error:", error);
+      res.status(500).json({ message: "Failed to check for duplicate patients" });
+    }
+  });
+
+  // Merges a duplicate registration into the record that is kept
+  app.post("/api/patients/merge", requireAdmin, async (req: any, res) => {
+    try {
+      const parsed = patientMergeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { survivorId, retiredId } = parsed.data;
+      const [survivor, retired] = await Promise.all([storage.getPatient(survivorId), storage.getPatient(retiredId)]);
+      if (!survivor || !retired) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const result = await storage.mergePatients(survivorId, retiredId, req.session.userId);
+      res.json(result);
+    } catch (error) {
+      console.error("Merge patients error:", error);
+      res.status(500).json({ message: "Failed to merge patients" });
+    }
+  });
+
+  app.get("/api/patients/recent-scans", requireAuth, async (req: any, res) => {
+    try {
+      const limit = Math.max(1, Math.min(parseInt(req.query.limit as string) || 10, 50));
+      const scans = await storage.getRecentScans(req.session.userId, limit);
+      res.json(scans);
+    } catch (error) {
+      console.error("Get recent scans error:", error);
+      res.status(500).json({ message: "Failed to get recent scans" });
+    }
+  });
+
+  app.get("/api/patients/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      let patient = await storage.getPatient(id);
+      if (!patient) {
+        // Links to a record merged into another open the surviving patient
+        const merge = await storage.getPatientMerge({ id });
+        patient = merge ? await storage.getPatient(merge.survivorId) : undefined;
+      }
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
+    } catch (error) {
+      console.error("Get patient error:", error);
+      res.status(500).json({ message: "Failed to get patient" });
+    }
+  });
+
+  app.get("/api/patients/qr/:qrCode", requireAuth, async (req: any, res) => {
+    try {
+      const { qrCode } = req.params;
+      const patient = await storage.getPatientByQRCode(qrCode);
+      if (!patient) {
+        // A real card for a patient registered in someone else's area: say
+        // where they belong so the worker can ask for them to be transferred
+        const elsewhere = await storage.getPatientArea({ qrCode });
+        if (elsewhere) {
+          return res.status(403).json({
+            message: "This patient belongs to another area",
+            outOfScope: true,
+            patient: { id: elsewhere.patient.id, patientId: elsewhere.patient.patientId },
+            area: [...elsewhere.area].reverse().map(location => location.name).join(', ') || null,
+          });
+        }
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      await storage.recordQrScan({
+        patientId: patient.id,
+        userId: req.session.userId,
+        device: req.get('user-agent')?.slice(0, 255) ?? null,
+      });
+      res.json(patient);
+    } catch (error) {
+      console.error("Get patient by QR error:", error);
+      res.status(500).json({ message: "Failed to get patient by QR code" });
+    }
+  });
+
+  // Checks a scanned card: signature, signing key, and whether it is still the
+  // patient's current card (reissuing a lost card revokes the old one)
+  app.post("/api/patients/qr/verify", requireAuth, async (req, res) => {
+    try {
+      const { code } = req.body;
+      if (typeof code !== 'string' || !code) {
+        return res.status(400).json({ message: "code is required" });
+      }
+
+      const payload = decodeCardToken(code);
+      const key = payload ? await storage.getSigningKey(payload.k) : undefined;
+      const check: CardTokenCheck = !payload
+        ? { valid: false, reason: "Not a signed health card" }
+        : !key
+          ? { valid: false, reason: "Unknown signing key", payload }
+          : verifyCardToken(code, key.publicKey as JsonWebKey);
+
+      // Whether the card is current doesn't depend on whose area the patient is in
+      const patient = check.valid ? await runUnscoped(() => storage.getPatientByPatientId(check.payload.p)) : undefined;
+      // A card for a record merged into another still identifies the patient
+      const merge = check.valid && patient?.qrCode !== code ? await storage.getPatientMerge({ qrCode: code }) : undefined;
+      res.json({
+        valid: check.valid,
+        reason: check.valid ? undefined : check.reason,
+        revoked: check.valid && patient?.qrCode !== code && !merge,
+        mergedInto: merge ? patient?.patientId : undefined,
+        patientId: check.payload?.p,
+        issuedAt: check.payload?.i,
+        keyId: check.payload?.k,
+      });
+    } catch (error) {
+      console.error("Verify QR code error:", error);
+      res.status(500).json({ message: "Failed to verify QR code" });
+    }
+  });
+
+  app.get("/api/patients/:id/scans", requireAdmin, async (req, res) => {
+    try {
+      const scans = await storage.getPatientScans(parseInt(req.params.id));
+      res.json(scans);
+    } catch (error) {
+      console.error("Get patient scans error:", error);
+      res.status(500).json({ message: "Failed to get patient scan log" });
+    }
+  });
+
+  app.post("/api/patients/:id/qr/reissue", requirePermission('edit_patient'), async (req, res) => {
+    try {
+      const patient = await storage.reissuePatientQrCode(parseInt(req.params.id));
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
+    } catch (error) {
+      console.error("Reissue QR code error:", error);
+      res.status(500).json({ message: "Failed to reissue QR code" });
+    }
+  });
+
+  // Health card QR code image, e.g. /api/patients/12/qr.png?ecl=Q&size=600&download=1
+  app.get("/api/patients/:id/qr.:format(svg|png)", requireAuth, async (req, res) => {
+    try {
+      const { ecl = 'M', margin, size, download } = req.query;
+      if (!['L', 'M', 'Q', 'H'].includes(ecl as string)) {
+        return res.status(400).json({ message: "ecl must be one of L, M, Q, H" });
+      }
+      const marginValue = margin !== undefined ? parseInt(margin as string) : 4;
+      if (isNaN(marginValue) || marginValue < 0 || marginValue > 16) {
+        return res.status(400).json({ message: "margin must be between 0 and 16" });
+      }
+      const sizeValue = size !== undefined ? parseInt(size as string) : 300;
+      if (isNaN(sizeValue) || sizeValue < 64 || sizeValue > 2048) {
+        return res.status(400).json({ message: "size must be between 64 and 2048" });
+      }
+
+      const patient = await storage.getPatient(parseInt(req.params.id));
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      if (!patient.qrCode) {
+        return res.status(404).json({ message: "Patient has no QR code" });
+      }
+
+      const options = {
+        errorCorrectionLevel: ecl as QrErrorCorrection,
+        margin: marginValue,
+        size: sizeValue,
+      };
+      const format = req.params.format;
+      const disposition = download ? 'attachment' : 'inline';
+      res.setHeader('Content-Disposition', `${disposition}; filename="${patient.patientId}-qr-code.${format}"`);
+
+      if (format === 'svg') {
+        res.setHeader('Content-Type', 'image/svg+xml');
+        res.send(await renderQrSvg(patient.qrCode, options));
+      } else {
+        res.setHeader('Content-Type', 'image/png');
+        res.send(await renderQrPng(patient.qrCode, options));
+      }
+    } catch (error) {
+      console.error("Generate patient QR error:", error);
+      res.status(500).json({ message: "Failed to generate QR code" });
+    }
+  });
+
+  // Printable A4 sheets of health cards for a batch of patients
+  app.post("/api/patients/cards.pdf", requireAuth, async (req, res) => {
+    try {
+      const parsed = healthCardSelectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      // One more than allowed is enough to tell the selection is too big
+      const patients = await storage.getPatientsForCards(parsed.data, MAX_CARD_PATIENTS + 1);
+      if (patients.length === 0) {
+        return res.status(404).json({ message: "No patients match the selection" });
+      }
+      if (patients.length > MAX_CARD_PATIENTS) {
+        return res.status(400).json({ message: `Too many patients selected; narrow the selection to ${MAX_CARD_PATIENTS} or fewer` });
+      }
+
+      const pdf = await renderHealthCardSheets(patients);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="health_cards_${new Date().toISOString().split('T')[0]}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Generate health cards error:", error);
+      res.status(500).json({ message: "Failed to generate health cards" });
+    }
+  });
+
+  // Hands the device a block of patient IDs to assign while offline
+  app.post("/api/patient-ids/reserve", requirePermission('register_patient'), async (req: any, res) => {
+    try {
+      const count = req.body.count ?? 20;
+      if (!Number.isInteger(count) || count < 1 || count > 200) {
+        return res.status(400).json({ message: "count must be between 1 and 200" });
+      }
+      const reservations = await storage.reservePatientIds(req.session.userId, count);
+      res.json({ patientIds: reservations.map(r => r.patientId) });
+    } catch (error) {
+      console.error("Reserve patient IDs error:", error);
+      res.status(500).json({ message: "Failed to reserve patient IDs" });
+    }
+  });
+
+  app.post("/api/patients", requirePermission('register_patient'), async (req: any, res) => {
+    try {
+      const parsed = registerPatientSchema.safeParse({
+        ...req.body,
+        createdBy: req.session.userId,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const validatedData: InsertPatient = parsed.data;
+      const motherId = req.body.motherId ? parseInt(req.body.motherId) : undefined;
+      const refusal = await prepareRegistration(validatedData, motherId, req.session.userId);
+      if (refusal) {
+        return res.status(400).json({ message: refusal });
+      }
+      // Set when the worker assigned one of their reserved IDs on the device
+      const { patientId } = req.body;
+      const patient = await storage.createPatient(validatedData, typeof patientId === 'string' ? patientId : undefined);
+      res.json(patient);
+    } catch (error) {
+      if (error instanceof InvalidPatientIdError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof OutOfScopeError) {
+        return res.status(403).json({ message: error.message });
+      }
+      console.error("Create patient error:", error);
+      res.status(500).json({ message: "Failed to create patient" });
+    }
+  });
+
+  app.put("/api/patients/:id", requirePermission('edit_patient'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // The version the edit was made against; if someone else has saved
+      // since, the client gets 409 instead of overwriting their edit
+      const { baseVersion, ...body } = req.body;
+      if (!Number.isInteger(baseVersion)) {
+        return res.status(400).json({ message: "baseVersion is required and must be an integer" });
+      }
+      const parsed = updatePatientSchema.safeParse(body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (parsed.data.villageId && !(await storage.isLocationAtLevel(parsed.data.villageId, ['village']))) {
+        return res.status(400).json({ message: "Patients can only be assigned to a village" });
+      }
+      const patient = await storage.updatePatient(id, parsed.data, baseVersion, req.session.userId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      if (error instanceof OutOfScopeError) {
+        return res.status(403).json({ message: error.message });
+      }
+      console.error("Update patient error:", error);
+      res.status(500).json({ message: "Failed to update patient" });
+    }
+  });
+
+  // Closes the record of a patient who died, moved away, or was registered
+  // twice or in error. The record is kept but drops out of lists and schedules.
+  app.post("/api/patients/:id/close", requirePermission('edit_patient'), async (req: any, res) => {
+    try {
+      const parsed = closePatientSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const today = new Date().toISOString().split('T')[0];
+      if (parsed.data.statusDate > today) {
+        return res.status(400).json({ message: "Date cannot be in the future" });
+      }
+      const patient = await storage.closePatient(parseInt(req.params.id), parsed.data, req.session.userId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
+    } catch (error) {
+      if (error instanceof PatientStatusConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Close patient error:", error);
+      res.status(500).json({ message: "Failed to close patient record" });
+    }
+  });
+
+  app.post("/api/patients/:id/restore", requireAdmin, async (req: any, res) => {
+    try {
+      const patient = await storage.restorePatient(parseInt(req.params.id), req.session.userId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
+    } catch (error) {
+      if (error instanceof PatientStatusConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Restore patient error:", error);
+      res.status(500).json({ message: "Failed to restore patient record" });
+    }
+  });
+
+  // Asks for a patient registered in another area to be moved to a village
+  // in the requester's own; decided by a user who covers the patient's village
+  app.post("/api/patients/:id/transfers", requirePermission('edit_patient'), async (req: any, res) => {
+    try {
+      const parsed = patientTransferRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (!(await storage.isLocationAtLevel(parsed.data.toVillageId, ['village']))) {
+        return res.status(400).json({ message: "Patients can only be assigned to a village" });
+      }
+      const id = parseInt(req.params.id);
+      if (await storage.getPatient(id)) {
+        return res.status(409).json({ message: "This patient is already in your area" });
+      }
+      const elsewhere = await storage.getPatientArea({ id });
+      if (!elsewhere) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const transfer = await storage.requestPatientTransfer(elsewhere.patient, parsed.data, req.session.userId);
+      res.status(201).json(transfer);
+    } catch (error) {
+      if (error instanceof OutOfScopeError) {
+        return res.status(403).json({ message: error.message });
+      }
+      console.error("Request patient transfer error:", error);
+      res.status(500).json({ message: "Failed to request patient transfer" });
+    }
+  });
+
+  app.get("/api/transfers", requireAuth, async (req: any, res) => {
+    try {
+      const transfers = await storage.getPendingPatientTransfers(req.session.userId);
+      res.json(transfers);
+    } catch (error) {
+      console.error("Get patient transfers error:", error);
+      res.status(500).json({ message: "Failed to get patient transfers" });
+    }
+  });
+
+  app.post("/api/transfers/:id/:decision(approve|reject)", requirePermission('edit_patient'), async (req: any, res) => {
+    try {
+      const transfer = await storage.getPatientTransfer(parseInt(req.params.id));
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer request not found" });
+      }
+      if (transfer.status !== 'pending') {
+        return res.status(409).json({ message: `Transfer request has already been ${transfer.status}` });
+      }
+      const decided = await storage.decidePatientTransfer(transfer, req.params.decision === 'approve', req.session.userId);
+      if (!decided) {
+        return res.status(409).json({ message: "Transfer request has already been decided" });
+      }
+      res.json(decided);
+    } catch (error) {
+      console.error("Decide patient transfer error:", error);
+      res.status(500).json({ message: "Failed to decide patient transfer" });
+    }
+  });
+
+  // Field-by-field edits to the patient, newest first
+  app.get("/api/patients/:id/history", requireAuth, async (req, res) => {
+    try {
+      const changes = await storage.getPatientChanges(parseInt(req.params.id));
+      res.json(changes);
+    } catch (error) {
+      console.error("Get patient history error:", error);
+      res.status(500).json({ message: "Failed to get patient history" });
+    }
+  });
+
+  // Household routes
+  app.get("/api/households", requireAuth, locationFilter, async (req: any, res) => {
+    try {
+      const { village, q } = req.query;
+      const households = await storage.getHouseholds({
+        village: village as string | undefined,
+        search: q as string | undefined,
+        locationId: req.locationId,
+      });
+      res.json(households);
+    } catch (error) {
+      console.error("Get households error:", error);
+      res.status(500).json({ message: "Failed to get households" });
+    }
+  });
+
+  // The household with its members and every member's upcoming doses
+  app.get("/api/households/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const household = await storage.getHousehold(id);
+      if (!household) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      const [members, dueVaccinations] = await Promise.all([
+        storage.getHouseholdMembers(id),
+        storage.getHouseholdDueVaccinations(id),
+      ]);
+      res.json({ ...household, members, dueVaccinations });
+    } catch (error) {
+      console.error("Get household error:", error);
+      res.status(500).json({ message: "Failed to get household" });
+    }
+  });
+
+  app.post("/api/households", requirePermission('edit_patient'), async (req: any, res) => {
+    try {
+      const parsed = insertHouseholdSchema.safeParse({ ...req.body, createdBy: req.session.userId });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (parsed.data.headPatientId) {
+        const head = await storage.getPatient(parsed.data.headPatientId);
+        if (!head) {
+          return res.status(400).json({ message: "Head of household not found" });
+        }
+        if (head.householdId) {
+          return res.status(409).json({ message: `${head.name} already belongs to a household` });
+        }
+      }
+      const household = await storage.createHousehold(parsed.data);
+      res.json(household);
+    } catch (error) {
+      console.error("Create household error:", error);
+      res.status(500).json({ message: "Failed to create household" });
+    }
+  });
+
+  app.put("/api/households/:id", requirePermission('edit_patient'), async (req, res) => {
+    try {
+      const parsed = insertHouseholdSchema.pick({ address: true, village: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const household = await storage.updateHousehold(parseInt(req.params.id), parsed.data);
+      if (!household) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      res.json(household);
+    } catch (error) {
+      console.error("Update household error:", error);
+      res.status(500).json({ message: "Failed to update household" });
+    }
+  });
+
+  // Adds a patient to the household, or changes their relationship
+  app.post("/api/households/:id/members", requirePermission('edit_patient'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = householdMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const household = await storage.getHousehold(id);
+      if (!household) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      const patient = await storage.getPatient(parsed.data.patientId);
+      if (!patient) {
+        return res.status(400).json({ message: "Patient not found" });
+      }
+      if (patient.householdId && patient.householdId !== id) {
+        return res.status(409).json({ message: `${patient.name} already belongs to another household` });
+      }
+      const member = await storage.setHouseholdMember(id, patient.id, parsed.data.relationship);
+      res.json(member);
+    } catch (error) {
+      console.error("Add household member error:", error);
+      res.status(500).json({ message: "Failed to add household member" });
+    }
+  });
+
+  app.delete("/api/households/:id/members/:patientId", requirePermission('edit_patient'), async (req, res) => {
+    try {
+      const member = await storage.removeHouseholdMember(parseInt(req.params.id), parseInt(req.params.patientId));
+      if (!member) {
+        return res.status(404).json({ message: "Patient is not a member of this household" });
+      }
+      res.json(member);
+    } catch (error) {
+      console.error("Remove household member error:", error);
+      res.status(500).json({ message: "Failed to remove household member" });
+    }
+  });
+
+  // Vaccine routes
+  app.get("/api/vaccines", requireAuth, async (req, res) => {
+    try {
+      const { includeInactive } = req.query;
+      const vaccines = await storage.getAllVaccines(includeInactive === 'true');
+      res.json(vaccines);
+    } catch (error) {
+      console.error("Get vaccines error:", error);
+      res.status(500).json({ message: "Failed to get vaccines" });
+    }
+  });
+
+  app.get("/api/vaccines/:id/usage", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pendingDoses = await storage.getPendingVaccinationCount(id);
+      res.json({ pendingDoses });
+    } catch (error) {
+      console.error("Get vaccine usage error:", error);
+      res.status(500).json({ message: "Failed to get vaccine usage" });
+    }
+  });
+
+  app.post("/api/vaccines", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertVaccineSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const vaccine = await storage.createVaccine(parsed.data);
+      res.json(vaccine);
+    } catch (error) {
+      console.error("Create vaccine error:", error);
+      res.status(500).json({ message: "Failed to create vaccine" });
+    }
+  });
+
+  app.put("/api/vaccines/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getVaccine(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Vaccine not found" });
+      }
+      // Checked as a whole, so e.g. a new minimum age is compared with the
+      // maximum already on file
+      const { id: _, ...current } = existing;
+      const parsed = insertVaccineSchema.safeParse({ ...current, ...req.body });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const vaccine = await storage.updateVaccine(id, parsed.data);
+      if (!vaccine) {
+        return res.status(404).json({ message: "Vaccine not found" });
+      }
+      res.json(vaccine);
+    } catch (error) {
+      console.error("Update vaccine error:", error);
+      res.status(500).json({ message: "Failed to update vaccine" });
+    }
+  });
+
+  // Vaccines are deactivated rather than removed so existing records keep their reference
+  app.delete("/api/vaccines/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const vaccine = await storage.updateVaccine(id, { isActive: false });
+      if (!vaccine) {
+        return res.status(404).json({ message: "Vaccine not found" });
+      }
+      const pendingDoses = await storage.getPendingVaccinationCount(id);
+      res.json({ vaccine, pendingDoses });
+    } catch (error) {
+      console.error("Deactivate vaccine error:", error);
+      res.status(500).json({ message: "Failed to deactivate vaccine" });
+    }
+  });
+
+  // Vaccination routes
+  app.get("/api/patients/:id/vaccinations", requireAuth, async (req, res) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      const vaccinations = await storage.getVaccinationsByPatient(patientId);
+      res.json(vaccinations);
+    } catch (error) {
+      console.error("Get vaccinations error:", error);
+      res.status(500).json({ message: "Failed to get vaccinations" });
+    }
+  });
+
+  app.get("/api/vaccinations", requireAuth, locationFilter, async (req: any, res) => {
+    try {
+      const { status, ageGroup, vaccineId, from, to, assignedTo, village, sortBy, order, cursor, limit } = req.query;
+
+      if (sortBy && sortBy !== 'scheduledDate' && sortBy !== 'createdAt') {
+        return res.status(400).json({ message: "sortBy must be scheduledDate or createdAt" });
+      }
+      if (order && order !== 'asc' && order !== 'desc') {
+        return res.status(400).json({ message: "order must be asc or desc" });
+      }
+      const range = vaccinationDateRangeSchema.safeParse({ from: from || undefined, to: to || undefined });
+      if (!range.success) {
+        return res.status(400).json({ message: range.error.errors[0].message });
+      }
+
+      const result = await storage.listVaccinations({
+        status: status as string | undefined,
+        ageGroup: ageGroup as string | undefined,
+        vaccineId: vaccineId ? parseInt(vaccineId as string) : undefined,
+        from: range.data.from,
+        to: range.data.to,
+        assignedTo: assignedTo ? parseInt(assignedTo as string) : undefined,
+        village: village as string | undefined,
+        locationId: req.locationId,
+        sortBy: sortBy as 'scheduledDate' | 'createdAt' | undefined,
+        order: order as 'asc' | 'desc' | undefined,
+        cursor: cursor as string | undefined,
+        limit: limit ? parseInt(limit as string) || undefined : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("List vaccinations error:", error);
+      res.status(500).json({ message: "Failed to list vaccinations" });
+    }
+  });
+
+  app.post("/api/vaccinations", requirePermission('administer_vaccine'), async (req: any, res) => {
+    try {
+      const parsed = insertVaccinationSchema.safeParse({
+        ...req.body,
+        administeredBy: req.session.userId,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const validatedData = parsed.data;
+
+      // New doses start scheduled, or completed when recording past history
+      const rejection = await checkNewVaccination(validatedData);
+      if (rejection) {
+        return res.status(rejection.status).json({ message: rejection.message });
+      }
+      if (validatedData.status !== 'completed') {
+        validatedData.administeredBy = undefined;
+      }
+
+      const vaccination = await storage.createVaccination(validatedData);
+      res.json(vaccination);
+    } catch (error) {
+      if (error instanceof OutOfScopeError) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: "Selected lot has no stock left" });
+      }
+      console.error("Create vaccination error:", error);
+      res.status(500).json({ message: "Failed to create vaccination" });
+    }
+  });
+
+  app.put("/api/vaccinations/:id", requirePermission('administer_vaccine'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { baseVersion, ...body } = req.body;
+      if (baseVersion !== undefined && !Number.isInteger(baseVersion)) {
+        return res.status(400).json({ message: "baseVersion must be an integer" });
+      }
+      const parsed = insertVaccinationSchema.partial().safeParse(body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const updates = parsed.data;
+
+      const statusFields = ['status', 'scheduledDate', 'administeredDate', 'administeredBy', 'lotId', 'lotNumber'] as const;
+      if (statusFields.some(field => field in updates)) {
+        return res.status(400).json({
+          message: "Use the vaccination actions (schedule, administer, miss, cancel, reopen) to change status or dates",
+        });
+      }
+
+      const vaccination = await storage.updateVaccination(id, updates, baseVersion);
+      if (!vaccination) {
+        return res.status(404).json({ message: "Vaccination not found" });
+      }
+      res.json(vaccination);
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      console.error("Update vaccination error:", error);
+      res.status(500).json({ message: "Failed to update vaccination" });
+    }
+  });
+
+  app.post("/api/vaccinations/:id/:action(schedule|administer|miss|cancel|reopen)", requirePermission('administer_vaccine'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = vaccinationTransitionSchema.safeParse({ ...req.body, action: req.params.action });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const transition = parsed.data;
+
+      const vaccination = await storage.getVaccination(id);
+      if (!vaccination) {
+        return res.status(404).json({ message: "Vaccination not found" });
+      }
+
+      const rejection = await checkVaccinationTransition(vaccination, transition);
+      if (rejection) {
+        return res.status(rejection.status).json({ message: rejection.message });
+      }
+
+      const updated = await storage.transitionVaccination(vaccination, transition, req.session.userId);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: "Selected lot has no stock left" });
+      }
+      console.error("Vaccination action error:", error);
+      res.status(500).json({ message: "Failed to update vaccination status" });
+    }
+  });
+
+  app.get("/api/vaccinations/:id/history", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const events = await storage.getVaccinationEvents(id);
+      res.json(events);
+    } catch (error) {
+      console.error("Get vaccination history error:", error);
+      res.status(500).json({ message: "Failed to get vaccination history" });
+    }
+  });
+
+  app.get("/api/vaccinations/stats", requireAuth, locationFilter, async (req: any, res) => {
+    try {
+      const stats = await storage.getVaccinationStats(req.locationId);
+      res.json(stats);
+    } catch (error) {
+      console.error("Get vaccination stats error:", error);
+      res.status(500).json({ message: "Failed to get vaccination stats" });
+    }
+  });
+
+  // Nightly overdue/missed status job
+  app.get("/api/jobs/vaccination-status", requireAdmin, async (req, res) => {
+    try {
+      const lastRun = await storage.getLastJobRun(VACCINATION_STATUS_JOB);
+      res.json({
+        lastRun: lastRun ?? null,
+        nextRunAt: getNextStatusJobRun(),
+        missedGraceDays,
+      });
+    } catch (error) {
+      console.error("Get job status error:", error);
+      res.status(500).json({ message: "Failed to get job status" });
+    }
+  });
+
+  app.post("/api/jobs/vaccination-status/run", requireAdmin, async (req, res) => {
+    try {
+      const run = await runVaccinationStatusJob();
+      res.json(run);
+    } catch (error) {
+      console.error("Run vaccination status job error:", error);
+      res.status(500).json({ message: "Failed to run vaccination status job" });
+    }
+  });
+
+  // Vaccine inventory routes
+  app.get("/api/inventory/lots", requireAuth, locationFilter, async (req: any, res) => {
+    try {
+      const { facility, vaccineId } = req.query;
+      const lots = await storage.getVaccineLots({
+        facility: facility as string | undefined,
+        vaccineId: vaccineId ? parseInt(vaccineId as string) : undefined,
+        locationId: req.locationId,
+      });
+      res.json(lots);
+    } catch (error) {
+      console.error("Get vaccine lots error:", error);
+      res.status(500).json({ message: "Failed to get vaccine lots" });
+    }
+  });
 
-  // Auth routes
-  app.post("/api/auth/signup", async (req, res) => {
+  app.get("/api/inventory/expiring", requireAuth, locationFilter, async (req: any, res) => {
     try {
-      const { username, password, name, email, phone, isFirstUser } = req.body;
-      
-      if (!username || !password || !name) {
-        return res.status(400).json({ message: "Username, password, and name are required" });
-      }
+      const { days = 30 } = req.query;
+      const lots = await storage.getExpiringLots(parseInt(days as string), req.locationId);
+      res.json(lots);
+    } catch (error) {
+      console.error("Get expiring lots error:", error);
+      res.status(500).json({ message: "Failed to get expiring lots" });
+    }
+  });
 
-      // Check if user already exists
-      const existingUser = await storage.getUserByUsername(username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already exists" });
+  app.post("/api/inventory/lots", requirePermission('manage_inventory'), async (req: any, res) => {
+    try {
+      const parsed = insertVaccineLotSchema.safeParse({
+        ...req.body,
+        createdBy: req.session.userId,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
+      const lot = await storage.createVaccineLot(parsed.data);
+      res.json(lot);
+    } catch (error) {
+      console.error("Create vaccine lot error:", error);
+      res.status(500).json({ message: "Failed to create vaccine lot" });
+    }
+  });
 
-      // Check if this is the first user (make them admin)
-      const allUsers = await storage.getAllUsers();
-      const role = allUsers.length === 0 || isFirstUser ? 'admin' : 'health_worker';
-
-      const newUser = await storage.createUser({
-        username,
-        password,
-        name,
-        email: email || null,
-        phone: phone || null,
-        role,
-        isActive: true,
-      });
+  app.put("/api/inventory/lots/:id", requirePermission('manage_inventory'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = insertVaccineLotSchema
+        .pick({ status: true, quarantineReason: true, storageUnitId: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const lot = await storage.updateVaccineLot(id, parsed.data);
+      if (!lot) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.json(lot);
+    } catch (error) {
+      console.error("Update vaccine lot error:", error);
+      res.status(500).json({ message: "Failed to update vaccine lot" });
+    }
+  });
 
-      req.session.userId = newUser.id;
-      console.log('Setting session userId:', newUser.id);
-      
-      req.session.save((err) => {
-        if (err) {
-          console.error('Session save error:', err);
-        } else {
-          console.log('Session saved successfully with userId:', req.session.userId);
-        }
-      });
-      
-      const { password: _, ...userWithoutPassword } = newUser;
-      res.json({ user: userWithoutPassword });
+  app.get("/api/inventory/lots/:id/transactions", requireAuth, async (req, res) => {
+    try {
+      const lotId = parseInt(req.params.id);
+      const transactions = await storage.getStockTransactions(lotId);
+      res.json(transactions);
     } catch (error) {
-      console.error("Signup error:", error);
-      res.status(500).json({ message: "Signup failed" });
+      console.error("Get stock transactions error:", error);
+      res.status(500).json({ message: "Failed to get stock transactions" });
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/inventory/lots/:id/transactions", requirePermission('manage_inventory'), async (req: any, res) => {
     try {
-      const { username, password } = req.body;
-      
-      if (!username || !password) {
-        return res.status(400).json({ message: "Username and password are required" });
+      const lotId = parseInt(req.params.id);
+      const lot = await storage.getVaccineLot(lotId);
+      if (!lot) {
+        return res.status(404).json({ message: "Lot not found" });
       }
 
-      const user = await storage.getUserByUsername(username);
-      if (!user || !user.isActive) {
-        return res.status(401).json({ message: "Invalid credentials" });
+      const parsed = insertStockTransactionSchema.safeParse({
+        ...req.body,
+        lotId,
+        createdBy: req.session.userId,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
-
-      const isValidPassword = await bcrypt.compare(password, user.password);
-      if (!isValidPassword) {
-        return res.status(401).json({ message: "Invalid credentials" });
+      const validatedData = parsed.data;
+      if (validatedData.type !== 'receipt' && validatedData.quantity > lot.quantity) {
+        return res.status(400).json({ message: "Quantity exceeds stock on hand" });
       }
 
-      req.session.userId = user.id;
-      req.session.save((err) => {
-        if (err) console.error('Session save error:', err);
-      });
-      const { password: _, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword });
+      const transaction = await storage.recordStockTransaction(validatedData);
+      res.json(transaction);
     } catch (error) {
-      console.error("Login error:", error);
-      res.status(500).json({ message: "Login failed" });
+      if (error instanceof InsufficientStockError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Record stock transaction error:", error);
+      res.status(500).json({ message: "Failed to record stock transaction" });
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        return res.status(500).json({ message: "Logout failed" });
-      }
-      res.json({ message: "Logged out successfully" });
-    });
+  // Cold chain routes
+  app.get("/api/cold-chain/units", requireAuth, locationFilter, async (req: any, res) => {
+    try {
+      const units = await storage.getStorageUnits(req.locationId);
+      res.json(units);
+    } catch (error) {
+      console.error("Get storage units error:", error);
+      res.status(500).json({ message: "Failed to get storage units" });
+    }
   });
 
-  app.get("/api/auth/user", requireAuth, async (req: any, res) => {
+  app.post("/api/cold-chain/units", requireAdmin, async (req, res) => {
     try {
-      const user = await storage.getUser(req.session.userId);
-      if (!user) {
-        return res.status(401).json({ message: "User not found" });
+      const parsed = insertStorageUnitSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
-      const { password: _, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      const unit = await storage.createStorageUnit(parsed.data);
+      res.json(unit);
     } catch (error) {
-      console.error("Get user error:", error);
-      res.status(500).json({ message: "Failed to get user" });
+      console.error("Create storage unit error:", error);
+      res.status(500).json({ message: "Failed to create storage unit" });
     }
   });
 
-  app.get("/api/auth/setup", async (req, res) => {
+  app.get("/api/cold-chain/units/:id/readings", requireAuth, async (req, res) => {
     try {
-      const allUsers = await storage.getAllUsers();
-      res.json({ needsSetup: allUsers.length === 0 });
+      const id = parseInt(req.params.id);
+      const { limit = 60 } = req.query;
+      const readings = await storage.getTemperatureReadings(id, parseInt(limit as string));
+      res.json(readings);
     } catch (error) {
-      console.error("Setup check error:", error);
-      res.status(500).json({ message: "Failed to check setup status" });
+      console.error("Get temperature readings error:", error);
+      res.status(500).json({ message: "Failed to get temperature readings" });
     }
   });
 
-  // User management routes (Admin only)
-  app.get("/api/users", requireAdmin, async (req, res) => {
+  app.post("/api/cold-chain/units/:id/readings", requirePermission('manage_inventory'), async (req: any, res) => {
     try {
-      const users = await storage.getAllUsers();
-      const usersWithoutPasswords = users.map(({ password, ...user }) => user);
-      res.json(usersWithoutPasswords);
+      const id = parseInt(req.params.id);
+      const unit = await storage.getStorageUnit(id);
+      if (!unit) {
+        return res.status(404).json({ message: "Storage unit not found" });
+      }
+
+      let readings: InsertTemperatureReading[];
+      let rejectedLines: number[] = [];
+      if (typeof req.body.csv === 'string') {
+        ({ readings, rejectedLines } = parseTemperatureCsv(req.body.csv, id));
+        if (readings.length === 0) {
+          return res.status(400).json({ message: "No valid readings found in CSV", rejectedLines });
+        }
+      } else {
+        const parsed = insertTemperatureReadingSchema.safeParse({
+          ...req.body,
+          storageUnitId: id,
+          session: typeof req.body.readingAt === 'string' ? readingSession(req.body.readingAt) : undefined,
+        });
+        if (!parsed.success) {
+          return res.status(400).json({ message: parsed.error.errors[0].message });
+        }
+        readings = [parsed.data];
+      }
+
+      const saved = await storage.recordTemperatureReadings(
+        unit,
+        readings.map(reading => ({ ...reading, recordedBy: req.session.userId })),
+      );
+      const excursions = saved.filter(reading => reading.isExcursion).length;
+      const lotsAtRisk = excursions > 0
+        ? (await storage.getVaccineLots({ storageUnitId: id }))
+          .filter(lot => lot.status === 'available' && lot.expiryDate >= new Date().toISOString().split('T')[0])
+        : [];
+
+      res.json({ recorded: saved.length, excursions, lotsAtRisk, rejectedLines });
     } catch (error) {
-      console.error("Get users error:", error);
-      res.status(500).json({ message: "Failed to get users" });
+      console.error("Record temperature readings error:", error);
+      res.status(500).json({ message: "Failed to record temperature readings" });
     }
   });
 
-  app.post("/api/users", requireAdmin, async (req, res) => {
+  app.get("/api/cold-chain/excursions", requireAuth, locationFilter, async (req: any, res) => {
     try {
-      const validatedData = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(validatedData);
-      const { password: _, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      const { days = 7 } = req.query;
+      const excursions = await storage.getRecentExcursions(parseInt(days as string), req.locationId);
+      res.json(excursions);
     } catch (error) {
-      console.error("Create user error:", error);
-      res.status(500).json({ message: "Failed to create user" });
+      console.error("Get excursions error:", error);
+      res.status(500).json({ message: "Failed to get temperature excursions" });
     }
   });
 
-  app.put("/api/users/:id", requireAdmin, async (req, res) => {
+  app.post("/api/cold-chain/units/:id/quarantine", requirePermission('manage_inventory'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      const user = await storage.updateUser(id, updates);
-      const { password: _, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      const { reason } = req.body;
+      const lots = await storage.quarantineLotsInUnit(id, reason || "Temperature excursion");
+      res.json(lots);
     } catch (error) {
-      console.error("Update user error:", error);
-      res.status(500).json({ message: "Failed to update user" });
+      console.error("Quarantine lots error:", error);
+      res.status(500).json({ message: "Failed to quarantine lots" });
     }
   });
 
-  // Patient routes
-  app.get("/api/patients", requireAuth, async (req, res) => {
+  // Schedule template routes
+  app.get("/api/schedule-templates", requireAuth, async (req, res) => {
     try {
-      const { limit = 50, offset = 0 } = req.query;
-      const patients = await storage.getAllPatients(
-        parseInt(limit as string),
-        parseInt(offset as string)
-      );
-      res.json(patients);
+      const templates = await storage.getAllScheduleTemplates();
+      res.json(templates);
     } catch (error) {
-      console.error("Get patients error:", error);
-      res.status(500).json({ message: "Failed to get patients" });
+      console.error("Get schedule templates error:", error);
+      res.status(500).json({ message: "Failed to get schedule templates" });
     }
   });
 
-  app.get("/api/patients/search", requireAuth, async (req, res) => {
+  app.post("/api/schedule-templates", requireAdmin, async (req, res) => {
     try {
-      const { q } = req.query;
-      if (!q || typeof q !== 'string') {
-        return res.status(400).json({ message: "Search query is required" });
+      const parsed = insertScheduleTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
-      const patients = await storage.searchPatients(q);
-      res.json(patients);
+      const template = await storage.createScheduleTemplate(parsed.data);
+      res.json(template);
     } catch (error) {
-      console.error("Search patients error:", error);
-      res.status(500).json({ message: "Failed to search patients" });
+      console.error("Create schedule template error:", error);
+      res.status(500).json({ message: "Failed to create schedule template" });
     }
   });
 
-  app.get("/api/patients/:id", requireAuth, async (req, res) => {
+  app.put("/api/schedule-templates/:id", requireAdmin, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const patient = await storage.getPatient(id);
-      if (!patient) {
-        return res.status(404).json({ message: "Patient not found" });
+      const parsed = insertScheduleTemplateSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
-      res.json(patient);
+      const template = await storage.updateScheduleTemplate(id, parsed.data);
+      res.json(template);
     } catch (error) {
-      console.error("Get patient error:", error);
-      res.status(500).json({ message: "Failed to get patient" });
+      console.error("Update schedule template error:", error);
+      res.status(500).json({ message: "Failed to update schedule template" });
     }
   });
 
-  app.get("/api/patients/qr/:qrCode", requireAuth, async (req, res) => {
+  app.delete("/api/schedule-templates/:id", requireAdmin, async (req, res) => {
     try {
-      const { qrCode } = req.params;
-      const patient = await storage.getPatientByQRCode(qrCode);
-      if (!patient) {
-        return res.status(404).json({ message: "Patient not found" });
-      }
-      res.json(patient);
+      const id = parseInt(req.params.id);
+      await storage.deleteScheduleTemplate(id);
+      res.json({ message: "Schedule template deleted" });
     } catch (error) {
-      console.error("Get patient by QR error:", error);
-      res.status(500).json({ message: "Failed to get patient by QR code" });
+      console.error("Delete schedule template error:", error);
+      res.status(500).json({ message: "Failed to delete schedule template" });
+    }
+  });
+
+  app.post("/api/schedule-templates/apply", requireAdmin, async (req, res) => {
+    try {
+      const { ageGroup } = req.body;
+      const result = await storage.applyScheduleTemplatesToAll(ageGroup || undefined);
+      res.json(result);
+    } catch (error) {
+      console.error("Apply schedule templates error:", error);
+      res.status(500).json({ message: "Failed to apply schedule templates" });
+    }
+  });
+
+  // AEFI routes
+  app.get("/api/patients/:id/aefi", requireAuth, async (req, res) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      const reports = await storage.getAefiReportsByPatient(patientId);
+      res.json(reports);
+    } catch (error) {
+      console.error("Get AEFI reports error:", error);
+      res.status(500).json({ message: "Failed to get AEFI reports" });
     }
   });
 
-  app.post("/api/patients", requireAuth, async (req: any, res) => {
+  app.post("/api/aefi", requirePermission('administer_vaccine'), async (req: any, res) => {
     try {
-      const validatedData = insertPatientSchema.parse({
+      const vaccinationId = Number(req.body.vaccinationId);
+      if (!Number.isInteger(vaccinationId)) {
+        return res.status(400).json({ message: "vaccinationId is required" });
+      }
+      const vaccination = await storage.getVaccination(vaccinationId);
+      if (!vaccination) {
+        return res.status(404).json({ message: "Vaccination not found" });
+      }
+      if (vaccination.status !== 'completed') {
+        return res.status(400).json({ message: "AEFI can only be reported for an administered dose" });
+      }
+
+      const parsed = insertAefiReportSchema.safeParse({
         ...req.body,
-        createdBy: req.session.userId,
+        vaccinationId: vaccination.id,
+        patientId: vaccination.patientId,
+        reportedBy: req.session.userId,
       });
-      const patient = await storage.createPatient(validatedData);
-      res.json(patient);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const report = await storage.createAefiReport(parsed.data);
+      res.json(report);
     } catch (error) {
-      console.error("Create patient error:", error);
-      res.status(500).json({ message: "Failed to create patient" });
+      console.error("Create AEFI report error:", error);
+      res.status(500).json({ message: "Failed to create AEFI report" });
     }
   });
 
-  app.put("/api/patients/:id", requireAuth, async (req, res) => {
+  app.put("/api/aefi/:id", requirePermission('administer_vaccine'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      const patient = await storage.updatePatient(id, updates);
-      res.json(patient);
+      const parsed = insertAefiReportSchema
+        .omit({ vaccinationId: true, patientId: true, reportedBy: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const report = await storage.updateAefiReport(id, parsed.data);
+      if (!report) {
+        return res.status(404).json({ message: "AEFI report not found" });
+      }
+      res.json(report);
     } catch (error) {
-      console.error("Update patient error:", error);
-      res.status(500).json({ message: "Failed to update patient" });
+      console.error("Update AEFI report error:", error);
+      res.status(500).json({ message: "Failed to update AEFI report" });
     }
   });
 
-  // Vaccine routes
-  app.get("/api/vaccines", requireAuth, async (req, res) => {
+  // QR signing keys. Public keys are published without auth so scanners can
+  // cache them and verify cards offline.
+  app.get("/api/qr-keys", async (req, res) => {
     try {
-      const vaccines = await storage.getAllVaccines();
-      res.json(vaccines);
+      const keys = await storage.getSigningKeys();
+      res.json(keys.map(({ privateKey, ...key }) => key));
     } catch (error) {
-      console.error("Get vaccines error:", error);
-      res.status(500).json({ message: "Failed to get vaccines" });
+      console.error("Get QR keys error:", error);
+      res.status(500).json({ message: "Failed to get QR signing keys" });
     }
   });
 
-  // Vaccination routes
-  app.get("/api/patients/:id/vaccinations", requireAuth, async (req, res) => {
+  app.post("/api/qr-keys/rotate", requireAdmin, async (req, res) => {
     try {
-      const patientId = parseInt(req.params.id);
-      const vaccinations = await storage.getVaccinationsByPatient(patientId);
-      res.json(vaccinations);
+      const { privateKey, ...key } = await storage.rotateSigningKey();
+      res.json(key);
     } catch (error) {
-      console.error("Get vaccinations error:", error);
-      res.status(500).json({ message: "Failed to get vaccinations" });
+      console.error("Rotate QR key error:", error);
+      res.status(500).json({ message: "Failed to rotate QR signing key" });
     }
   });
 
-  app.post("/api/vaccinations", requireAuth, async (req: any, res) => {
+  // Offline sync: applies a device's queued mutations in order, then returns
+  // what changed in the worker's area since the device's last sync
+  app.post("/api/sync", requireAuth, async (req: any, res) => {
     try {
-      const validatedData = insertVaccinationSchema.parse({
-        ...req.body,
-        administeredBy: req.session.userId,
-      });
-      const vaccination = await storage.createVaccination(validatedData);
-      res.json(vaccination);
+      const parsed = syncRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { mutations, since } = parsed.data;
+      const userId = req.session.userId;
+      const permissions = await storage.getPermissionsForRole(req.user.role);
+
+      const results = [];
+      for (const mutation of mutations) {
+        try {
+          results.push(await applySyncMutation(mutation, userId, permissions));
+        } catch (error) {
+          // Not recorded, so the device can retry it with the next batch
+          console.error("Sync mutation error:", mutation.clientId, error);
+          results.push({ clientId: mutation.clientId, status: 'rejected', message: "Failed to apply change" });
+        }
+      }
+
+      // Taken before reading, so rows changed during the read are sent again next time
+      const cursor = new Date();
+      const changes = await storage.getChangesSince(since ? new Date(since) : null);
+      res.json({ results, changes, cursor: cursor.toISOString() });
     } catch (error) {
-      console.error("Create vaccination error:", error);
-      res.status(500).json({ message: "Failed to create vaccination" });
+      console.error("Sync error:", error);
+      res.status(500).json({ message: "Failed to sync" });
     }
   });
 
-  app.put("/api/vaccinations/:id", requireAuth, async (req, res) => {
+  // Vaccination certificate routes
+  app.get("/api/patients/:id/certificate.pdf", requirePermission('administer_vaccine'), async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const updates = req.body;
-      const vaccination = await storage.updateVaccination(id, updates);
-      res.json(vaccination);
+      const patient = await storage.getPatient(parseInt(req.params.id));
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const doses = await storage.getCertificateDoses(patient.id);
+      if (doses.length === 0) {
+        return res.status(400).json({ message: "Patient has no completed vaccinations to certify" });
+      }
+
+      // Downloading again reuses the certificate already issued for these doses
+      const dosesDigest = digestDoses(doses);
+      const certificate = await storage.getCertificateForDoses(patient.id, dosesDigest)
+        ?? await storage.createCertificate({
+          patientId: patient.id,
+          verificationCode: generateVerificationCode(),
+          doseCount: doses.length,
+          dosesDigest,
+          issuedBy: req.session.userId,
+        });
+      const verifyUrl = `${req.protocol}://${req.get('host')}/verify/${certificate.verificationCode}`;
+      const pdf = await renderCertificatePdf(patient, doses, certificate, verifyUrl);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${patient.patientId}_vaccination_certificate.pdf"`);
+      res.send(pdf);
     } catch (error) {
-      console.error("Update vaccination error:", error);
-      res.status(500).json({ message: "Failed to update vaccination" });
+      console.error("Generate certificate error:", error);
+      res.status(500).json({ message: "Failed to generate certificate" });
     }
   });
 
-  app.get("/api/vaccinations/stats", requireAuth, async (req, res) => {
+  // Public: anyone holding a certificate can check it without logging in
+  app.get("/api/certificates/:code/verify", async (req, res) => {
     try {
-      const stats = await storage.getVaccinationStats();
-      res.json(stats);
+      const certificate = await storage.getCertificateByCode(req.params.code);
+      if (!certificate) {
+        return res.status(404).json({ valid: false, message: "Certificate not found" });
+      }
+
+      const patient = await storage.getPatient(certificate.patientId);
+      const doses = await storage.getCertificateDoses(certificate.patientId);
+      res.json({
+        valid: true,
+        issuedAt: certificate.issuedAt,
+        patientId: patient?.patientId,
+        name: patient?.name,
+        doseCount: certificate.doseCount,
+        // False when doses were added or corrected after this certificate was printed
+        upToDate: digestDoses(doses) === certificate.dosesDigest,
+      });
     } catch (error) {
-      console.error("Get vaccination stats error:", error);
-      res.status(500).json({ message: "Failed to get vaccination stats" });
+      console.error("Verify certificate error:", error);
+      res.status(500).json({ message: "Failed to verify certificate" });
     }
   });
 
   // Appointment routes
-  app.get("/api/appointments/today", requireAuth, async (req, res) => {
+  app.get("/api/appointments/today", requireAuth, locationFilter, async (req: any, res) => {
     try {
-      const appointments = await storage.getTodayAppointments();
+      const appointments = await storage.getTodayAppointments(req.locationId);
       res.json(appointments);
     } catch (error) {
       console.error("Get today appointments error:", error);
@@ -362,7 +1810,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/appointments", requireAuth, async (req: any, res) => {
+  app.post("/api/appointments", requirePermission('manage_appointments'), async (req: any, res) => {
     try {
       const validatedData = insertAppointmentSchema.parse({
         ...req.body,
@@ -371,16 +1819,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const appointment = await storage.createAppointment(validatedData);
       res.json(appointment);
     } catch (error) {
+      if (error instanceof OutOfScopeError) {
+        return res.status(403).json({ message: error.message });
+      }
       console.error("Create appointment error:", error);
       res.status(500).json({ message: "Failed to create appointment" });
     }
   });
 
-  app.put("/api/appointments/:id", requireAuth, async (req, res) => {
+  app.put("/api/appointments/:id", requirePermission('manage_appointments'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      const appointment = await storage.updateAppointment(id, updates);
+      const parsed = insertAppointmentSchema
+        .omit({ patientId: true, createdBy: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const appointment = await storage.updateAppointment(id, parsed.data);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
       res.json(appointment);
     } catch (error) {
       console.error("Update appointment error:", error);
@@ -389,11 +1849,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard stats
-  app.get("/api/dashboard/stats", requireAuth, async (req, res) => {
+  app.get("/api/dashboard/stats", requireAuth, locationFilter, async (req: any, res) => {
     try {
       const [patients, vaccinationStats] = await Promise.all([
-        storage.getAllPatients(1000, 0), // Get total count
-        storage.getVaccinationStats(),
+        storage.getAllPatients(1000, 0, 'active', req.locationId), // Get total count
+        storage.getVaccinationStats(req.locationId),
       ]);
 
       res.json({
@@ -407,10 +1867,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Report generation and download endpoints
-  app.get("/api/reports/patients", requireAuth, async (req, res) => {
+  app.get("/api/reports/patients", requireReportAccess, locationFilter, async (req: any, res) => {
     try {
       const { format = 'csv', period = 'all' } = req.query;
-      const patients = await storage.getAllPatients(1000, 0);
+      const patients = await storage.getAllPatients(1000, 0, 'active', req.locationId);
       
       if (format === 'csv') {
         const csvHeader = 'Patient ID,Name,Date of Birth,Gender,Phone,Address,Age Group,Date Registered\n';
@@ -431,10 +1891,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reports/vaccinations", requireAuth, async (req, res) => {
+  app.get("/api/reports/vaccinations", requireReportAccess, locationFilter, async (req: any, res) => {
     try {
       const { format = 'csv', period = 'all' } = req.query;
-      const vaccinations = await storage.getAllVaccinations();
+      const vaccinations = await storage.getAllVaccinations(req.locationId);
       
       if (format === 'csv') {
         const csvHeader = 'Patient ID,Patient Name,Vaccine,Dose Number,Scheduled Date,Administered Date,Status,Notes\n';
@@ -454,19 +1914,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reports/overdue", requireAuth, async (req, res) => {
+  app.get("/api/reports/overdue", requireReportAccess, locationFilter, async (req: any, res) => {
     try {
       const { format = 'csv' } = req.query;
-      const patients = await storage.getAllPatients(1000, 0);
-      const today = new Date().toISOString().split('T')[0];
+      const patients = await storage.getAllPatients(1000, 0, 'active', req.locationId);
       
-      // Get overdue patients - those who have scheduled vaccinations past due date
+      // Get overdue patients - those with doses the status job has marked overdue
       const overdueData = [];
       for (const patient of patients) {
         const vaccinations = await storage.getVaccinationsByPatient(patient.id);
-        const overdue = vaccinations.filter(v => 
-          v.scheduledDate && v.scheduledDate < today && v.status === 'scheduled'
-        );
+        const overdue = vaccinations.filter(v => v.status === 'overdue');
         
         if (overdue.length > 0) {
           overdueData.push({
@@ -497,10 +1954,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reports/demographics", requireAuth, async (req, res) => {
+  app.get("/api/reports/demographics", requireReportAccess, locationFilter, async (req: any, res) => {
     try {
       const { format = 'csv' } = req.query;
-      const patients = await storage.getAllPatients(1000, 0);
+      const patients = await storage.getAllPatients(1000, 0, 'active', req.locationId);
       
       // Calculate demographics
       const demographics = {
@@ -542,15 +1999,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reports/monthly", requireAuth, async (req, res) => {
+  app.get("/api/reports/monthly", requireReportAccess, locationFilter, async (req: any, res) => {
     try {
       const { format = 'csv', year, month } = req.query;
       const currentDate = new Date();
       const targetYear = year ? parseInt(year as string) : currentDate.getFullYear();
       const targetMonth = month ? parseInt(month as string) : currentDate.getMonth() + 1;
       
-      const patients = await storage.getAllPatients(1000, 0);
-      const vaccinations = await storage.getAllVaccinations();
+      const patients = await storage.getAllPatients(1000, 0, 'active', req.locationId);
+      const vaccinations = await storage.getAllVaccinations(req.locationId);
       
       // Filter data for the specified month
       const monthlyPatients = patients.filter(p => {
@@ -593,6 +2050,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/reports/aefi", requireReportAccess, locationFilter, async (req: any, res) => {
+    try {
+      const { format = 'csv' } = req.query;
+      const reports = await storage.getAllAefiReports(req.locationId);
+
+      if (format === 'csv') {
+        const csvHeader = 'Vaccine,Lot Number,Patient ID,Patient Name,Dose Number,Administered Date,Onset,Symptoms,Severity,Serious,Outcome,Follow-up Date,Follow-up Notes\n';
+        const csvData = reports.map((r: any) =>
+          `"${r.vaccine?.name || 'N/A'}","${r.vaccination?.lotNumber || 'N/A'}",${r.patient?.patientId || 'N/A'},"${r.patient?.name || 'N/A'}",${r.vaccination?.doseNumber ?? 'N/A'},"${r.vaccination?.administeredDate || 'N/A'}","${r.onsetAt}","${r.symptoms}","${r.severity}","${r.isSerious ? 'Yes' : 'No'}","${r.outcome}","${r.followUpDate || 'N/A'}","${r.followUpNotes || 'N/A'}"`
+        ).join('\n');
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', 'attachment; filename="aefi_report.csv"');
+        res.send(csvHeader + csvData);
+      } else {
+        // Summarize by vaccine and lot so clusters stand out for the medical officer
+        const byVaccineAndLot = reports.reduce((acc, r: any) => {
+          const key = `${r.vaccine?.name || 'Unknown'}|${r.vaccination?.lotNumber || 'Unknown'}`;
+          if (!acc[key]) {
+            acc[key] = {
+              vaccine: r.vaccine?.name || 'Unknown',
+              lotNumber: r.vaccination?.lotNumber || 'Unknown',
+              total: 0,
+              serious: 0,
+            };
+          }
+          acc[key].total += 1;
+          if (r.isSerious) acc[key].serious += 1;
+          return acc;
+        }, {} as Record<string, { vaccine: string; lotNumber: string; total: number; serious: number }>);
+
+        res.json({
+          summary: Object.values(byVaccineAndLot),
+          reports,
+        });
+      }
+    } catch (error) {
+      console.error("Generate AEFI report error:", error);
+      res.status(500).json({ message: "Failed to generate AEFI report" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -1,23 +1,163 @@
 import {
   users,
+  rolePermissions,
+  locations,
   patients,
   vaccines,
   vaccinations,
   appointments,
+  jobRuns,
+  certificates,
+  qrSigningKeys,
+  qrScans,
+  syncMutations,
+  patientIdReservations,
+  households,
+  patientMerges,
+  patientChanges,
+  patientTransfers,
+  vaccinationEvents,
+  vaccinationTransitions,
+  permissionNames,
+  defaultRolePermissions,
+  scheduleTemplates,
+  vaccineLots,
+  stockTransactions,
+  storageUnits,
+  temperatureReadings,
+  aefiReports,
   type User,
   type InsertUser,
+  type UserRole,
+  type Permission,
+  type RolePermission,
+  type Location,
+  type InsertLocation,
+  type LocationLevel,
   type Patient,
   type InsertPatient,
   type Vaccine,
   type InsertVaccine,
   type Vaccination,
   type InsertVaccination,
+  type VaccineLot,
+  type InsertVaccineLot,
+  type StorageUnit,
+  type InsertStorageUnit,
+  type TemperatureReading,
+  type InsertTemperatureReading,
+  type AefiReport,
+  type InsertAefiReport,
+  type StockTransaction,
+  type InsertStockTransaction,
+  type ScheduleTemplate,
+  type InsertScheduleTemplate,
   type Appointment,
+  type JobRun,
+  type Certificate,
+  type QrSigningKey,
+  type QrScan,
+  type SyncMutation,
+  type PatientIdReservation,
+  type Household,
+  type InsertHousehold,
+  type HouseholdRelationship,
+  type PatientMerge,
+  type PatientChange,
+  type PatientStatus,
+  type ClosePatient,
+  type DuplicateCheck,
+  type PatientTransfer,
+  type PatientTransferRequest,
+  type VaccinationEvent,
+  type VaccinationTransition,
   type InsertAppointment,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, ilike, desc, asc, count, sql } from "drizzle-orm";
+import { eq, ne, and, or, ilike, inArray, isNull, isNotNull, desc, asc, count, gt, gte, lt, lte, sql, getTableColumns, type SQL } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
 import bcrypt from "bcryptjs";
+import { generateSigningKeyPair, createCardToken } from "./card-token";
+import { formatPatientId } from "./patient-ids";
+import { rescheduledDoseDate } from "./dose-schedule";
+import { currentScope, runUnscoped, type AccessScope } from "./access-scope";
+import { normalizeName, normalizePhone, scoreDuplicate, PHONE_DIGITS, type DuplicateMatch, type OutOfAreaDuplicateMatch } from "./duplicates";
+
+// Selection for batch-printed health cards; patientIds takes precedence
+export interface HealthCardFilters {
+  patientIds?: number[];
+  village?: string;
+  locationId?: number;
+  registeredFrom?: string;
+  registeredTo?: string;
+}
+
+// Outcome of one mutation in a sync batch, as returned to the device
+export interface SyncResult {
+  clientId: string;
+  // 'pending' while another request is still applying the same mutation
+  status: 'pending' | 'applied' | 'conflict' | 'rejected';
+  id?: number;
+  version?: number;
+  record?: Patient | Vaccination; // the row after the change, or the current row on conflict
+  message?: string;
+}
+
+export interface SyncChanges {
+  patients: Patient[];
+  vaccinations: Vaccination[];
+  mergedPatientIds: number[]; // merged into another record since the last sync
+}
+
+export interface VaccinationListFilters {
+  status?: string;
+  ageGroup?: string;
+  vaccineId?: number;
+  from?: string;
+  to?: string;
+  assignedTo?: number;
+  village?: string;
+  locationId?: number;
+  sortBy?: 'scheduledDate' | 'createdAt';
+  order?: 'asc' | 'desc';
+  cursor?: string;
+  limit?: number;
+}
+
+export interface CertificateDose {
+  vaccinationId: number;
+  vaccineName: string | null;
+  doseNumber: number;
+  administeredDate: string | null;
+  lotNumber: string | null;
+  administeredByName: string | null;
+}
+
+export type VaccinationWithLotStatus = Vaccination & { lotStatus: string | null };
+
+export interface PatientMergeResult {
+  survivor: Patient;
+  merge: PatientMerge;
+  movedVaccinations: number;
+  cancelledDuplicateDoses: number;
+  movedAppointments: number;
+}
+
+// How far the sync feed looks back before a device's cursor; longer than any
+// write transaction takes to commit
+const SYNC_OVERLAP_MS = 2 * 60 * 1000;
+
+// Details copied from the retired record when the survivor has none
+const MERGE_FILL_FIELDS = [
+  'phone',
+  'dateOfBirth',
+  'gender',
+  'address',
+  'guardianName',
+  'guardianPhone',
+  'medicalHistory',
+  'allergies',
+] as const;
 
 export interface IStorage {
   // User operations
@@ -25,42 +165,343 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<InsertUser>): Promise<User>;
-  getAllUsers(): Promise<User[]>;
+  getAllUsers(locationId?: number): Promise<User[]>;
+
+  // Role permission operations
+  getPermissionsForRole(role: string): Promise<readonly Permission[]>;
+  getRolePermissions(): Promise<Record<Exclude<UserRole, 'admin'>, readonly Permission[]>>;
+  setRolePermissions(role: Exclude<UserRole, 'admin'>, permissions: Permission[], updatedBy: number): Promise<RolePermission>;
+
+  // Location operations
+  getLocations(filters?: { level?: LocationLevel; parentId?: number }): Promise<Location[]>;
+  getLocation(id: number): Promise<Location | undefined>;
+  isLocationAtLevel(id: number, levels: readonly LocationLevel[]): Promise<boolean>;
+  getLocationPath(id: number): Promise<Location[]>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  updateLocation(id: number, updates: Partial<InsertLocation>): Promise<Location | undefined>;
+  getAccessScope(user: User): Promise<AccessScope | undefined>;
+  isLocationInScope(locationId: number): Promise<boolean>;
   
   // Patient operations
   getPatient(id: number): Promise<Patient | undefined>;
   getPatientByPatientId(patientId: string): Promise<Patient | undefined>;
   getPatientByQRCode(qrCode: string): Promise<Patient | undefined>;
-  searchPatients(query: string): Promise<Patient[]>;
-  createPatient(patient: InsertPatient): Promise<Patient>;
-  updatePatient(id: number, updates: Partial<InsertPatient>): Promise<Patient>;
-  getAllPatients(limit?: number, offset?: number): Promise<Patient[]>;
+  getPatientArea(lookup: { id?: number; qrCode?: string }): Promise<{ patient: Patient; area: Location[] } | undefined>;
+  reissuePatientQrCode(id: number): Promise<Patient | undefined>;
+  recordQrScan(scan: { patientId: number; userId: number; device?: string | null }): Promise<QrScan>;
+  getRecentScans(userId: number, limit: number): Promise<any[]>;
+  getPatientScans(patientId: number): Promise<any[]>;
+  searchPatients(query: string, status?: PatientStatus | 'all', locationId?: number): Promise<Patient[]>;
+  createPatient(patient: InsertPatient, reservedPatientId?: string): Promise<Patient>;
+  reservePatientIds(userId: number, count: number): Promise<PatientIdReservation[]>;
+  updatePatient(id: number, updates: Partial<InsertPatient>, baseVersion?: number, changedBy?: number): Promise<Patient | undefined>;
+  getPatientChanges(patientId: number): Promise<(PatientChange & { changedByName: string | null })[]>;
+  getAllPatients(limit?: number, offset?: number, status?: PatientStatus | 'all', locationId?: number): Promise<Patient[]>;
+  closePatient(id: number, close: ClosePatient, changedBy: number): Promise<Patient | undefined>;
+  restorePatient(id: number, changedBy: number): Promise<Patient | undefined>;
+  getPatientsForCards(filters: HealthCardFilters, limit: number): Promise<Patient[]>;
+  findPossibleDuplicates(candidate: DuplicateCheck): Promise<(DuplicateMatch | OutOfAreaDuplicateMatch)[]>;
+  getPatientMerge(retired: { id?: number; patientId?: string; qrCode?: string }): Promise<PatientMerge | undefined>;
+  mergePatients(survivorId: number, retiredId: number, mergedBy: number): Promise<PatientMergeResult>;
+
+  // Household operations
+  getHouseholds(filters?: { village?: string; search?: string; locationId?: number }): Promise<any[]>;
+  getHousehold(id: number): Promise<Household | undefined>;
+  getHouseholdMembers(householdId: number): Promise<Patient[]>;
+  getHouseholdDueVaccinations(householdId: number): Promise<any[]>;
+  createHousehold(household: InsertHousehold): Promise<Household>;
+  updateHousehold(id: number, updates: Partial<InsertHousehold>): Promise<Household | undefined>;
+  ensureHousehold(patient: Patient, createdBy: number | null): Promise<Household>;
+  setHouseholdMember(householdId: number, patientId: number, relationship: HouseholdRelationship): Promise<Patient | undefined>;
+  removeHouseholdMember(householdId: number, patientId: number): Promise<Patient | undefined>;
+
+  // Patient transfer operations
+  requestPatientTransfer(patient: Patient, request: PatientTransferRequest, requestedBy: number): Promise<PatientTransfer>;
+  getPatientTransfer(id: number): Promise<PatientTransfer | undefined>;
+  getPendingPatientTransfers(userId: number): Promise<any[]>;
+  decidePatientTransfer(transfer: PatientTransfer, approve: boolean, decidedBy: number): Promise<PatientTransfer | undefined>;
   
   // Vaccine operations
-  getAllVaccines(): Promise<Vaccine[]>;
+  getAllVaccines(includeInactive?: boolean): Promise<Vaccine[]>;
   getVaccine(id: number): Promise<Vaccine | undefined>;
   createVaccine(vaccine: InsertVaccine): Promise<Vaccine>;
+  updateVaccine(id: number, updates: Partial<InsertVaccine>): Promise<Vaccine>;
+  getPendingVaccinationCount(vaccineId: number): Promise<number>;
   
   // Vaccination operations
-  getVaccinationsByPatient(patientId: number): Promise<Vaccination[]>;
-  getAllVaccinations(): Promise<Vaccination[]>;
+  getVaccinationsByPatient(patientId: number): Promise<VaccinationWithLotStatus[]>;
+  getAllVaccinations(locationId?: number): Promise<Vaccination[]>;
+  listVaccinations(filters?: VaccinationListFilters): Promise<{
+    items: any[];
+    nextCursor: string | null;
+  }>;
   getVaccination(id: number): Promise<Vaccination | undefined>;
   createVaccination(vaccination: InsertVaccination): Promise<Vaccination>;
-  updateVaccination(id: number, updates: Partial<InsertVaccination>): Promise<Vaccination>;
-  getVaccinationStats(): Promise<{
+  updateVaccination(id: number, updates: Partial<InsertVaccination>, baseVersion?: number): Promise<Vaccination | undefined>;
+  transitionVaccination(
+    vaccination: Vaccination,
+    transition: VaccinationTransition,
+    changedBy: number | null,
+  ): Promise<Vaccination>;
+  getCertificateDoses(patientId: number): Promise<CertificateDose[]>;
+  getCertificateForDoses(patientId: number, dosesDigest: string): Promise<Certificate | undefined>;
+  createCertificate(certificate: typeof certificates.$inferInsert): Promise<Certificate>;
+  getCertificateByCode(verificationCode: string): Promise<Certificate | undefined>;
+  getVaccinationEvents(vaccinationId: number): Promise<(VaccinationEvent & { changedByName: string | null })[]>;
+  getVaccinationStats(locationId?: number): Promise<{
     completed: number;
     due: number;
     overdue: number;
+    missed: number;
+  }>;
+  markOverdueAndMissed(today: string, graceDays: number): Promise<{
+    overdue: number;
+    missed: number;
+  }>;
+  
+  // Vaccine inventory operations
+  getVaccineLots(filters?: { facility?: string; vaccineId?: number; storageUnitId?: number; locationId?: number }): Promise<any[]>;
+  getVaccineLot(id: number): Promise<VaccineLot | undefined>;
+  createVaccineLot(lot: InsertVaccineLot): Promise<VaccineLot>;
+  updateVaccineLot(id: number, updates: Partial<InsertVaccineLot>): Promise<VaccineLot>;
+  getStockTransactions(lotId: number): Promise<StockTransaction[]>;
+  recordStockTransaction(transaction: InsertStockTransaction): Promise<StockTransaction>;
+  getExpiringLots(withinDays: number, locationId?: number): Promise<any[]>;
+  
+  // Cold chain operations
+  getStorageUnits(locationId?: number): Promise<StorageUnit[]>;
+  getStorageUnit(id: number): Promise<StorageUnit | undefined>;
+  createStorageUnit(unit: InsertStorageUnit): Promise<StorageUnit>;
+  getTemperatureReadings(storageUnitId: number, limit?: number): Promise<TemperatureReading[]>;
+  recordTemperatureReadings(unit: StorageUnit, readings: InsertTemperatureReading[]): Promise<TemperatureReading[]>;
+  getRecentExcursions(days: number, locationId?: number): Promise<any[]>;
+  quarantineLotsInUnit(storageUnitId: number, reason: string): Promise<VaccineLot[]>;
+  
+  // AEFI operations
+  getAefiReportsByPatient(patientId: number): Promise<AefiReport[]>;
+  getAefiReport(id: number): Promise<AefiReport | undefined>;
+  createAefiReport(report: InsertAefiReport): Promise<AefiReport>;
+  updateAefiReport(id: number, updates: Partial<InsertAefiReport>): Promise<AefiReport | undefined>;
+  getAllAefiReports(locationId?: number): Promise<any[]>;
+  
+  // Schedule template operations
+  getAllScheduleTemplates(): Promise<ScheduleTemplate[]>;
+  createScheduleTemplate(template: InsertScheduleTemplate): Promise<ScheduleTemplate>;
+  updateScheduleTemplate(id: number, updates: Partial<InsertScheduleTemplate>): Promise<ScheduleTemplate>;
+  deleteScheduleTemplate(id: number): Promise<void>;
+  applyScheduleTemplates(patient: Patient): Promise<Vaccination[]>;
+  applyScheduleTemplatesToAll(ageGroup?: string): Promise<{
+    patients: number;
+    created: number;
   }>;
+
+  // QR signing key operations
+  getActiveSigningKey(): Promise<QrSigningKey>;
+  getSigningKey(keyId: string): Promise<QrSigningKey | undefined>;
+  getSigningKeys(): Promise<QrSigningKey[]>;
+  rotateSigningKey(): Promise<QrSigningKey>;
+
+  // Background job operations
+  startJobRun(name: string): Promise<JobRun>;
+  finishJobRun(id: number, counts: Record<string, number> | null, error?: string): Promise<JobRun>;
+  getLastJobRun(name: string): Promise<JobRun | undefined>;
+
+  // Offline sync operations
+  getSyncResult(clientId: string, userId: number): Promise<SyncResult | undefined>;
+  claimSyncMutation(mutation: SyncMutation, userId: number): Promise<boolean>;
+  releaseSyncMutation(clientId: string, userId: number): Promise<void>;
+  recordSyncResult(mutation: SyncMutation, userId: number, result: SyncResult): Promise<void>;
+  getChangesSince(since: Date | null): Promise<SyncChanges>;
   
   // Appointment operations
   getAppointmentsByDate(date: string): Promise<Appointment[]>;
   getAppointmentsByPatient(patientId: number): Promise<Appointment[]>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
-  updateAppointment(id: number, updates: Partial<InsertAppointment>): Promise<Appointment>;
-  getTodayAppointments(): Promise<Appointment[]>;
+  updateAppointment(id: number, updates: Partial<InsertAppointment>): Promise<Appointment | undefined>;
+  getTodayAppointments(locationId?: number): Promise<Appointment[]>;
+}
+
+// Adds days to a YYYY-MM-DD date string, returning the same format
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
 }
 
+// Columns returned for vaccination lists, with the patient, vaccine and lot joined in
+const vaccinationWithDetails = {
+  id: vaccinations.id,
+  patientId: vaccinations.patientId,
+  vaccineId: vaccinations.vaccineId,
+  doseNumber: vaccinations.doseNumber,
+  scheduledDate: vaccinations.scheduledDate,
+  administeredDate: vaccinations.administeredDate,
+  status: vaccinations.status,
+  notes: vaccinations.notes,
+  administeredBy: vaccinations.administeredBy,
+  assignedTo: vaccinations.assignedTo,
+  lotId: vaccinations.lotId,
+  lotNumber: vaccinations.lotNumber,
+  lotStatus: vaccineLots.status,
+  version: vaccinations.version,
+  createdAt: vaccinations.createdAt,
+  patient: {
+    id: patients.id,
+    name: patients.name,
+    patientId: patients.patientId,
+    phone: patients.phone,
+    ageGroup: patients.ageGroup,
+    address: patients.address,
+  },
+  vaccine: {
+    id: vaccines.id,
+    name: vaccines.name,
+    description: vaccines.description,
+  },
+};
+
+function encodeCursor(value: string, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid pagination cursor");
+  }
+}
+
+// Thrown when a write would reach outside the user's area: placing a patient
+// in another village, or recording a dose for someone else's patient
+export class OutOfScopeError extends Error {
+  constructor(message = "That village is outside your area") {
+    super(message);
+  }
+}
+
+export class InvalidPatientIdError extends Error {
+  constructor(patientId: string) {
+    super(`Patient ID ${patientId} is not reserved for this user or has already been used`);
+  }
+}
+
+// Thrown when issuing, wasting or administering more doses than a lot holds
+export class InsufficientStockError extends Error {
+  constructor() {
+    super("Quantity exceeds stock on hand");
+  }
+}
+
+// Thrown when closing a record that is already closed, or restoring one
+// that is already active, e.g. when two users act on it at once
+export class PatientStatusConflictError extends Error {}
+
+// Thrown when a write was made against an older version of the row; carries
+// the row as it is now so the client can resolve the conflict
+export class VersionConflictError extends Error {
+  constructor(public current: Patient | Vaccination) {
+    super("Record has been changed since it was loaded");
+  }
+}
+
+// The database, or a transaction a storage method should take part in
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Serializes signing key changes so only one key is ever active. The lock is
+// released when the transaction ends.
+const SIGNING_KEY_LOCK = 7_420_013;
+
+async function lockSigningKeys(tx: DbExecutor): Promise<void> {
+  await tx.execute(sql`select pg_advisory_xact_lock(${SIGNING_KEY_LOCK})`);
+}
+
+async function insertSigningKey(tx: DbExecutor): Promise<QrSigningKey> {
+  const [key] = await tx
+    .insert(qrSigningKeys)
+    .values({ ...generateSigningKeyPair(), isActive: true })
+    .returning();
+  return key;
+}
+
+function decodeCursor(cursor: string): [string, number] {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof value !== 'string' || !Number.isInteger(id)) {
+      throw new InvalidCursorError();
+    }
+    return [value, id];
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+// Whole days from one YYYY-MM-DD date string to another
+function daysBetween(from: string, to: string): number {
+  const start = new Date(`${from}T00:00:00Z`).getTime();
+  const end = new Date(`${to}T00:00:00Z`).getTime();
+  return Math.floor((end - start) / (1000 * 60 * 60 * 24));
+}
+
+// A location and everything below it, as a subquery of location ids for
+// use with inArray
+const locationSubtree = (locationId: number) => sql`(
+  with recursive subtree as (
+    select id from ${locations} where id = ${locationId}
+    union all
+    select child.id from ${locations} child join subtree on child.parent_id = subtree.id
+  )
+  select id from subtree
+)`;
+
+// Patients living in a village under the location; no condition without one
+const patientLocationCondition = (locationId?: number) =>
+  locationId ? inArray(patients.villageId, locationSubtree(locationId)) : undefined;
+
+// Patients the current request may see (see access-scope.ts): those living
+// in a village under the user's posting, and any they registered without a
+// village. No condition for admins and background jobs.
+const patientScopeCondition = () => {
+  const scope = currentScope();
+  if (!scope) {
+    return undefined;
+  }
+  const ownUnplaced = and(isNull(patients.villageId), eq(patients.createdBy, scope.userId));
+  return scope.locationId
+    ? or(inArray(patients.villageId, locationSubtree(scope.locationId)), ownUnplaced)
+    : ownUnplaced;
+};
+
+// The same for tables that hang off a patient, such as doses and appointments
+const patientInScope = (patientIdColumn: AnyPgColumn) =>
+  currentScope()
+    ? inArray(patientIdColumn, db.select({ id: patients.id }).from(patients).where(patientScopeCondition()))
+    : undefined;
+
+// Households with at least one member the current request may see
+const householdInScope = () =>
+  currentScope()
+    ? inArray(households.id, db.select({ id: patients.householdId }).from(patients).where(patientScopeCondition()))
+    : undefined;
+
+// Stock and storage units record their facility by name, so they are matched
+// against the names of the PHCs and sub-centres under the location
+const facilityNamesWithin = (locationId: number) =>
+  db.select({ name: locations.name }).from(locations).where(and(
+    inArray(locations.id, locationSubtree(locationId)),
+    inArray(locations.level, ['phc', 'sub_centre']),
+  ));
+
+// Closed records (deceased, migrated, ...) are left out of lists, schedules
+// and statistics. For queries that don't join patients.
+const activePatientIds = (locationId?: number) =>
+  db.select({ id: patients.id }).from(patients).where(and(
+    eq(patients.status, 'active'),
+    patientLocationCondition(locationId),
+    patientScopeCondition(),
+  ));
+
+const patientStatusCondition = (status: PatientStatus | 'all') =>
+  status === 'all' ? undefined : eq(patients.status, status);
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: number): Promise<User | undefined> {
@@ -96,188 +537,1836 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(asc(users.name));
+  // With a location, only users posted to a facility under it
+  async getAllUsers(locationId?: number): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(locationId ? inArray(users.facilityId, locationSubtree(locationId)) : undefined)
+      .orderBy(asc(users.name));
+  }
+
+  // Role permission operations
+  // Admins have every permission; a role not in userRoles has none
+  async getPermissionsForRole(role: string): Promise<readonly Permission[]> {
+    if (role === 'admin') {
+      return permissionNames;
+    }
+    const [row] = await db.select().from(rolePermissions).where(eq(rolePermissions.role, role));
+    if (row) {
+      return row.permissions as Permission[];
+    }
+    return defaultRolePermissions[role as Exclude<UserRole, 'admin'>] ?? [];
+  }
+
+  // The matrix for every role but admin, with defaults for roles never edited
+  async getRolePermissions(): Promise<Record<Exclude<UserRole, 'admin'>, readonly Permission[]>> {
+    const matrix = { ...defaultRolePermissions };
+    for (const row of await db.select().from(rolePermissions)) {
+      if (row.role in matrix) {
+        matrix[row.role as Exclude<UserRole, 'admin'>] = row.permissions as Permission[];
+      }
+    }
+    return matrix;
+  }
+
+  async setRolePermissions(
+    role: Exclude<UserRole, 'admin'>,
+    permissions: Permission[],
+    updatedBy: number,
+  ): Promise<RolePermission> {
+    const [row] = await db
+      .insert(rolePermissions)
+      .values({ role, permissions, updatedBy })
+      .onConflictDoUpdate({
+        target: rolePermissions.role,
+        set: { permissions, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  // Location operations
+  async getLocations(filters: { level?: LocationLevel; parentId?: number } = {}): Promise<Location[]> {
+    const conditions = [];
+    if (filters.level) {
+      conditions.push(eq(locations.level, filters.level));
+    }
+    if (filters.parentId) {
+      conditions.push(eq(locations.parentId, filters.parentId));
+    }
+    return await db
+      .select()
+      .from(locations)
+      .where(and(...conditions))
+      .orderBy(asc(locations.name));
+  }
+
+  async getLocation(id: number): Promise<Location | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location || undefined;
+  }
+
+  // e.g. that a patient's villageId is a village and not a PHC or block
+  async isLocationAtLevel(id: number, levels: readonly LocationLevel[]): Promise<boolean> {
+    const location = await this.getLocation(id);
+    return !!location && levels.includes(location.level as LocationLevel);
+  }
+
+  // The location and its ancestors, district first
+  async getLocationPath(id: number): Promise<Location[]> {
+    const path: Location[] = [];
+    let location = await this.getLocation(id);
+    while (location) {
+      path.unshift(location);
+      location = location.parentId ? await this.getLocation(location.parentId) : undefined;
+    }
+    return path;
+  }
+
+  async createLocation(insertLocation: InsertLocation): Promise<Location> {
+    const [location] = await db.insert(locations).values(insertLocation).returning();
+    return location;
+  }
+
+  async updateLocation(id: number, updates: Partial<InsertLocation>): Promise<Location | undefined> {
+    const [location] = await db
+      .update(locations)
+      .set(updates)
+      .where(eq(locations.id, id))
+      .returning();
+    return location || undefined;
+  }
+
+  // See access-scope.ts. Admins and auditors see every patient; a supervisor
+  // sees the block their facility is in, and anyone else their facility's villages.
+  async getAccessScope(user: User): Promise<AccessScope | undefined> {
+    if (user.role === 'admin' || user.role === 'auditor') {
+      return undefined;
+    }
+    if (!user.facilityId) {
+      return { userId: user.id, locationId: null };
+    }
+    if (user.role === 'supervisor') {
+      const block = (await this.getLocationPath(user.facilityId)).find(location => location.level === 'block');
+      return { userId: user.id, locationId: block?.id ?? user.facilityId };
+    }
+    return { userId: user.id, locationId: user.facilityId };
+  }
+
+  async isLocationInScope(locationId: number): Promise<boolean> {
+    const scope = currentScope();
+    if (!scope) {
+      return true;
+    }
+    if (!scope.locationId) {
+      return false;
+    }
+    const [location] = await db
+      .select({ id: locations.id })
+      .from(locations)
+      .where(and(eq(locations.id, locationId), inArray(locations.id, locationSubtree(scope.locationId))));
+    return !!location;
+  }
+
+  private async checkVillageInScope(villageId: number | null | undefined): Promise<void> {
+    if (villageId && !(await this.isLocationInScope(villageId))) {
+      throw new OutOfScopeError();
+    }
+  }
+
+  private async checkPatientInScope(patientId: number): Promise<void> {
+    if (currentScope() && !(await this.getPatient(patientId))) {
+      throw new OutOfScopeError("That patient is outside your area");
+    }
   }
 
   // Patient operations
   async getPatient(id: number): Promise<Patient | undefined> {
-    const [patient] = await db.select().from(patients).where(eq(patients.id, id));
+    const [patient] = await db.select().from(patients).where(and(eq(patients.id, id), patientScopeCondition()));
     return patient || undefined;
   }
 
+  // The ID of a record that was merged away resolves to the surviving patient
   async getPatientByPatientId(patientId: string): Promise<Patient | undefined> {
-    const [patient] = await db.select().from(patients).where(eq(patients.patientId, patientId));
-    return patient || undefined;
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(and(eq(patients.patientId, patientId), patientScopeCondition()));
+    if (patient) {
+      return patient;
+    }
+    const merge = await this.getPatientMerge({ patientId });
+    return merge ? this.getPatient(merge.survivorId) : undefined;
   }
 
+  // As above, so cards printed for a merged-away record keep working
   async getPatientByQRCode(qrCode: string): Promise<Patient | undefined> {
-    const [patient] = await db.select().from(patients).where(eq(patients.qrCode, qrCode));
-    return patient || undefined;
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(and(eq(patients.qrCode, qrCode), patientScopeCondition()));
+    if (patient) {
+      return patient;
+    }
+    const merge = await this.getPatientMerge({ qrCode });
+    return merge ? this.getPatient(merge.survivorId) : undefined;
   }
 
-  async searchPatients(query: string): Promise<Patient[]> {
+  // Finds a patient whatever the current user's area, with the path to their
+  // village (district first), so an out-of-scope lookup can say where they belong
+  async getPatientArea(lookup: { id?: number; qrCode?: string }): Promise<{ patient: Patient; area: Location[] } | undefined> {
+    return await runUnscoped(async () => {
+      const patient = lookup.id !== undefined
+        ? await this.getPatient(lookup.id)
+        : lookup.qrCode !== undefined
+          ? await this.getPatientByQRCode(lookup.qrCode)
+          : undefined;
+      if (!patient) {
+        return undefined;
+      }
+      return { patient, area: patient.villageId ? await this.getLocationPath(patient.villageId) : [] };
+    });
+  }
+
+  // Issues a new card token; the previous qrCode stops resolving to the patient
+  async reissuePatientQrCode(id: number): Promise<Patient | undefined> {
+    const existing = await this.getPatient(id);
+    if (!existing) {
+      return undefined;
+    }
+    const [patient] = await db
+      .update(patients)
+      .set({
+        qrCode: createCardToken(existing.patientId, await this.getActiveSigningKey()),
+        version: sql`${patients.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(patients.id, id))
+      .returning();
+    return patient;
+  }
+
+  async recordQrScan(scan: { patientId: number; userId: number; device?: string | null }): Promise<QrScan> {
+    const [recorded] = await db.insert(qrScans).values(scan).returning();
+    return recorded;
+  }
+
+  // A user's latest lookups, newest first, for the scanner's recent panel
+  async getRecentScans(userId: number, limit: number): Promise<any[]> {
+    return await db
+      .select({
+        id: qrScans.id,
+        scannedAt: qrScans.scannedAt,
+        device: qrScans.device,
+        patient: {
+          id: patients.id,
+          name: patients.name,
+          patientId: patients.patientId,
+          ageGroup: patients.ageGroup,
+          phone: patients.phone,
+        },
+      })
+      .from(qrScans)
+      .innerJoin(patients, eq(qrScans.patientId, patients.id))
+      .where(eq(qrScans.userId, userId))
+      .orderBy(desc(qrScans.scannedAt), desc(qrScans.id))
+      .limit(limit);
+  }
+
+  // Everyone who has looked up a patient by card, newest first
+  async getPatientScans(patientId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: qrScans.id,
+        scannedAt: qrScans.scannedAt,
+        device: qrScans.device,
+        user: {
+          id: users.id,
+          name: users.name,
+          username: users.username,
+        },
+      })
+      .from(qrScans)
+      .leftJoin(users, eq(qrScans.userId, users.id))
+      .where(eq(qrScans.patientId, patientId))
+      .orderBy(desc(qrScans.scannedAt), desc(qrScans.id));
+  }
+
+  async searchPatients(query: string, status: PatientStatus | 'all' = 'active', locationId?: number): Promise<Patient[]> {
     return await db
       .select()
       .from(patients)
-      .where(
+      .where(and(
+        patientStatusCondition(status),
+        patientLocationCondition(locationId),
+        patientScopeCondition(),
         or(
           ilike(patients.name, `%${query}%`),
           ilike(patients.phone, `%${query}%`),
-          ilike(patients.patientId, `%${query}%`)
+          ilike(patients.patientId, `%${query}%`),
+          inArray(
+            patients.id,
+            db.select({ id: patientMerges.survivorId })
+              .from(patientMerges)
+              .where(ilike(patientMerges.retiredPatientId, `%${query}%`))
+          )
         )
-      )
+      ))
       .orderBy(asc(patients.name))
       .limit(20);
   }
 
-  async createPatient(insertPatient: InsertPatient): Promise<Patient> {
-    // Generate unique patient ID
-    const patientCount = await db.select({ count: count() }).from(patients);
-    const patientId = `RH${String(patientCount[0].count + 1).padStart(6, '0')}`;
-    
-    // Generate QR code data
-    const qrCode = `RH_${patientId}_${Date.now()}`;
-    
-    const [patient] = await db
-      .insert(patients)
-      .values({
-        ...insertPatient,
-        patientId,
-        qrCode,
-      })
-      .returning();
+  // A device registering offline passes one of its reserved IDs; it is
+  // claimed here so it can't be used twice
+  async createPatient(insertPatient: InsertPatient, reservedPatientId?: string): Promise<Patient> {
+    await this.checkVillageInScope(insertPatient.villageId);
+    const signingKey = await this.getActiveSigningKey();
+
+    // The reservation is used up only if the patient is saved, so a failed
+    // insert leaves the ID free for the device to retry with
+    const patient = await db.transaction(async (tx) => {
+      let patientId: string;
+      if (reservedPatientId) {
+        const [reservation] = insertPatient.createdBy ? await tx
+          .update(patientIdReservations)
+          .set({ usedAt: new Date() })
+          .where(and(
+            eq(patientIdReservations.patientId, reservedPatientId),
+            eq(patientIdReservations.userId, insertPatient.createdBy),
+            isNull(patientIdReservations.usedAt),
+          ))
+          .returning() : [];
+        if (!reservation) {
+          throw new InvalidPatientIdError(reservedPatientId);
+        }
+        patientId = reservation.patientId;
+      } else {
+        [patientId] = await this.nextPatientIds(1);
+      }
+
+      // The card QR code is a signed token, verifiable offline
+      const qrCode = createCardToken(patientId, signingKey);
+
+      const [created] = await tx
+        .insert(patients)
+        .values({
+          ...insertPatient,
+          patientId,
+          qrCode,
+        })
+        .returning();
+      return created;
+    });
+
+    await this.applyScheduleTemplates(patient);
     return patient;
   }
 
-  async updatePatient(id: number, updates: Partial<InsertPatient>): Promise<Patient> {
-    const [patient] = await db
-      .update(patients)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(patients.id, id))
+  async reservePatientIds(userId: number, count: number): Promise<PatientIdReservation[]> {
+    const patientIds = await this.nextPatientIds(count);
+    return await db
+      .insert(patientIdReservations)
+      .values(patientIds.map(patientId => ({ patientId, userId })))
       .returning();
-    return patient;
   }
 
-  async getAllPatients(limit = 50, offset = 0): Promise<Patient[]> {
+  // Sequence numbers are never reused, even if the insert that took one fails
+  private async nextPatientIds(count: number): Promise<string[]> {
+    const rows = await db
+      .select({ value: sql<string>`nextval('patient_number_seq')` })
+      .from(sql`generate_series(1, ${count})`);
+    return rows.map(row => formatPatientId(Number(row.value)));
+  }
+
+  // With baseVersion, the update only applies if nobody has changed the
+  // patient since that version was read. Edits made by a user (changedBy)
+  // are recorded field by field in the patient's change history.
+  async updatePatient(
+    id: number,
+    updates: Partial<InsertPatient>,
+    baseVersion?: number,
+    changedBy?: number,
+  ): Promise<Patient | undefined> {
+    await this.checkVillageInScope(updates.villageId);
+    // The row is locked from the read to the history insert, so the old
+    // values recorded are the ones this edit replaced, and an edit is never
+    // saved without its history
+    return await db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(patients)
+        .where(and(eq(patients.id, id), patientScopeCondition()))
+        .for('update');
+      if (!before) {
+        return undefined;
+      }
+      if (baseVersion !== undefined && before.version !== baseVersion) {
+        throw new VersionConflictError(before);
+      }
+
+      const [patient] = await tx
+        .update(patients)
+        .set({ ...updates, version: sql`${patients.version} + 1`, updatedAt: new Date() })
+        .where(eq(patients.id, id))
+        .returning();
+
+      if (changedBy !== undefined) {
+        // Blank and missing are the same to the person reading the history
+        const asText = (value: unknown) => (value === null || value === undefined || value === '' ? null : String(value));
+        const changes = (Object.keys(updates) as (keyof InsertPatient)[])
+          .filter(field => asText(before[field]) !== asText(patient[field]))
+          .map(field => ({
+            patientId: id,
+            field,
+            oldValue: asText(before[field]),
+            newValue: asText(patient[field]),
+            changedBy,
+          }));
+        if (changes.length > 0) {
+          await tx.insert(patientChanges).values(changes);
+        }
+      }
+      return patient;
+    });
+  }
+
+  // Newest first
+  async getPatientChanges(patientId: number): Promise<(PatientChange & { changedByName: string | null })[]> {
+    return await db
+      .select({ ...getTableColumns(patientChanges), changedByName: users.name })
+      .from(patientChanges)
+      .leftJoin(users, eq(patientChanges.changedBy, users.id))
+      .where(and(eq(patientChanges.patientId, patientId), patientInScope(patientChanges.patientId)))
+      .orderBy(desc(patientChanges.changedAt), desc(patientChanges.id));
+  }
+
+  async getAllPatients(limit = 50, offset = 0, status: PatientStatus | 'all' = 'active', locationId?: number): Promise<Patient[]> {
     return await db
       .select()
       .from(patients)
+      .where(and(patientStatusCondition(status), patientLocationCondition(locationId), patientScopeCondition()))
       .orderBy(desc(patients.createdAt))
       .limit(limit)
       .offset(offset);
   }
 
-  // Vaccine operations
-  async getAllVaccines(): Promise<Vaccine[]> {
-    return await db.select().from(vaccines).where(eq(vaccines.isActive, true));
+  // Closes the record without deleting it; the patient's doses stay on file
+  // but drop off schedules and overdue lists
+  async closePatient(id: number, close: ClosePatient, changedBy: number): Promise<Patient | undefined> {
+    return await this.setPatientStatus(id, {
+      status: close.status,
+      statusDate: close.statusDate,
+      statusReason: close.reason,
+    }, changedBy);
   }
 
-  async getVaccine(id: number): Promise<Vaccine | undefined> {
-    const [vaccine] = await db.select().from(vaccines).where(eq(vaccines.id, id));
-    return vaccine || undefined;
+  async restorePatient(id: number, changedBy: number): Promise<Patient | undefined> {
+    return await this.setPatientStatus(id, { status: 'active', statusDate: null, statusReason: null }, changedBy);
   }
 
-  async createVaccine(insertVaccine: InsertVaccine): Promise<Vaccine> {
-    const [vaccine] = await db.insert(vaccines).values(insertVaccine).returning();
-    return vaccine;
+  private async setPatientStatus(
+    id: number,
+    change: { status: PatientStatus; statusDate: string | null; statusReason: string | null },
+    changedBy: number,
+  ): Promise<Patient | undefined> {
+    const closing = change.status !== 'active';
+    return await db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(patients)
+        .where(and(eq(patients.id, id), patientScopeCondition()))
+        .for('update');
+      if (!before) {
+        return undefined;
+      }
+      const [patient] = await tx
+        .update(patients)
+        .set({ ...change, version: sql`${patients.version} + 1`, updatedAt: new Date() })
+        .where(and(
+          eq(patients.id, id),
+          closing ? eq(patients.status, 'active') : ne(patients.status, 'active'),
+        ))
+        .returning();
+      if (!patient) {
+        throw new PatientStatusConflictError(
+          closing ? "Patient record is already closed" : "Patient record is already active",
+        );
+      }
+      await tx.insert(patientChanges).values({
+        patientId: id,
+        field: 'status',
+        oldValue: before.status,
+        newValue: change.statusReason ? `${change.status}: ${change.statusReason}` : change.status,
+        changedBy,
+      });
+      return patient;
+    });
   }
 
-  // Vaccination operations
-  async getVaccinationsByPatient(patientId: number): Promise<Vaccination[]> {
+  async getPatientsForCards(filters: HealthCardFilters, limit: number): Promise<Patient[]> {
+    const conditions = [isNotNull(patients.qrCode), eq(patients.status, 'active'), patientScopeCondition()];
+    if (filters.patientIds) {
+      conditions.push(inArray(patients.id, filters.patientIds));
+    } else {
+      if (filters.village) {
+        conditions.push(ilike(patients.address, `%${filters.village}%`));
+      }
+      if (filters.locationId) {
+        conditions.push(inArray(patients.villageId, locationSubtree(filters.locationId)));
+      }
+      // Registration dates are whole days; the upper bound is inclusive
+      if (filters.registeredFrom) {
+        conditions.push(gte(patients.createdAt, new Date(`${filters.registeredFrom}T00:00:00Z`)));
+      }
+      if (filters.registeredTo) {
+        conditions.push(lt(patients.createdAt, new Date(`${addDays(filters.registeredTo, 1)}T00:00:00Z`)));
+      }
+    }
+
     return await db
       .select()
-      .from(vaccinations)
-      .where(eq(vaccinations.patientId, patientId))
-      .orderBy(desc(vaccinations.scheduledDate));
+      .from(patients)
+      .where(and(...conditions))
+      .orderBy(asc(patients.name), asc(patients.id))
+      .limit(limit);
+  }
+
+  // Existing patients who may be the person being registered, best match
+  // first. Candidates are narrowed in SQL by a shared name part, date of
+  // birth or phone number, then scored in scoreDuplicate. The search covers
+  // every area, since the same child is often registered at different
+  // camps; matches outside the user's area carry only their name and ID.
+  async findPossibleDuplicates(candidate: DuplicateCheck): Promise<(DuplicateMatch | OutOfAreaDuplicateMatch)[]> {
+    const conditions = normalizeName(candidate.name)
+      .split(' ')
+      .filter(part => part.length >= 3)
+      .map(part => ilike(patients.name, `%${part}%`));
+    if (candidate.dateOfBirth) {
+      conditions.push(eq(patients.dateOfBirth, candidate.dateOfBirth));
+    }
+    for (const phone of [candidate.phone, candidate.guardianPhone].map(normalizePhone)) {
+      if (phone) {
+        conditions.push(sql`right(regexp_replace(coalesce(${patients.phone}, ''), '\\D', '', 'g'), ${PHONE_DIGITS}) = ${phone}`);
+        conditions.push(sql`right(regexp_replace(coalesce(${patients.guardianPhone}, ''), '\\D', '', 'g'), ${PHONE_DIGITS}) = ${phone}`);
+      }
+    }
+    if (conditions.length === 0) {
+      return [];
+    }
+
+    const rows = await runUnscoped(async () => await db
+      .select()
+      .from(patients)
+      .where(and(
+        or(...conditions),
+        candidate.excludeId !== undefined ? sql`${patients.id} <> ${candidate.excludeId}` : undefined,
+      ))
+      .limit(200));
+
+    const matches = rows
+      .map(patient => scoreDuplicate(candidate, patient))
+      .filter((match): match is DuplicateMatch => match !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5);
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const inScope = await db
+      .select({ id: patients.id })
+      .from(patients)
+      .where(and(inArray(patients.id, matches.map(match => match.patient.id)), patientScopeCondition()));
+    const inScopeIds = new Set(inScope.map(row => row.id));
+    return matches.map(({ patient, score, reasons }) => inScopeIds.has(patient.id)
+      ? { patient, score, reasons }
+      : {
+          patient: { id: patient.id, patientId: patient.patientId, name: patient.name },
+          score,
+          reasons,
+          outOfArea: true as const,
+        });
+  }
+
+  async getPatientMerge(retired: { id?: number; patientId?: string; qrCode?: string }): Promise<PatientMerge | undefined> {
+    const condition = retired.id !== undefined
+      ? eq(patientMerges.retiredId, retired.id)
+      : retired.patientId !== undefined
+        ? eq(patientMerges.retiredPatientId, retired.patientId)
+        : retired.qrCode !== undefined
+          ? eq(patientMerges.retiredQrCode, retired.qrCode)
+          : undefined;
+    if (!condition) {
+      return undefined;
+    }
+    const [merge] = await db.select().from(patientMerges).where(condition);
+    return merge;
+  }
+
+  // Folds a duplicate registration into the surviving record: doses,
+  // appointments, AEFI reports, certificates and scan history move over, a
+  // dose scheduled on both records is cancelled on one of them, and the
+  // retired record is deleted with a redirect left in patient_merges.
+  async mergePatients(survivorId: number, retiredId: number, mergedBy: number): Promise<PatientMergeResult> {
+    return await db.transaction(async (tx) => {
+      const [survivor] = await tx.select().from(patients).where(eq(patients.id, survivorId));
+      const [retired] = await tx.select().from(patients).where(eq(patients.id, retiredId));
+      if (!survivor || !retired) {
+        throw new Error("Patient not found");
+      }
+      const now = new Date();
+
+      // Where both records carry the same dose, keep a completed one if there
+      // is one, otherwise the survivor's, and cancel the other pending copies
+      const doses = await tx
+        .select()
+        .from(vaccinations)
+        .where(inArray(vaccinations.patientId, [survivorId, retiredId]));
+      const byDose = new Map<string, Vaccination[]>();
+      for (const dose of doses) {
+        const key = `${dose.vaccineId}:${dose.doseNumber}`;
+        byDose.set(key, [...(byDose.get(key) ?? []), dose]);
+      }
+      const isPending = (dose: Vaccination) => dose.status === 'scheduled' || dose.status === 'overdue';
+      const redundant: Vaccination[] = [];
+      for (const group of Array.from(byDose.values())) {
+        const keep = group.find(dose => dose.status === 'completed')
+          ?? group.find(dose => isPending(dose) && dose.patientId === survivorId)
+          ?? group.find(isPending);
+        redundant.push(...group.filter(dose => dose !== keep && isPending(dose)));
+      }
+      if (redundant.length > 0) {
+        await tx
+          .update(vaccinations)
+          .set({ status: 'cancelled', statusChangedAt: now, version: sql`${vaccinations.version} + 1`, updatedAt: now })
+          .where(inArray(vaccinations.id, redundant.map(dose => dose.id)));
+        await tx.insert(vaccinationEvents).values(
+          redundant.map(dose => ({
+            vaccinationId: dose.id,
+            action: 'cancel',
+            fromStatus: dose.status,
+            toStatus: 'cancelled',
+            reason: `Duplicate dose after merging ${retired.patientId} into ${survivor.patientId}`,
+            changedBy: mergedBy,
+          }))
+        );
+      }
+
+      const moved = await tx
+        .update(vaccinations)
+        .set({ patientId: survivorId, version: sql`${vaccinations.version} + 1`, updatedAt: now })
+        .where(eq(vaccinations.patientId, retiredId))
+        .returning({ id: vaccinations.id });
+      const movedAppointments = await tx
+        .update(appointments)
+        .set({ patientId: survivorId, updatedAt: now })
+        .where(eq(appointments.patientId, retiredId))
+        .returning({ id: appointments.id });
+      await tx.update(aefiReports).set({ patientId: survivorId }).where(eq(aefiReports.patientId, retiredId));
+      await tx.update(certificates).set({ patientId: survivorId }).where(eq(certificates.patientId, retiredId));
+      await tx.update(qrScans).set({ patientId: survivorId }).where(eq(qrScans.patientId, retiredId));
+      await tx.update(patientChanges).set({ patientId: survivorId }).where(eq(patientChanges.patientId, retiredId));
+      await tx.update(patientTransfers).set({ patientId: survivorId }).where(eq(patientTransfers.patientId, retiredId));
+      // Earlier merges into the retired record now point at the survivor
+      await tx.update(patientMerges).set({ survivorId }).where(eq(patientMerges.survivorId, retiredId));
+
+      // The survivor keeps its own household; if it has none it takes the
+      // retired record's place, including as head
+      const householdId = survivor.householdId ?? retired.householdId;
+      const takesHead = retired.relationship === 'head' && householdId === retired.householdId;
+      await tx
+        .update(households)
+        .set({ headPatientId: householdId === retired.householdId ? survivorId : null, updatedAt: now })
+        .where(eq(households.headPatientId, retiredId));
+
+      const filled: Partial<InsertPatient> = {};
+      for (const field of MERGE_FILL_FIELDS) {
+        if (survivor[field] == null && retired[field] != null) {
+          filled[field] = retired[field];
+        }
+      }
+
+      await tx.delete(patients).where(eq(patients.id, retiredId));
+      const [merge] = await tx
+        .insert(patientMerges)
+        .values({
+          survivorId,
+          retiredId,
+          retiredPatientId: retired.patientId,
+          retiredQrCode: retired.qrCode,
+          retiredRecord: retired,
+          mergedBy,
+        })
+        .returning();
+      const [updated] = await tx
+        .update(patients)
+        .set({
+          ...filled,
+          householdId,
+          relationship: takesHead ? 'head' : survivor.householdId ? survivor.relationship : retired.relationship,
+          version: sql`${patients.version} + 1`,
+          updatedAt: now,
+        })
+        .where(eq(patients.id, survivorId))
+        .returning();
+
+      return {
+        survivor: updated,
+        merge,
+        movedVaccinations: moved.length,
+        cancelledDuplicateDoses: redundant.length,
+        movedAppointments: movedAppointments.length,
+      };
+    });
+  }
+
+  // Household operations
+  // Filtering by location goes by the village the head of household lives in
+  async getHouseholds(filters: { village?: string; search?: string; locationId?: number } = {}): Promise<any[]> {
+    const conditions = [patientScopeCondition()];
+    if (filters.village) {
+      conditions.push(ilike(households.village, `%${filters.village}%`));
+    }
+    if (filters.locationId) {
+      conditions.push(inArray(patients.villageId, locationSubtree(filters.locationId)));
+    }
+    if (filters.search) {
+      conditions.push(or(
+        ilike(patients.name, `%${filters.search}%`),
+        ilike(households.address, `%${filters.search}%`),
+      ));
+    }
+
+    const memberCounts = db
+      .select({ householdId: patients.householdId, memberCount: count().as('member_count') })
+      .from(patients)
+      .groupBy(patients.householdId)
+      .as('member_counts');
+
+    return await db
+      .select({
+        ...getTableColumns(households),
+        headName: patients.name,
+        memberCount: sql<number>`coalesce(${memberCounts.memberCount}, 0)`.mapWith(Number),
+      })
+      .from(households)
+      .leftJoin(patients, eq(households.headPatientId, patients.id))
+      .leftJoin(memberCounts, eq(memberCounts.householdId, households.id))
+      .where(and(...conditions))
+      .orderBy(asc(households.village), asc(patients.name))
+      .limit(100);
+  }
+
+  async getHousehold(id: number): Promise<Household | undefined> {
+    const [household] = await db
+      .select()
+      .from(households)
+      .where(and(
+        eq(households.id, id),
+        householdInScope(),
+      ));
+    return household;
+  }
+
+  // Head first, then everyone else oldest first
+  async getHouseholdMembers(householdId: number): Promise<Patient[]> {
+    return await db
+      .select()
+      .from(patients)
+      .where(and(eq(patients.householdId, householdId), patientScopeCondition()))
+      .orderBy(
+        sql`case when ${patients.relationship} = 'head' then 0 else 1 end`,
+        asc(patients.dateOfBirth),
+      );
   }
 
-  async getAllVaccinations(): Promise<any[]> {
+  // Doses still to be given to anyone in the household, soonest first
+  async getHouseholdDueVaccinations(householdId: number): Promise<any[]> {
     return await db
       .select({
         id: vaccinations.id,
-        patientId: vaccinations.patientId,
-        vaccineId: vaccinations.vaccineId,
         doseNumber: vaccinations.doseNumber,
         scheduledDate: vaccinations.scheduledDate,
-        administeredDate: vaccinations.administeredDate,
         status: vaccinations.status,
-        notes: vaccinations.notes,
-        administeredBy: vaccinations.administeredBy,
-        createdAt: vaccinations.createdAt,
         patient: {
           id: patients.id,
           name: patients.name,
           patientId: patients.patientId,
-          phone: patients.phone,
+          relationship: patients.relationship,
         },
         vaccine: {
           id: vaccines.id,
           name: vaccines.name,
-          description: vaccines.description,
         },
       })
       .from(vaccinations)
-      .leftJoin(patients, eq(vaccinations.patientId, patients.id))
-      .leftJoin(vaccines, eq(vaccinations.vaccineId, vaccines.id))
-      .orderBy(desc(vaccinations.createdAt));
-  }
-
-  async getVaccination(id: number): Promise<Vaccination | undefined> {
-    const [vaccination] = await db.select().from(vaccinations).where(eq(vaccinations.id, id));
-    return vaccination || undefined;
+      .innerJoin(patients, eq(vaccinations.patientId, patients.id))
+      .innerJoin(vaccines, eq(vaccinations.vaccineId, vaccines.id))
+      .where(and(
+        eq(patients.householdId, householdId),
+        eq(patients.status, 'active'),
+        patientScopeCondition(),
+        inArray(vaccinations.status, ['scheduled', 'overdue']),
+      ))
+      .orderBy(asc(vaccinations.scheduledDate), asc(patients.name));
   }
 
-  async createVaccination(insertVaccination: InsertVaccination): Promise<Vaccination> {
-    const [vaccination] = await db.insert(vaccinations).values(insertVaccination).returning();
-    return vaccination;
+  async createHousehold(insertHousehold: InsertHousehold): Promise<Household> {
+    const [household] = await db.insert(households).values(insertHousehold).returning();
+    if (household.headPatientId) {
+      await this.updatePatient(household.headPatientId, { householdId: household.id, relationship: 'head' });
+    }
+    return household;
   }
 
-  async updateVaccination(id: number, updates: Partial<InsertVaccination>): Promise<Vaccination> {
-    const [vaccination] = await db
-      .update(vaccinations)
+  async updateHousehold(id: number, updates: Partial<InsertHousehold>): Promise<Household | undefined> {
+    const [household] = await db
+      .update(households)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(vaccinations.id, id))
+      .where(and(eq(households.id, id), householdInScope()))
       .returning();
-    return vaccination;
+    return household;
   }
 
-  async getVaccinationStats(): Promise<{
-    completed: number;
-    due: number;
-    overdue: number;
-  }> {
-    const today = new Date().toISOString().split('T')[0];
-    
-    const [completed] = await db
+  // The patient's household, or a new one headed by them at their address.
+  // The patient's row is locked while checking, so twins registered from the
+  // mother's record at the same time end up in one household.
+  async ensureHousehold(patient: Patient, createdBy: number | null): Promise<Household> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ householdId: patients.householdId })
+        .from(patients)
+        .where(eq(patients.id, patient.id))
+        .for('update');
+      if (current?.householdId) {
+        const [existing] = await tx.select().from(households).where(eq(households.id, current.householdId));
+        if (existing) {
+          return existing;
+        }
+      }
+
+      const [household] = await tx
+        .insert(households)
+        .values({ headPatientId: patient.id, address: patient.address, createdBy })
+        .returning();
+      await tx
+        .update(patients)
+        .set({
+          householdId: household.id,
+          relationship: 'head',
+          version: sql`${patients.version} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(patients.id, patient.id));
+      return household;
+    });
+  }
+
+  // Adds or moves a patient into the household. Making someone the head
+  // demotes the previous head to 'other'.
+  async setHouseholdMember(
+    householdId: number,
+    patientId: number,
+    relationship: HouseholdRelationship,
+  ): Promise<Patient | undefined> {
+    if (relationship === 'head') {
+      const household = await this.getHousehold(householdId);
+      if (household?.headPatientId && household.headPatientId !== patientId) {
+        await this.updatePatient(household.headPatientId, { relationship: 'other' });
+      }
+      await this.updateHousehold(householdId, { headPatientId: patientId });
+    }
+    return await this.updatePatient(patientId, { householdId, relationship });
+  }
+
+  async removeHouseholdMember(householdId: number, patientId: number): Promise<Patient | undefined> {
+    const household = await this.getHousehold(householdId);
+    if (!household) {
+      return undefined;
+    }
+    if (household.headPatientId === patientId) {
+      await this.updateHousehold(householdId, { headPatientId: null });
+    }
+    const [patient] = await db
+      .update(patients)
+      .set({
+        householdId: null,
+        relationship: null,
+        version: sql`${patients.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(patients.id, patientId), eq(patients.householdId, householdId), patientScopeCondition()))
+      .returning();
+    return patient;
+  }
+
+  // Patient transfer operations
+  // A patient with a request already waiting keeps that one
+  async requestPatientTransfer(
+    patient: Patient,
+    request: PatientTransferRequest,
+    requestedBy: number,
+  ): Promise<PatientTransfer> {
+    await this.checkVillageInScope(request.toVillageId);
+    const [pending] = await db
+      .select()
+      .from(patientTransfers)
+      .where(and(
+        eq(patientTransfers.patientId, patient.id),
+        eq(patientTransfers.requestedBy, requestedBy),
+        eq(patientTransfers.status, 'pending'),
+      ));
+    if (pending) {
+      return pending;
+    }
+    const [transfer] = await db
+      .insert(patientTransfers)
+      .values({
+        patientId: patient.id,
+        fromVillageId: patient.villageId,
+        toVillageId: request.toVillageId,
+        reason: request.reason || null,
+        requestedBy,
+      })
+      .returning();
+    return transfer;
+  }
+
+  // Only transfers of patients the current user can see, i.e. that they could decide
+  async getPatientTransfer(id: number): Promise<PatientTransfer | undefined> {
+    const [transfer] = await db
+      .select()
+      .from(patientTransfers)
+      .where(and(eq(patientTransfers.id, id), patientInScope(patientTransfers.patientId)));
+    return transfer || undefined;
+  }
+
+  // Waiting requests the user can decide, plus those they made themselves,
+  // oldest first
+  async getPendingPatientTransfers(userId: number): Promise<any[]> {
+    const fromVillages = alias(locations, 'from_villages');
+    const toVillages = alias(locations, 'to_villages');
+    return await db
+      .select({
+        ...getTableColumns(patientTransfers),
+        patient: {
+          id: patients.id,
+          name: patients.name,
+          patientId: patients.patientId,
+        },
+        fromVillageName: fromVillages.name,
+        toVillageName: toVillages.name,
+        requestedByName: users.name,
+      })
+      .from(patientTransfers)
+      .innerJoin(patients, eq(patientTransfers.patientId, patients.id))
+      .leftJoin(fromVillages, eq(patientTransfers.fromVillageId, fromVillages.id))
+      .leftJoin(toVillages, eq(patientTransfers.toVillageId, toVillages.id))
+      .leftJoin(users, eq(patientTransfers.requestedBy, users.id))
+      .where(and(
+        eq(patientTransfers.status, 'pending'),
+        or(patientScopeCondition() ?? sql`true`, eq(patientTransfers.requestedBy, userId)),
+      ))
+      .orderBy(asc(patientTransfers.requestedAt), asc(patientTransfers.id));
+  }
+
+  // Approving moves the patient to the requested village, out of the
+  // decider's area and into the requester's. Undefined if the request was
+  // decided in the meantime, e.g. approved twice at once.
+  async decidePatientTransfer(
+    transfer: PatientTransfer,
+    approve: boolean,
+    decidedBy: number,
+  ): Promise<PatientTransfer | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [decided] = await tx
+        .update(patientTransfers)
+        .set({ status: approve ? 'approved' : 'rejected', decidedBy, decidedAt: now })
+        .where(and(eq(patientTransfers.id, transfer.id), eq(patientTransfers.status, 'pending')))
+        .returning();
+      if (!decided) {
+        return undefined;
+      }
+      if (approve) {
+        await tx
+          .update(patients)
+          .set({ villageId: transfer.toVillageId, version: sql`${patients.version} + 1`, updatedAt: now })
+          .where(eq(patients.id, transfer.patientId));
+        await tx.insert(patientChanges).values({
+          patientId: transfer.patientId,
+          field: 'villageId',
+          oldValue: transfer.fromVillageId === null ? null : String(transfer.fromVillageId),
+          newValue: String(transfer.toVillageId),
+          changedBy: decidedBy,
+        });
+      }
+      return decided;
+    });
+  }
+
+  // Vaccine operations
+  async getAllVaccines(includeInactive = false): Promise<Vaccine[]> {
+    return await db
+      .select()
+      .from(vaccines)
+      .where(includeInactive ? undefined : eq(vaccines.isActive, true))
+      .orderBy(asc(vaccines.name));
+  }
+
+  async getVaccine(id: number): Promise<Vaccine | undefined> {
+    const [vaccine] = await db.select().from(vaccines).where(eq(vaccines.id, id));
+    return vaccine || undefined;
+  }
+
+  async createVaccine(insertVaccine: InsertVaccine): Promise<Vaccine> {
+    const [vaccine] = await db.insert(vaccines).values(insertVaccine).returning();
+    return vaccine;
+  }
+
+  async updateVaccine(id: number, updates: Partial<InsertVaccine>): Promise<Vaccine> {
+    const [vaccine] = await db
+      .update(vaccines)
+      .set(updates)
+      .where(eq(vaccines.id, id))
+      .returning();
+    return vaccine;
+  }
+
+  // Doses still waiting to be given that reference this vaccine
+  async getPendingVaccinationCount(vaccineId: number): Promise<number> {
+    const [pending] = await db
       .select({ count: count() })
       .from(vaccinations)
-      .where(eq(vaccinations.status, 'completed'));
-    
-    const [due] = await db
-      .select({ count: count() })
+      .where(
+        and(
+          eq(vaccinations.vaccineId, vaccineId),
+          inArray(vaccinations.status, ['scheduled', 'overdue']),
+          inArray(vaccinations.patientId, activePatientIds())
+        )
+      );
+    return pending.count;
+  }
+
+  // Vaccination operations
+  async getVaccinationsByPatient(patientId: number): Promise<VaccinationWithLotStatus[]> {
+    return await db
+      .select({
+        ...getTableColumns(vaccinations),
+        lotStatus: vaccineLots.status,
+      })
+      .from(vaccinations)
+      .leftJoin(vaccineLots, eq(vaccinations.lotId, vaccineLots.id))
+      .where(and(eq(vaccinations.patientId, patientId), patientInScope(vaccinations.patientId)))
+      .orderBy(desc(vaccinations.scheduledDate));
+  }
+
+  async getAllVaccinations(locationId?: number): Promise<any[]> {
+    return await db
+      .select(vaccinationWithDetails)
+      .from(vaccinations)
+      .leftJoin(patients, eq(vaccinations.patientId, patients.id))
+      .leftJoin(vaccines, eq(vaccinations.vaccineId, vaccines.id))
+      .leftJoin(vaccineLots, eq(vaccinations.lotId, vaccineLots.id))
+      .where(and(eq(patients.status, 'active'), patientLocationCondition(locationId), patientScopeCondition()))
+      .orderBy(desc(vaccinations.createdAt));
+  }
+
+  // Filtered, keyset-paginated list for the vaccination tracker. The cursor
+  // encodes the sort value and id of the last row of the previous page.
+  async listVaccinations(filters: VaccinationListFilters = {}): Promise<{
+    items: any[];
+    nextCursor: string | null;
+  }> {
+    const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+    const sortBy = filters.sortBy ?? 'scheduledDate';
+    const order = filters.order ?? 'asc';
+
+    // Undated doses sort after dated ones in ascending order
+    const sortExpr = sortBy === 'createdAt'
+      ? sql`${vaccinations.createdAt}`
+      : sql`coalesce(${vaccinations.scheduledDate}, '9999-12-31'::date)`;
+    const castType = sql.raw(sortBy === 'createdAt' ? 'timestamp' : 'date');
+
+    const conditions = [eq(patients.status, 'active'), patientScopeCondition()];
+    if (filters.status) {
+      conditions.push(eq(vaccinations.status, filters.status));
+    }
+    if (filters.ageGroup) {
+      conditions.push(eq(patients.ageGroup, filters.ageGroup));
+    }
+    if (filters.vaccineId) {
+      conditions.push(eq(vaccinations.vaccineId, filters.vaccineId));
+    }
+    if (filters.from) {
+      conditions.push(gte(vaccinations.scheduledDate, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(vaccinations.scheduledDate, filters.to));
+    }
+    if (filters.assignedTo) {
+      conditions.push(eq(vaccinations.assignedTo, filters.assignedTo));
+    }
+    if (filters.village) {
+      conditions.push(ilike(patients.address, `%${filters.village}%`));
+    }
+    if (filters.locationId) {
+      conditions.push(inArray(patients.villageId, locationSubtree(filters.locationId)));
+    }
+    if (filters.cursor) {
+      const [value, id] = decodeCursor(filters.cursor);
+      conditions.push(order === 'asc'
+        ? sql`(${sortExpr}, ${vaccinations.id}) > (${value}::${castType}, ${id})`
+        : sql`(${sortExpr}, ${vaccinations.id}) < (${value}::${castType}, ${id})`);
+    }
+
+    const direction = order === 'asc' ? asc : desc;
+    const rows = await db
+      .select({ ...vaccinationWithDetails, sortValue: sql<string>`${sortExpr}::text` })
+      .from(vaccinations)
+      .leftJoin(patients, eq(vaccinations.patientId, patients.id))
+      .leftJoin(vaccines, eq(vaccinations.vaccineId, vaccines.id))
+      .leftJoin(vaccineLots, eq(vaccinations.lotId, vaccineLots.id))
+      .where(and(...conditions))
+      .orderBy(direction(sortExpr), direction(vaccinations.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map(({ sortValue, ...item }) => item),
+      nextCursor: hasMore && last ? encodeCursor(last.sortValue, last.id) : null,
+    };
+  }
+
+  async getVaccination(id: number): Promise<Vaccination | undefined> {
+    const [vaccination] = await db
+      .select()
+      .from(vaccinations)
+      .where(and(eq(vaccinations.id, id), patientInScope(vaccinations.patientId)));
+    return vaccination || undefined;
+  }
+
+  async createVaccination(insertVaccination: InsertVaccination): Promise<Vaccination> {
+    await this.checkPatientInScope(insertVaccination.patientId);
+    const values = await this.withLotNumber(insertVaccination);
+    return await db.transaction(async (tx) => {
+      const [vaccination] = await tx.insert(vaccinations).values(values).returning();
+      if (vaccination.status === 'completed') {
+        await this.drawDoseFromLot(vaccination, tx);
+        await this.scheduleRemainingDoses(vaccination, tx);
+      }
+      return vaccination;
+    });
+  }
+
+  // Status, administration and lot fields only change through transitionVaccination
+  async updateVaccination(id: number, updates: Partial<InsertVaccination>, baseVersion?: number): Promise<Vaccination | undefined> {
+    const [vaccination] = await db
+      .update(vaccinations)
+      .set({ ...updates, version: sql`${vaccinations.version} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(vaccinations.id, id),
+        baseVersion !== undefined ? eq(vaccinations.version, baseVersion) : undefined,
+        patientInScope(vaccinations.patientId),
+      ))
+      .returning();
+    if (!vaccination && baseVersion !== undefined) {
+      const current = await this.getVaccination(id);
+      if (current) {
+        throw new VersionConflictError(current);
+      }
+    }
+    return vaccination;
+  }
+
+  // Applies a status action (see vaccinationTransitions) and appends it to the
+  // dose's history. Callers check that the action is allowed from the current
+  // status; if the dose has changed since it was read, VersionConflictError is thrown.
+  // The status change, its history event, the stock drawn or returned and the
+  // rescheduled series are written together or not at all.
+  async transitionVaccination(
+    vaccination: Vaccination,
+    transition: VaccinationTransition,
+    changedBy: number | null,
+  ): Promise<Vaccination> {
+    const toStatus = vaccinationTransitions[transition.action].to;
+    let changes: Partial<InsertVaccination> = {};
+    switch (transition.action) {
+      case 'schedule':
+        changes = { scheduledDate: transition.scheduledDate };
+        break;
+      case 'administer':
+        changes = await this.withLotNumber({
+          administeredDate: transition.administeredDate,
+          administeredBy: changedBy,
+          lotId: transition.lotId ?? null,
+        });
+        break;
+      case 'reopen':
+        // The dose goes back on the schedule without its administration record
+        changes = {
+          administeredDate: null,
+          administeredBy: null,
+          lotId: null,
+          lotNumber: null,
+          ...(transition.scheduledDate ? { scheduledDate: transition.scheduledDate } : {}),
+        };
+        break;
+    }
+
+    const now = new Date();
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(vaccinations)
+        .set({
+          ...changes,
+          status: toStatus,
+          statusChangedAt: now,
+          version: sql`${vaccinations.version} + 1`,
+          updatedAt: now,
+        })
+        .where(and(eq(vaccinations.id, vaccination.id), eq(vaccinations.version, vaccination.version)))
+        .returning();
+      if (!updated) {
+        const current = await this.getVaccination(vaccination.id);
+        throw new VersionConflictError(current ?? vaccination);
+      }
+
+      await tx.insert(vaccinationEvents).values({
+        vaccinationId: vaccination.id,
+        action: transition.action,
+        fromStatus: vaccination.status,
+        toStatus,
+        reason: 'reason' in transition ? transition.reason || null : null,
+        details: Object.keys(changes).length > 0 ? changes : null,
+        changedBy,
+      });
+
+      if (transition.action === 'administer') {
+        await this.drawDoseFromLot(updated, tx);
+        await this.scheduleRemainingDoses(updated, tx);
+      } else if (transition.action === 'reopen' && vaccination.status === 'completed' && vaccination.lotId) {
+        // Put the dose drawn at administration back into the lot
+        await this.recordStockTransaction({
+          lotId: vaccination.lotId,
+          type: 'receipt',
+          quantity: 1,
+          vaccinationId: vaccination.id,
+          notes: 'Administration reversed on reopen',
+          createdBy: changedBy,
+        }, tx);
+      }
+
+      return updated;
+    });
+  }
+
+  // Completed doses as printed on a vaccination certificate, oldest first
+  async getCertificateDoses(patientId: number): Promise<CertificateDose[]> {
+    return await db
+      .select({
+        vaccinationId: vaccinations.id,
+        vaccineName: vaccines.name,
+        doseNumber: vaccinations.doseNumber,
+        administeredDate: vaccinations.administeredDate,
+        lotNumber: vaccinations.lotNumber,
+        administeredByName: users.name,
+      })
+      .from(vaccinations)
+      .leftJoin(vaccines, eq(vaccinations.vaccineId, vaccines.id))
+      .leftJoin(users, eq(vaccinations.administeredBy, users.id))
+      .where(
+        and(
+          eq(vaccinations.patientId, patientId),
+          eq(vaccinations.status, 'completed'),
+          patientInScope(vaccinations.patientId)
+        )
+      )
+      .orderBy(asc(vaccinations.administeredDate), asc(vaccinations.id));
+  }
+
+  // The latest certificate issued for exactly this set of doses
+  async getCertificateForDoses(patientId: number, dosesDigest: string): Promise<Certificate | undefined> {
+    const [certificate] = await db
+      .select()
+      .from(certificates)
+      .where(and(eq(certificates.patientId, patientId), eq(certificates.dosesDigest, dosesDigest)))
+      .orderBy(desc(certificates.issuedAt))
+      .limit(1);
+    return certificate || undefined;
+  }
+
+  async createCertificate(certificate: typeof certificates.$inferInsert): Promise<Certificate> {
+    const [created] = await db.insert(certificates).values(certificate).returning();
+    return created;
+  }
+
+  async getCertificateByCode(verificationCode: string): Promise<Certificate | undefined> {
+    const [certificate] = await db
+      .select()
+      .from(certificates)
+      .where(eq(certificates.verificationCode, verificationCode));
+    return certificate || undefined;
+  }
+
+  async getVaccinationEvents(vaccinationId: number): Promise<(VaccinationEvent & { changedByName: string | null })[]> {
+    return await db
+      .select({ ...getTableColumns(vaccinationEvents), changedByName: users.name })
+      .from(vaccinationEvents)
+      .leftJoin(users, eq(vaccinationEvents.changedBy, users.id))
+      .where(eq(vaccinationEvents.vaccinationId, vaccinationId))
+      .orderBy(asc(vaccinationEvents.createdAt), asc(vaccinationEvents.id));
+  }
+
+  // Copies the lot's batch number onto the record so it survives lot clean-up
+  private async withLotNumber<T extends Partial<InsertVaccination>>(values: T): Promise<T> {
+    if (!values.lotId) {
+      return values;
+    }
+    const lot = await this.getVaccineLot(values.lotId);
+    return { ...values, lotNumber: lot?.batchNumber ?? null };
+  }
+
+  private async drawDoseFromLot(vaccination: Vaccination, executor: DbExecutor): Promise<void> {
+    if (!vaccination.lotId) {
+      return;
+    }
+    await this.recordStockTransaction({
+      lotId: vaccination.lotId,
+      type: 'administered',
+      quantity: 1,
+      vaccinationId: vaccination.id,
+      createdBy: vaccination.administeredBy,
+    }, executor);
+  }
+
+  // Creates the later doses of a multi-dose series once a dose has been
+  // given, spacing them by the vaccine's intervalDays from the actual
+  // administered date, and pushes back any already scheduled too soon after
+  // it (see rescheduledDoseDate).
+  private async scheduleRemainingDoses(vaccination: Vaccination, executor: DbExecutor): Promise<void> {
+    const vaccine = await this.getVaccine(vaccination.vaccineId);
+    const dosesRequired = vaccine?.dosesRequired ?? 1;
+    if (!vaccine?.intervalDays || vaccination.doseNumber >= dosesRequired) {
+      return;
+    }
+
+    const baseDate = vaccination.administeredDate || new Date().toISOString().split('T')[0];
+    const series = await executor
+      .select()
       .from(vaccinations)
       .where(
         and(
-          eq(vaccinations.status, 'scheduled'),
-          sql`${vaccinations.scheduledDate} >= ${today}`
+          eq(vaccinations.patientId, vaccination.patientId),
+          eq(vaccinations.vaccineId, vaccination.vaccineId)
         )
       );
-    
-    const [overdue] = await db
-      .select({ count: count() })
+
+    for (let doseNumber = vaccination.doseNumber + 1; doseNumber <= dosesRequired; doseNumber++) {
+      const spacedDate = addDays(baseDate, vaccine.intervalDays * (doseNumber - vaccination.doseNumber));
+      const existing = series.find(v => v.doseNumber === doseNumber);
+
+      if (!existing) {
+        await executor.insert(vaccinations).values({
+          patientId: vaccination.patientId,
+          vaccineId: vaccination.vaccineId,
+          doseNumber,
+          scheduledDate: spacedDate,
+          status: 'scheduled',
+        });
+        continue;
+      }
+
+      const scheduledDate = rescheduledDoseDate(existing, spacedDate);
+      if (scheduledDate) {
+        // A dose pushed back into the future is no longer overdue
+        const today = new Date().toISOString().split('T')[0];
+        const reopen = existing.status === 'overdue' && scheduledDate >= today;
+        const [moved] = await executor
+          .update(vaccinations)
+          .set({
+            scheduledDate,
+            ...(reopen ? { status: 'scheduled', statusChangedAt: new Date() } : {}),
+            version: sql`${vaccinations.version} + 1`,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(vaccinations.id, existing.id), eq(vaccinations.status, existing.status)))
+          .returning({ id: vaccinations.id });
+        if (moved && reopen) {
+          await executor.insert(vaccinationEvents).values({
+            vaccinationId: existing.id,
+            action: 'schedule',
+            fromStatus: existing.status,
+            toStatus: 'scheduled',
+            reason: `Rescheduled after dose ${vaccination.doseNumber} was given`,
+            details: { scheduledDate },
+            changedBy: vaccination.administeredBy,
+          });
+        }
+      }
+    }
+  }
+
+  async getVaccinationStats(locationId?: number): Promise<{
+    completed: number;
+    due: number;
+    overdue: number;
+    missed: number;
+  }> {
+    // Overdue and missed come from the stored status maintained by the
+    // nightly status job rather than being inferred from dates here
+    const rows = await db
+      .select({ status: vaccinations.status, count: count() })
       .from(vaccinations)
+      .where(inArray(vaccinations.patientId, activePatientIds(locationId)))
+      .groupBy(vaccinations.status);
+    const countFor = (status: string) => rows.find(r => r.status === status)?.count ?? 0;
+
+    return {
+      completed: countFor('completed'),
+      due: countFor('scheduled'),
+      overdue: countFor('overdue'),
+      missed: countFor('missed'),
+    };
+  }
+
+  // Moves scheduled doses past their due date to 'overdue', and doses more
+  // than graceDays past due to 'missed', recording each change in the history
+  async markOverdueAndMissed(today: string, graceDays: number): Promise<{
+    overdue: number;
+    missed: number;
+  }> {
+    const missedBefore = addDays(today, -graceDays);
+    const missed = await this.applyAutomaticStatus(
+      ['scheduled', 'overdue'],
+      sql`${vaccinations.scheduledDate} < ${missedBefore}`,
+      'miss',
+      'missed',
+    );
+    const overdue = await this.applyAutomaticStatus(
+      ['scheduled'],
+      sql`${vaccinations.scheduledDate} < ${today}`,
+      'overdue',
+      'overdue',
+    );
+    return { overdue, missed };
+  }
+
+  // The doses are locked while they change and the update only touches those
+  // still in one of fromStatuses, so a dose given while the job runs keeps its
+  // new status. Returns how many doses changed.
+  private async applyAutomaticStatus(
+    fromStatuses: string[],
+    due: SQL,
+    action: string,
+    toStatus: string,
+  ): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const doses = await tx
+        .select({ id: vaccinations.id, status: vaccinations.status })
+        .from(vaccinations)
+        .where(and(
+          inArray(vaccinations.status, fromStatuses),
+          inArray(vaccinations.patientId, activePatientIds()),
+          due,
+        ))
+        .for('update');
+      if (doses.length === 0) {
+        return 0;
+      }
+
+      const now = new Date();
+      const updated = await tx
+        .update(vaccinations)
+        .set({ status: toStatus, statusChangedAt: now, version: sql`${vaccinations.version} + 1`, updatedAt: now })
+        .where(and(inArray(vaccinations.id, doses.map(d => d.id)), inArray(vaccinations.status, fromStatuses)))
+        .returning({ id: vaccinations.id });
+      const updatedIds = new Set(updated.map(row => row.id));
+      const changed = doses.filter(d => updatedIds.has(d.id));
+      if (changed.length > 0) {
+        await tx.insert(vaccinationEvents).values(
+          changed.map(d => ({
+            vaccinationId: d.id,
+            action,
+            fromStatus: d.status,
+            toStatus,
+            reason: 'Nightly status job',
+          }))
+        );
+      }
+      return changed.length;
+    });
+  }
+
+  // Vaccine inventory operations
+  async getVaccineLots(filters: { facility?: string; vaccineId?: number; storageUnitId?: number; locationId?: number } = {}): Promise<any[]> {
+    const conditions = [];
+    if (filters.facility) {
+      conditions.push(eq(vaccineLots.facility, filters.facility));
+    }
+    if (filters.locationId) {
+      conditions.push(inArray(vaccineLots.facility, facilityNamesWithin(filters.locationId)));
+    }
+    if (filters.vaccineId) {
+      conditions.push(eq(vaccineLots.vaccineId, filters.vaccineId));
+    }
+    if (filters.storageUnitId) {
+      conditions.push(eq(vaccineLots.storageUnitId, filters.storageUnitId));
+    }
+
+    return await db
+      .select({
+        id: vaccineLots.id,
+        vaccineId: vaccineLots.vaccineId,
+        batchNumber: vaccineLots.batchNumber,
+        manufacturer: vaccineLots.manufacturer,
+        expiryDate: vaccineLots.expiryDate,
+        facility: vaccineLots.facility,
+        quantity: vaccineLots.quantity,
+        storageUnitId: vaccineLots.storageUnitId,
+        status: vaccineLots.status,
+        quarantineReason: vaccineLots.quarantineReason,
+        createdAt: vaccineLots.createdAt,
+        vaccine: {
+          id: vaccines.id,
+          name: vaccines.name,
+        },
+      })
+      .from(vaccineLots)
+      .leftJoin(vaccines, eq(vaccineLots.vaccineId, vaccines.id))
+      .where(and(...conditions))
+      .orderBy(asc(vaccineLots.expiryDate));
+  }
+
+  async getVaccineLot(id: number): Promise<VaccineLot | undefined> {
+    const [lot] = await db.select().from(vaccineLots).where(eq(vaccineLots.id, id));
+    return lot || undefined;
+  }
+
+  // Registers a new lot; the opening quantity is recorded as its first receipt
+  async createVaccineLot(insertLot: InsertVaccineLot): Promise<VaccineLot> {
+    const [lot] = await db.insert(vaccineLots).values(insertLot).returning();
+    if (lot.quantity > 0) {
+      await db.insert(stockTransactions).values({
+        lotId: lot.id,
+        type: 'receipt',
+        quantity: lot.quantity,
+        notes: 'Opening stock',
+        createdBy: lot.createdBy,
+      });
+    }
+    return lot;
+  }
+
+  async updateVaccineLot(id: number, updates: Partial<InsertVaccineLot>): Promise<VaccineLot> {
+    const [lot] = await db
+      .update(vaccineLots)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(vaccineLots.id, id))
+      .returning();
+    return lot;
+  }
+
+  async getStockTransactions(lotId: number): Promise<StockTransaction[]> {
+    return await db
+      .select()
+      .from(stockTransactions)
+      .where(eq(stockTransactions.lotId, lotId))
+      .orderBy(desc(stockTransactions.createdAt));
+  }
+
+  // Records the movement and adjusts the lot's quantity together. Stock never
+  // goes below zero: if concurrent movements have used it up,
+  // InsufficientStockError is thrown and nothing is recorded.
+  async recordStockTransaction(
+    insertTransaction: InsertStockTransaction,
+    executor: DbExecutor = db,
+  ): Promise<StockTransaction> {
+    return await executor.transaction(async (tx) => {
+      const [transaction] = await tx.insert(stockTransactions).values(insertTransaction).returning();
+
+      // Receipts add stock; issues, wastage and administered doses remove it
+      const delta = transaction.type === 'receipt' ? transaction.quantity : -transaction.quantity;
+      const [lot] = await tx
+        .update(vaccineLots)
+        .set({
+          quantity: sql`${vaccineLots.quantity} + ${delta}`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(vaccineLots.id, transaction.lotId), sql`${vaccineLots.quantity} + ${delta} >= 0`))
+        .returning({ id: vaccineLots.id });
+      if (!lot) {
+        throw new InsufficientStockError();
+      }
+      return transaction;
+    });
+  }
+
+  // Lots with stock left that have expired or will within the window
+  async getExpiringLots(withinDays: number, locationId?: number): Promise<any[]> {
+    const cutoff = addDays(new Date().toISOString().split('T')[0], withinDays);
+    const lots = await this.getVaccineLots({ locationId });
+    return lots.filter(lot => lot.quantity > 0 && lot.expiryDate <= cutoff);
+  }
+
+  // Cold chain operations
+  async getStorageUnits(locationId?: number): Promise<StorageUnit[]> {
+    return await db
+      .select()
+      .from(storageUnits)
+      .where(locationId ? inArray(storageUnits.facility, facilityNamesWithin(locationId)) : undefined)
+      .orderBy(asc(storageUnits.facility), asc(storageUnits.name));
+  }
+
+  async getStorageUnit(id: number): Promise<StorageUnit | undefined> {
+    const [unit] = await db.select().from(storageUnits).where(eq(storageUnits.id, id));
+    return unit || undefined;
+  }
+
+  async createStorageUnit(insertUnit: InsertStorageUnit): Promise<StorageUnit> {
+    const [unit] = await db.insert(storageUnits).values(insertUnit).returning();
+    return unit;
+  }
+
+  async getTemperatureReadings(storageUnitId: number, limit = 60): Promise<TemperatureReading[]> {
+    return await db
+      .select()
+      .from(temperatureReadings)
+      .where(eq(temperatureReadings.storageUnitId, storageUnitId))
+      .orderBy(desc(temperatureReadings.readingAt))
+      .limit(limit);
+  }
+
+  // Flags each reading against the unit's safe range before saving
+  async recordTemperatureReadings(
+    unit: StorageUnit,
+    readings: InsertTemperatureReading[],
+  ): Promise<TemperatureReading[]> {
+    if (readings.length === 0) {
+      return [];
+    }
+
+    return await db
+      .insert(temperatureReadings)
+      .values(readings.map(reading => ({
+        ...reading,
+        storageUnitId: unit.id,
+        isExcursion: reading.temperature < unit.minTemp || reading.temperature > unit.maxTemp,
+      })))
+      .returning();
+  }
+
+  async getRecentExcursions(days: number, locationId?: number): Promise<any[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    return await db
+      .select({
+        id: temperatureReadings.id,
+        readingAt: temperatureReadings.readingAt,
+        temperature: temperatureReadings.temperature,
+        storageUnit: {
+          id: storageUnits.id,
+          name: storageUnits.name,
+          facility: storageUnits.facility,
+        },
+      })
+      .from(temperatureReadings)
+      .leftJoin(storageUnits, eq(temperatureReadings.storageUnitId, storageUnits.id))
+      .where(
+        and(
+          eq(temperatureReadings.isExcursion, true),
+          gte(temperatureReadings.readingAt, since),
+          locationId ? inArray(storageUnits.facility, facilityNamesWithin(locationId)) : undefined
+        )
+      )
+      .orderBy(desc(temperatureReadings.readingAt));
+  }
+
+  async quarantineLotsInUnit(storageUnitId: number, reason: string): Promise<VaccineLot[]> {
+    return await db
+      .update(vaccineLots)
+      .set({ status: 'quarantined', quarantineReason: reason, updatedAt: new Date() })
       .where(
         and(
-          eq(vaccinations.status, 'scheduled'),
-          sql`${vaccinations.scheduledDate} < ${today}`
+          eq(vaccineLots.storageUnitId, storageUnitId),
+          eq(vaccineLots.status, 'available')
+        )
+      )
+      .returning();
+  }
+
+  // AEFI operations
+  async getAefiReportsByPatient(patientId: number): Promise<AefiReport[]> {
+    return await db
+      .select()
+      .from(aefiReports)
+      .where(and(eq(aefiReports.patientId, patientId), patientInScope(aefiReports.patientId)))
+      .orderBy(desc(aefiReports.onsetAt));
+  }
+
+  async getAefiReport(id: number): Promise<AefiReport | undefined> {
+    const [report] = await db
+      .select()
+      .from(aefiReports)
+      .where(and(eq(aefiReports.id, id), patientInScope(aefiReports.patientId)));
+    return report || undefined;
+  }
+
+  async createAefiReport(insertReport: InsertAefiReport): Promise<AefiReport> {
+    const [report] = await db.insert(aefiReports).values(insertReport).returning();
+    return report;
+  }
+
+  async updateAefiReport(id: number, updates: Partial<InsertAefiReport>): Promise<AefiReport | undefined> {
+    const [report] = await db
+      .update(aefiReports)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(aefiReports.id, id), patientInScope(aefiReports.patientId)))
+      .returning();
+    return report;
+  }
+
+  // All AEFIs with the dose, vaccine and lot they followed, grouped by vaccine and lot
+  async getAllAefiReports(locationId?: number): Promise<any[]> {
+    return await db
+      .select({
+        id: aefiReports.id,
+        onsetAt: aefiReports.onsetAt,
+        symptoms: aefiReports.symptoms,
+        severity: aefiReports.severity,
+        isSerious: aefiReports.isSerious,
+        outcome: aefiReports.outcome,
+        followUpDate: aefiReports.followUpDate,
+        followUpNotes: aefiReports.followUpNotes,
+        createdAt: aefiReports.createdAt,
+        patient: {
+          id: patients.id,
+          name: patients.name,
+          patientId: patients.patientId,
+        },
+        vaccination: {
+          id: vaccinations.id,
+          doseNumber: vaccinations.doseNumber,
+          administeredDate: vaccinations.administeredDate,
+          lotNumber: vaccinations.lotNumber,
+        },
+        vaccine: {
+          id: vaccines.id,
+          name: vaccines.name,
+        },
+      })
+      .from(aefiReports)
+      .leftJoin(patients, eq(aefiReports.patientId, patients.id))
+      .leftJoin(vaccinations, eq(aefiReports.vaccinationId, vaccinations.id))
+      .leftJoin(vaccines, eq(vaccinations.vaccineId, vaccines.id))
+      .where(and(patientLocationCondition(locationId), patientScopeCondition()))
+      .orderBy(asc(vaccines.name), asc(vaccinations.lotNumber), desc(aefiReports.onsetAt));
+  }
+
+  // Schedule template operations
+  async getAllScheduleTemplates(): Promise<ScheduleTemplate[]> {
+    return await db
+      .select()
+      .from(scheduleTemplates)
+      .orderBy(asc(scheduleTemplates.ageGroup), asc(scheduleTemplates.dueAgeDays));
+  }
+
+  async createScheduleTemplate(insertTemplate: InsertScheduleTemplate): Promise<ScheduleTemplate> {
+    const [template] = await db.insert(scheduleTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateScheduleTemplate(id: number, updates: Partial<InsertScheduleTemplate>): Promise<ScheduleTemplate> {
+    const [template] = await db
+      .update(scheduleTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scheduleTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteScheduleTemplate(id: number): Promise<void> {
+    await db.delete(scheduleTemplates).where(eq(scheduleTemplates.id, id));
+  }
+
+  // Creates the scheduled doses a patient is due under the active templates
+  // for their age group. Doses already on record are left untouched, so this
+  // is safe to re-run after templates change.
+  async applyScheduleTemplates(patient: Patient): Promise<Vaccination[]> {
+    const templates = await db
+      .select()
+      .from(scheduleTemplates)
+      .where(
+        and(
+          eq(scheduleTemplates.ageGroup, patient.ageGroup),
+          eq(scheduleTemplates.isActive, true)
         )
       );
-    
+    if (templates.length === 0) {
+      return [];
+    }
+
+    // Pregnancy schedules run from registration; everything else from birth
+    const registeredOn = (patient.createdAt ?? new Date()).toISOString().split('T')[0];
+    const baseDate = patient.ageGroup !== 'pregnant' && patient.dateOfBirth
+      ? patient.dateOfBirth
+      : registeredOn;
+    const today = new Date().toISOString().split('T')[0];
+    const ageInDays = daysBetween(baseDate, today);
+
+    const existing = await this.getVaccinationsByPatient(patient.id);
+    const created: Vaccination[] = [];
+
+    for (const template of templates) {
+      if (template.maxAgeDays != null && ageInDays > template.maxAgeDays) {
+        continue;
+      }
+      const alreadyRecorded = existing.some(v =>
+        v.vaccineId === template.vaccineId && v.doseNumber === template.doseNumber
+      );
+      if (alreadyRecorded) {
+        continue;
+      }
+
+      const [vaccination] = await db
+        .insert(vaccinations)
+        .values({
+          patientId: patient.id,
+          vaccineId: template.vaccineId,
+          doseNumber: template.doseNumber,
+          scheduledDate: addDays(baseDate, template.dueAgeDays),
+          status: 'scheduled',
+        })
+        .returning();
+      created.push(vaccination);
+    }
+
+    return created;
+  }
+
+  async applyScheduleTemplatesToAll(ageGroup?: string): Promise<{
+    patients: number;
+    created: number;
+  }> {
+    const targets = await db
+      .select()
+      .from(patients)
+      .where(and(
+        eq(patients.status, 'active'),
+        ageGroup ? eq(patients.ageGroup, ageGroup) : undefined,
+      ));
+
+    let created = 0;
+    for (const patient of targets) {
+      const vaccinationsCreated = await this.applyScheduleTemplates(patient);
+      created += vaccinationsCreated.length;
+    }
+
     return {
-      completed: completed.count,
-      due: due.count,
-      overdue: overdue.count,
+      patients: targets.length,
+      created,
     };
   }
 
@@ -286,7 +2375,10 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(appointments)
-      .where(sql`DATE(${appointments.appointmentDate}) = ${date}`)
+      .where(and(
+        sql`DATE(${appointments.appointmentDate}) = ${date}`,
+        inArray(appointments.patientId, activePatientIds()),
+      ))
       .orderBy(asc(appointments.appointmentTime));
   }
 
@@ -294,32 +2386,193 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(appointments)
-      .where(eq(appointments.patientId, patientId))
+      .where(and(eq(appointments.patientId, patientId), patientInScope(appointments.patientId)))
       .orderBy(desc(appointments.appointmentDate));
   }
 
   async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
+    await this.checkPatientInScope(insertAppointment.patientId);
     const [appointment] = await db.insert(appointments).values(insertAppointment).returning();
     return appointment;
   }
 
-  async updateAppointment(id: number, updates: Partial<InsertAppointment>): Promise<Appointment> {
+  async updateAppointment(id: number, updates: Partial<InsertAppointment>): Promise<Appointment | undefined> {
     const [appointment] = await db
       .update(appointments)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(appointments.id, id))
+      .where(and(eq(appointments.id, id), patientInScope(appointments.patientId)))
       .returning();
     return appointment;
   }
 
-  async getTodayAppointments(): Promise<Appointment[]> {
+  async getTodayAppointments(locationId?: number): Promise<Appointment[]> {
     const today = new Date().toISOString().split('T')[0];
     return await db
       .select()
       .from(appointments)
-      .where(sql`DATE(${appointments.appointmentDate}) = ${today}`)
+      .where(and(
+        sql`DATE(${appointments.appointmentDate}) = ${today}`,
+        inArray(appointments.patientId, activePatientIds(locationId)),
+      ))
       .orderBy(asc(appointments.appointmentTime));
   }
+
+  // QR signing key operations
+  async getActiveSigningKey(): Promise<QrSigningKey> {
+    const [key] = await db
+      .select()
+      .from(qrSigningKeys)
+      .where(eq(qrSigningKeys.isActive, true))
+      .limit(1);
+    if (key) return key;
+    // The first card issued on a fresh install creates the initial key. Another
+    // request may be doing the same, so check again once we hold the lock.
+    return await db.transaction(async (tx) => {
+      await lockSigningKeys(tx);
+      const [created] = await tx
+        .select()
+        .from(qrSigningKeys)
+        .where(eq(qrSigningKeys.isActive, true))
+        .limit(1);
+      return created ?? await insertSigningKey(tx);
+    });
+  }
+
+  async getSigningKey(keyId: string): Promise<QrSigningKey | undefined> {
+    const [key] = await db.select().from(qrSigningKeys).where(eq(qrSigningKeys.keyId, keyId));
+    return key || undefined;
+  }
+
+  async getSigningKeys(): Promise<QrSigningKey[]> {
+    return await db.select().from(qrSigningKeys).orderBy(desc(qrSigningKeys.createdAt));
+  }
+
+  // Retires the active key and starts signing with a new one. Cards already
+  // issued keep verifying against their retired key.
+  async rotateSigningKey(): Promise<QrSigningKey> {
+    return await db.transaction(async (tx) => {
+      await lockSigningKeys(tx);
+      await tx
+        .update(qrSigningKeys)
+        .set({ isActive: false, retiredAt: new Date() })
+        .where(eq(qrSigningKeys.isActive, true));
+      return await insertSigningKey(tx);
+    });
+  }
+
+  // Background job operations
+  async startJobRun(name: string): Promise<JobRun> {
+    const [run] = await db
+      .insert(jobRuns)
+      .values({ name, startedAt: new Date() })
+      .returning();
+    return run;
+  }
+
+  async finishJobRun(id: number, counts: Record<string, number> | null, error?: string): Promise<JobRun> {
+    const [run] = await db
+      .update(jobRuns)
+      .set({ finishedAt: new Date(), counts, error: error ?? null })
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async getLastJobRun(name: string): Promise<JobRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(jobRuns)
+      .where(eq(jobRuns.name, name))
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(1);
+    return run;
+  }
+
+  // Offline sync operations
+  async getSyncResult(clientId: string, userId: number): Promise<SyncResult | undefined> {
+    const [row] = await db
+      .select({ result: syncMutations.result })
+      .from(syncMutations)
+      .where(and(eq(syncMutations.clientId, clientId), eq(syncMutations.userId, userId)));
+    return row?.result as SyncResult | undefined;
+  }
+
+  // Marks the mutation as being applied. Only one request can claim a
+  // clientId, so a batch resent while the first is still running can't apply
+  // it twice. Returns false if it was already claimed.
+  async claimSyncMutation(mutation: SyncMutation, userId: number): Promise<boolean> {
+    const pending: SyncResult = { clientId: mutation.clientId, status: 'pending' };
+    const claimed = await db
+      .insert(syncMutations)
+      .values({ clientId: mutation.clientId, userId, type: mutation.type, status: 'pending', result: pending })
+      .onConflictDoNothing({ target: syncMutations.clientId })
+      .returning({ id: syncMutations.id });
+    return claimed.length > 0;
+  }
+
+  // Drops a claim whose mutation failed to apply, so the device can retry it
+  async releaseSyncMutation(clientId: string, userId: number): Promise<void> {
+    await db
+      .delete(syncMutations)
+      .where(and(
+        eq(syncMutations.clientId, clientId),
+        eq(syncMutations.userId, userId),
+        eq(syncMutations.status, 'pending'),
+      ));
+  }
+
+  async recordSyncResult(mutation: SyncMutation, userId: number, result: SyncResult): Promise<void> {
+    await db
+      .update(syncMutations)
+      .set({ status: result.status, result })
+      .where(and(eq(syncMutations.clientId, mutation.clientId), eq(syncMutations.userId, userId)));
+  }
+
+  // Patients and doses in the worker's area (see access-scope.ts) changed
+  // since the given time. updatedAt is stamped before a write commits, so a
+  // row can become visible after a later cursor was handed out; the window
+  // reaches back SYNC_OVERLAP_MS before the cursor to pick such rows up, and
+  // devices simply fetch anything they see twice again.
+  async getChangesSince(since: Date | null): Promise<SyncChanges> {
+    const from = since ? new Date(since.getTime() - SYNC_OVERLAP_MS) : null;
+    const areaPatientIds = db
+      .select({ id: patients.id })
+      .from(patients)
+      .where(patientScopeCondition());
+
+    const changedPatients = await db
+      .select()
+      .from(patients)
+      .where(and(
+        inArray(patients.id, areaPatientIds),
+        from ? gt(patients.updatedAt, from) : undefined,
+      ))
+      .orderBy(asc(patients.updatedAt));
+
+    const changedVaccinations = await db
+      .select()
+      .from(vaccinations)
+      .where(and(
+        inArray(vaccinations.patientId, areaPatientIds),
+        from ? gt(vaccinations.updatedAt, from) : undefined,
+      ))
+      .orderBy(asc(vaccinations.updatedAt));
+
+    // Merged-away records are deleted, so they can't appear above. Devices
+    // drop any of these they hold; a first sync has nothing to drop.
+    const merges = from
+      ? await db
+        .select({ retiredId: patientMerges.retiredId })
+        .from(patientMerges)
+        .where(gt(patientMerges.mergedAt, from))
+      : [];
+
+    return {
+      patients: changedPatients,
+      vaccinations: changedVaccinations,
+      mergedPatientIds: merges.map(merge => merge.retiredId),
+    };
+  }
 }
 
 export const storage = new DatabaseStorage();
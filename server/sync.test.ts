@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Patient, Permission, SyncMutation, Vaccination } from "@shared/schema";
+
+// storage opens no connection until it is used, and every method these
+// tests reach is replaced below
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { storage, InsufficientStockError, VersionConflictError } = await import("./storage");
+const { applySyncMutation } = await import("./sync");
+
+const USER_ID = 5;
+const ALL: Permission[] = ['register_patient', 'edit_patient', 'administer_vaccine'];
+
+const patient = (fields: Partial<Patient> = {}) =>
+  ({ id: 10, patientId: 'RH-000123-4', name: 'Asha', status: 'active', version: 3, ...fields }) as Patient;
+
+const dose = (fields: Partial<Vaccination> = {}) =>
+  ({ id: 1, patientId: 10, vaccineId: 3, doseNumber: 1, status: 'scheduled', version: 2, ...fields }) as Vaccination;
+
+const editName = (baseVersion: number): SyncMutation => ({
+  clientId: '7d3f8a52-4b1e-4c7a-9f0e-2a6b8c1d5e90',
+  type: 'patient.update',
+  id: 10,
+  baseVersion,
+  data: { name: 'Asha Devi' },
+});
+
+const giveDose = (baseVersion: number): SyncMutation => ({
+  clientId: '1c9e4b7a-8d2f-4e6a-b3c5-7f0a9d8e1b24',
+  type: 'vaccination.transition',
+  id: 1,
+  baseVersion,
+  transition: { action: 'administer', administeredDate: '2024-03-01' },
+});
+
+describe("applySyncMutation", () => {
+  let recordSyncResult: ReturnType<typeof mock.method>;
+  let releaseSyncMutation: ReturnType<typeof mock.method>;
+
+  beforeEach(() => {
+    mock.method(storage, 'getSyncResult', async () => undefined);
+    mock.method(storage, 'claimSyncMutation', async () => true);
+    recordSyncResult = mock.method(storage, 'recordSyncResult', async () => {});
+    releaseSyncMutation = mock.method(storage, 'releaseSyncMutation', async () => {});
+    mock.method(storage, 'getPatient', async () => patient());
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("applies an edit and records the result", async () => {
+    mock.method(storage, 'updatePatient', async () => patient({ name: 'Asha Devi', version: 4 }));
+    const result = await applySyncMutation(editName(3), USER_ID, ALL);
+    assert.equal(result.status, 'applied');
+    assert.equal(result.version, 4);
+    assert.equal(recordSyncResult.mock.callCount(), 1);
+    assert.deepEqual(recordSyncResult.mock.calls[0].arguments[2], result);
+  });
+
+  it("returns the recorded result for a resent change without applying it again", async () => {
+    const recorded = { clientId: editName(3).clientId, status: 'applied' as const, id: 10, version: 4 };
+    mock.method(storage, 'getSyncResult', async () => recorded);
+    const updatePatient = mock.method(storage, 'updatePatient', async () => patient());
+    assert.deepEqual(await applySyncMutation(editName(3), USER_ID, ALL), recorded);
+    assert.equal(updatePatient.mock.callCount(), 0);
+  });
+
+  it("rejects a change the role may not make, without recording it", async () => {
+    const claim = mock.method(storage, 'claimSyncMutation', async () => true);
+    const result = await applySyncMutation(editName(3), USER_ID, ['register_patient']);
+    assert.equal(result.status, 'rejected');
+    assert.equal(claim.mock.callCount(), 0);
+    assert.equal(recordSyncResult.mock.callCount(), 0);
+  });
+
+  it("doesn't apply a change another request has already claimed", async () => {
+    const pending = { clientId: editName(3).clientId, status: 'pending' as const };
+    let lookups = 0;
+    mock.method(storage, 'getSyncResult', async () => (lookups++ === 0 ? undefined : pending));
+    mock.method(storage, 'claimSyncMutation', async () => false);
+    const updatePatient = mock.method(storage, 'updatePatient', async () => patient());
+    assert.deepEqual(await applySyncMutation(editName(3), USER_ID, ALL), pending);
+    assert.equal(updatePatient.mock.callCount(), 0);
+  });
+
+  it("answers an edit made against an old version with the current record", async () => {
+    const current = patient({ name: 'Asha K', version: 5 });
+    mock.method(storage, 'updatePatient', async () => {
+      throw new VersionConflictError(current);
+    });
+    const result = await applySyncMutation(editName(3), USER_ID, ALL);
+    assert.equal(result.status, 'conflict');
+    assert.equal(result.version, 5);
+    assert.deepEqual(result.record, current);
+    assert.equal(recordSyncResult.mock.callCount(), 1);
+  });
+
+  it("answers a dose action against an old version with the current dose", async () => {
+    mock.method(storage, 'getVaccination', async () => dose({ version: 3 }));
+    const transition = mock.method(storage, 'transitionVaccination', async () => dose());
+    const result = await applySyncMutation(giveDose(2), USER_ID, ALL);
+    assert.equal(result.status, 'conflict');
+    assert.equal(result.version, 3);
+    assert.equal(transition.mock.callCount(), 0);
+  });
+
+  it("rejects a dose action the dose's status doesn't allow", async () => {
+    mock.method(storage, 'getVaccination', async () => dose({ status: 'cancelled' }));
+    const result = await applySyncMutation(giveDose(2), USER_ID, ALL);
+    assert.equal(result.status, 'rejected');
+    assert.equal(result.message, "Cannot administer a vaccination that is cancelled");
+  });
+
+  it("rejects a dose drawn from a lot that ran out meanwhile", async () => {
+    mock.method(storage, 'getVaccination', async () => dose());
+    mock.method(storage, 'transitionVaccination', async () => {
+      throw new InsufficientStockError();
+    });
+    const result = await applySyncMutation(giveDose(2), USER_ID, ALL);
+    assert.equal(result.status, 'rejected');
+    assert.equal(result.message, "Selected lot has no stock left");
+  });
+
+  it("releases the claim when applying fails, so the change can be resent", async () => {
+    mock.method(storage, 'updatePatient', async () => {
+      throw new Error("connection lost");
+    });
+    await assert.rejects(applySyncMutation(editName(3), USER_ID, ALL), /connection lost/);
+    assert.equal(releaseSyncMutation.mock.callCount(), 1);
+    assert.equal(recordSyncResult.mock.callCount(), 0);
+  });
+});
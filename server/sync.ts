@@ -0,0 +1,127 @@
+import { registerPatientSchema, type InsertPatient, type Permission, type SyncMutation } from "@shared/schema";
+import { storage, InsufficientStockError, InvalidPatientIdError, OutOfScopeError, VersionConflictError, type SyncResult } from "./storage";
+import { prepareRegistration } from "./patient-registration";
+import { checkVaccinationTransition } from "./vaccination-rules";
+
+// What the user's role must allow for each kind of mutation, as for the
+// matching routes
+const MUTATION_PERMISSIONS: Record<SyncMutation['type'], Permission> = {
+  'patient.create': 'register_patient',
+  'patient.update': 'edit_patient',
+  'vaccination.update': 'administer_vaccine',
+  'vaccination.transition': 'administer_vaccine',
+};
+
+// Applies one mutation from a device's sync batch. A clientId that has been
+// seen before returns the recorded result without applying anything, so a
+// device can safely resend a batch whose response it never received. The
+// clientId is claimed before applying, so a resend that arrives while the
+// first request is still running gets 'pending' instead of a second copy.
+export async function applySyncMutation(
+  mutation: SyncMutation,
+  userId: number,
+  permissions: readonly Permission[],
+): Promise<SyncResult> {
+  const { clientId } = mutation;
+  const previous = await storage.getSyncResult(clientId, userId);
+  if (previous) {
+    return previous;
+  }
+
+  // Not recorded, so the change goes through if it is resent after the
+  // role is given the permission
+  if (!permissions.includes(MUTATION_PERMISSIONS[mutation.type])) {
+    return { clientId, status: 'rejected', message: "You don't have permission to do this" };
+  }
+
+  if (!(await storage.claimSyncMutation(mutation, userId))) {
+    return await storage.getSyncResult(clientId, userId)
+      ?? { clientId, status: 'rejected', message: "This change id has already been used" };
+  }
+
+  let result: SyncResult;
+  try {
+    result = await apply(mutation, userId);
+  } catch (error) {
+    await storage.releaseSyncMutation(clientId, userId);
+    throw error;
+  }
+  // If this fails the claim stays pending: the change was made, so a retry
+  // must not make it again
+  await storage.recordSyncResult(mutation, userId, result);
+  return result;
+}
+
+async function apply(mutation: SyncMutation, userId: number): Promise<SyncResult> {
+  const { clientId } = mutation;
+  try {
+    switch (mutation.type) {
+      case 'patient.create': {
+        const data: InsertPatient = registerPatientSchema.parse({ ...mutation.data, createdBy: userId });
+        const refusal = await prepareRegistration(data, mutation.motherId, userId);
+        if (refusal) {
+          return { clientId, status: 'rejected', message: refusal };
+        }
+        const patient = await storage.createPatient(data, mutation.patientId);
+        return { clientId, status: 'applied', id: patient.id, version: patient.version, record: patient };
+      }
+
+      case 'patient.update': {
+        if (mutation.data.villageId && !(await storage.isLocationAtLevel(mutation.data.villageId, ['village']))) {
+          return { clientId, status: 'rejected', id: mutation.id, message: "Patients can only be assigned to a village" };
+        }
+        const patient = await storage.updatePatient(mutation.id, mutation.data, mutation.baseVersion, userId);
+        if (!patient) {
+          const merge = await storage.getPatientMerge({ id: mutation.id });
+          const message = merge
+            ? `Patient ${merge.retiredPatientId} was merged into another record; edit that record instead`
+            : "Patient not found";
+          return { clientId, status: 'rejected', id: mutation.id, message };
+        }
+        return { clientId, status: 'applied', id: patient.id, version: patient.version, record: patient };
+      }
+
+      case 'vaccination.update': {
+        const vaccination = await storage.updateVaccination(mutation.id, mutation.data, mutation.baseVersion);
+        if (!vaccination) {
+          return { clientId, status: 'rejected', id: mutation.id, message: "Vaccination not found" };
+        }
+        return { clientId, status: 'applied', id: vaccination.id, version: vaccination.version, record: vaccination };
+      }
+
+      case 'vaccination.transition': {
+        const vaccination = await storage.getVaccination(mutation.id);
+        if (!vaccination) {
+          return { clientId, status: 'rejected', id: mutation.id, message: "Vaccination not found" };
+        }
+        if (vaccination.version !== mutation.baseVersion) {
+          throw new VersionConflictError(vaccination);
+        }
+        const rejection = await checkVaccinationTransition(vaccination, mutation.transition);
+        if (rejection) {
+          return { clientId, status: 'rejected', id: mutation.id, message: rejection.message };
+        }
+        const updated = await storage.transitionVaccination(vaccination, mutation.transition, userId);
+        return { clientId, status: 'applied', id: updated.id, version: updated.version, record: updated };
+      }
+    }
+  } catch (error) {
+    if (error instanceof InvalidPatientIdError || error instanceof OutOfScopeError) {
+      return { clientId, status: 'rejected', message: error.message };
+    }
+    if (error instanceof InsufficientStockError) {
+      return { clientId, status: 'rejected', message: "Selected lot has no stock left" };
+    }
+    if (error instanceof VersionConflictError) {
+      return {
+        clientId,
+        status: 'conflict',
+        id: error.current.id,
+        version: error.current.version,
+        record: error.current,
+        message: error.message,
+      };
+    }
+    throw error;
+  }
+}
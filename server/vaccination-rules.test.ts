@@ -0,0 +1,109 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Patient, Vaccination, VaccineLot } from "@shared/schema";
+
+// storage opens no connection until it is used, and every method these
+// tests reach is replaced below
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { storage } = await import("./storage");
+const { checkNewVaccination, checkVaccinationTransition } = await import("./vaccination-rules");
+
+const dose = (fields: Partial<Vaccination> = {}) =>
+  ({ id: 1, patientId: 10, vaccineId: 3, doseNumber: 1, status: 'scheduled', version: 1, ...fields }) as Vaccination;
+
+const lot = (fields: Partial<VaccineLot> = {}) =>
+  ({ id: 7, vaccineId: 3, quantity: 20, status: 'available', expiryDate: '2099-12-31', ...fields }) as VaccineLot;
+
+function withPatient(status = 'active') {
+  mock.method(storage, 'getPatient', async () => ({ id: 10, status }) as Patient);
+}
+
+function withLot(found: VaccineLot | undefined) {
+  mock.method(storage, 'getVaccineLot', async () => found);
+}
+
+describe("checkVaccinationTransition", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("allows an action from a status it applies to", async () => {
+    withPatient();
+    assert.equal(await checkVaccinationTransition(dose(), { action: 'miss' }), null);
+  });
+
+  it("refuses an action from the wrong status with 409", async () => {
+    withPatient();
+    const cancel = { action: 'cancel', reason: 'Given elsewhere' } as const;
+    assert.deepEqual(await checkVaccinationTransition(dose({ status: 'completed' }), cancel), {
+      status: 409,
+      message: "Cannot cancel a vaccination that is completed",
+    });
+  });
+
+  it("refuses to give or reschedule doses for a closed record", async () => {
+    withPatient('deceased');
+    const rejection = await checkVaccinationTransition(dose(), { action: 'administer', administeredDate: '2024-03-01' });
+    assert.deepEqual(rejection, { status: 409, message: "The patient's record is closed" });
+  });
+
+  it("still lets doses of a closed record be cancelled", async () => {
+    withPatient('deceased');
+    assert.equal(await checkVaccinationTransition(dose(), { action: 'cancel', reason: 'Given elsewhere' }), null);
+  });
+
+  it("refuses an administered date in the future", async () => {
+    withPatient();
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const rejection = await checkVaccinationTransition(dose(), { action: 'administer', administeredDate: tomorrow });
+    assert.equal(rejection?.status, 400);
+  });
+
+  it("checks the lot a dose is drawn from", async () => {
+    withPatient();
+    const administer = { action: 'administer', administeredDate: '2024-03-01', lotId: 7 } as const;
+    const cases: [VaccineLot | undefined, string | null][] = [
+      [lot(), null],
+      [undefined, "Selected lot has no stock left"],
+      [lot({ quantity: 0 }), "Selected lot has no stock left"],
+      [lot({ status: 'quarantined' }), "Selected lot is quarantined and cannot be used"],
+      [lot({ vaccineId: 4 }), "Selected lot is for a different vaccine"],
+      [lot({ expiryDate: '2024-02-29' }), "Selected lot expired on 2024-02-29"],
+      [lot({ expiryDate: '2024-03-01' }), null],
+    ];
+    for (const [found, message] of cases) {
+      withLot(found);
+      const rejection = await checkVaccinationTransition(dose(), administer);
+      assert.equal(rejection?.message ?? null, message);
+    }
+  });
+});
+
+describe("checkNewVaccination", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("only creates scheduled or completed doses", async () => {
+    withPatient();
+    const rejection = await checkNewVaccination({ patientId: 10, vaccineId: 3, doseNumber: 1, status: 'missed' });
+    assert.equal(rejection?.status, 400);
+  });
+
+  it("refuses a lot on a dose that hasn't been given", async () => {
+    withPatient();
+    const rejection = await checkNewVaccination({ patientId: 10, vaccineId: 3, doseNumber: 1, lotId: 7 });
+    assert.deepEqual(rejection, { status: 400, message: "Only completed vaccinations can have a lot" });
+  });
+
+  it("needs an administered date for a completed dose", async () => {
+    withPatient();
+    const rejection = await checkNewVaccination({ patientId: 10, vaccineId: 3, doseNumber: 1, status: 'completed' });
+    assert.deepEqual(rejection, { status: 400, message: "Completed vaccinations need an administered date" });
+  });
+
+  it("checks the lot of a completed dose", async () => {
+    withPatient();
+    withLot(lot({ expiryDate: '2024-01-31' }));
+    const rejection = await checkNewVaccination({
+      patientId: 10, vaccineId: 3, doseNumber: 1, status: 'completed', administeredDate: '2024-03-01', lotId: 7,
+    });
+    assert.equal(rejection?.message, "Selected lot expired on 2024-01-31");
+  });
+});
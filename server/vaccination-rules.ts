@@ -0,0 +1,94 @@
+import { vaccinationTransitions, type InsertVaccination, type Vaccination, type VaccinationTransition } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface TransitionRejection {
+  status: 400 | 409;
+  message: string;
+}
+
+// Checks a status action against the dose as it is now. Used by the action
+// routes and by offline sync, which replays the same actions later.
+export async function checkVaccinationTransition(
+  vaccination: Vaccination,
+  transition: VaccinationTransition,
+): Promise<TransitionRejection | null> {
+  const allowedFrom: readonly string[] = vaccinationTransitions[transition.action].from;
+  if (!allowedFrom.includes(vaccination.status)) {
+    return {
+      status: 409,
+      message: `Cannot ${transition.action} a vaccination that is ${vaccination.status}`,
+    };
+  }
+
+  // A closed record can still have doses cancelled or marked missed, but
+  // nothing new is scheduled or given
+  if (transition.action === 'administer' || transition.action === 'schedule' || transition.action === 'reopen') {
+    const rejection = await checkPatientActive(vaccination.patientId);
+    if (rejection) {
+      return rejection;
+    }
+  }
+
+  if (transition.action === 'administer') {
+    return checkAdministration(vaccination.vaccineId, transition.administeredDate, transition.lotId);
+  }
+
+  return null;
+}
+
+// Checks a dose created directly, e.g. one recorded as already completed.
+// Completed doses draw from their lot, so they get the administer checks.
+export async function checkNewVaccination(vaccination: InsertVaccination): Promise<TransitionRejection | null> {
+  if (vaccination.status && !['scheduled', 'completed'].includes(vaccination.status)) {
+    return { status: 400, message: "New vaccinations must be scheduled or completed" };
+  }
+  const closed = await checkPatientActive(vaccination.patientId);
+  if (closed) {
+    return closed;
+  }
+  if (vaccination.status !== 'completed') {
+    if (vaccination.lotId) {
+      return { status: 400, message: "Only completed vaccinations can have a lot" };
+    }
+    return null;
+  }
+  if (!vaccination.administeredDate) {
+    return { status: 400, message: "Completed vaccinations need an administered date" };
+  }
+  return checkAdministration(vaccination.vaccineId, vaccination.administeredDate, vaccination.lotId);
+}
+
+async function checkPatientActive(patientId: number): Promise<TransitionRejection | null> {
+  const patient = await storage.getPatient(patientId);
+  if (patient && patient.status !== 'active') {
+    return { status: 409, message: "The patient's record is closed" };
+  }
+  return null;
+}
+
+async function checkAdministration(
+  vaccineId: number,
+  administeredDate: string,
+  lotId: number | null | undefined,
+): Promise<TransitionRejection | null> {
+  const today = new Date().toISOString().split('T')[0];
+  if (administeredDate > today) {
+    return { status: 400, message: "Administered date cannot be in the future" };
+  }
+  if (lotId) {
+    const lot = await storage.getVaccineLot(lotId);
+    if (!lot || lot.quantity < 1) {
+      return { status: 400, message: "Selected lot has no stock left" };
+    }
+    if (lot.status !== 'available') {
+      return { status: 400, message: `Selected lot is ${lot.status} and cannot be used` };
+    }
+    if (lot.vaccineId !== vaccineId) {
+      return { status: 400, message: "Selected lot is for a different vaccine" };
+    }
+    if (lot.expiryDate < administeredDate) {
+      return { status: 400, message: `Selected lot expired on ${lot.expiryDate}` };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { hasValidCheckDigit, isMistypedPatientId, luhnCheckDigit } from "./patient-ids";
+
+describe("luhnCheckDigit", () => {
+  it("matches the Luhn algorithm", () => {
+    assert.equal(luhnCheckDigit('7992739871'), 3);
+    assert.equal(luhnCheckDigit('000123'), 0);
+    assert.equal(luhnCheckDigit('000000'), 0);
+  });
+
+  it("catches a single mistyped digit and swapped neighbours", () => {
+    const digit = luhnCheckDigit('004512');
+    assert.notEqual(luhnCheckDigit('004513'), digit);
+    assert.notEqual(luhnCheckDigit('005412'), digit);
+  });
+});
+
+describe("hasValidCheckDigit", () => {
+  it("accepts IDs whose check digit matches", () => {
+    assert.equal(hasValidCheckDigit('RH-000123-0'), true);
+    assert.equal(hasValidCheckDigit(' ka-blr-000123-0 '), true);
+  });
+
+  it("rejects a wrong check digit and IDs in other formats", () => {
+    assert.equal(hasValidCheckDigit('RH-000123-4'), false);
+    assert.equal(hasValidCheckDigit('RH000123'), false);
+    assert.equal(hasValidCheckDigit('RH-123-0'), false);
+  });
+});
+
+describe("isMistypedPatientId", () => {
+  it("flags only current-format IDs with the wrong digit", () => {
+    assert.equal(isMistypedPatientId('RH-000123-4'), true);
+    assert.equal(isMistypedPatientId('RH-000123-0'), false);
+    assert.equal(isMistypedPatientId('RH000123'), false);
+    assert.equal(isMistypedPatientId('Asha Devi'), false);
+    assert.equal(isMistypedPatientId('9876543210'), false);
+  });
+});
@@ -0,0 +1,33 @@
+// Check digit rules for patient IDs like RH-000123-4, shared so the browser
+// can catch a mistyped ID before it is searched for. Issuing IDs is done by
+// server/patient-ids.ts.
+
+// IDs in the current format: a prefix (RH, or e.g. KA-BLR), the number and
+// its check digit. Older IDs such as RH000123 don't match.
+export const PATIENT_ID_PATTERN = /^[A-Z][A-Z0-9-]*-(\d{6,})-(\d)$/i;
+
+export function luhnCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Double every second digit, counting from the rightmost
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+// True for IDs in the current format whose check digit matches
+export function hasValidCheckDigit(patientId: string): boolean {
+  const match = PATIENT_ID_PATTERN.exec(patientId.trim());
+  return !!match && luhnCheckDigit(match[1]) === Number(match[2]);
+}
+
+// True for text typed in the current ID format whose check digit is wrong,
+// i.e. an ID that was mistyped rather than a name or phone number
+export function isMistypedPatientId(value: string): boolean {
+  return PATIENT_ID_PATTERN.test(value.trim()) && !hasValidCheckDigit(value);
+}
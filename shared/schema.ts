@@ -1,5 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, date, varchar, jsonb, index } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, pgSequence, type AnyPgColumn, text, serial, integer, boolean, timestamp, date, varchar, jsonb, index, uniqueIndex, real } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -19,10 +19,11 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull().default("health_worker"), // 'admin' or 'health_worker'
+  role: text("role").notNull().default("health_worker"), // see userRoles
   name: text("name").notNull(),
   phone: text("phone"),
   email: text("email"),
+  facilityId: integer("facility_id").references((): AnyPgColumn => locations.id), // PHC or sub-centre the user works at
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -31,23 +32,68 @@ export const users = pgTable("users", {
 // Patients table
 export const patients = pgTable("patients", {
   id: serial("id").primaryKey(),
-  patientId: text("patient_id").notNull().unique(), // e.g., RH001234
+  patientId: text("patient_id").notNull().unique(), // e.g., RH-001234-5 (older records: RH001234)
   name: text("name").notNull(),
   phone: text("phone"),
   dateOfBirth: date("date_of_birth"),
   gender: text("gender"), // 'male', 'female', 'other'
   address: text("address"),
+  villageId: integer("village_id").references((): AnyPgColumn => locations.id),
   guardianName: text("guardian_name"),
   guardianPhone: text("guardian_phone"),
   ageGroup: text("age_group").notNull(), // 'infant', 'child', 'pregnant', 'elderly', 'adult'
   qrCode: text("qr_code").unique(),
   medicalHistory: text("medical_history"),
   allergies: text("allergies"),
+  householdId: integer("household_id").references((): AnyPgColumn => households.id),
+  relationship: text("relationship"), // to the household head: 'head', 'spouse', 'child', 'parent', 'sibling', 'other'
+  status: text("status").notNull().default("active"), // see patientStatuses
+  statusDate: date("status_date"), // when the patient died, moved away, etc.
+  statusReason: text("status_reason"),
+  version: integer("version").notNull().default(1), // bumped on every write; sync clients send it back to detect conflicts
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   createdBy: integer("created_by").references(() => users.id),
 });
 
+// Administrative hierarchy: district → block → PHC → sub-centre → village.
+// Every location except a district has a parent one level up.
+export const locations = pgTable(
+  "locations",
+  {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(),
+    level: text("level").notNull(), // see locationLevels
+    parentId: integer("parent_id").references((): AnyPgColumn => locations.id),
+    code: text("code"), // e.g. the LGD or HMIS code
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_locations_parent").on(table.parentId)],
+);
+
+// Per-field history of edits to a patient, so corrections to identifying
+// details such as the name or date of birth can be audited
+export const patientChanges = pgTable("patient_changes", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  field: text("field").notNull(), // e.g. 'dateOfBirth'
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  changedBy: integer("changed_by").references(() => users.id),
+  changedAt: timestamp("changed_at").defaultNow(),
+});
+
+// Households group the patients who live together, e.g. a mother and her children
+export const households = pgTable("households", {
+  id: serial("id").primaryKey(),
+  headPatientId: integer("head_patient_id").references((): AnyPgColumn => patients.id),
+  address: text("address"),
+  village: text("village"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Vaccines table
 export const vaccines = pgTable("vaccines", {
   id: serial("id").primaryKey(),
@@ -56,7 +102,38 @@ export const vaccines = pgTable("vaccines", {
   ageGroup: text("age_group").notNull(),
   dosesRequired: integer("doses_required").default(1),
   intervalDays: integer("interval_days"), // days between doses
+  minAgeDays: integer("min_age_days"), // earliest age the vaccine may be given
+  maxAgeDays: integer("max_age_days"), // latest age the vaccine may be given
+  isActive: boolean("is_active").default(true),
+});
+
+// Cold chain storage units (ILRs, freezers) holding vaccine stock
+export const storageUnits = pgTable("storage_units", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  facility: text("facility").notNull(),
+  type: text("type").notNull().default("ilr"), // 'ilr', 'deep_freezer', 'refrigerator', 'cold_box'
+  minTemp: real("min_temp").notNull().default(2),
+  maxTemp: real("max_temp").notNull().default(8),
   isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Vaccine stock lots held at each facility
+export const vaccineLots = pgTable("vaccine_lots", {
+  id: serial("id").primaryKey(),
+  vaccineId: integer("vaccine_id").notNull().references(() => vaccines.id),
+  batchNumber: text("batch_number").notNull(),
+  manufacturer: text("manufacturer"),
+  expiryDate: date("expiry_date").notNull(),
+  facility: text("facility").notNull(), // sub-centre holding the stock
+  quantity: integer("quantity").notNull().default(0), // doses currently on hand
+  storageUnitId: integer("storage_unit_id").references(() => storageUnits.id),
+  status: text("status").notNull().default("available"), // 'available', 'quarantined', 'discarded'
+  quarantineReason: text("quarantine_reason"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Vaccination records table
@@ -67,9 +144,83 @@ export const vaccinations = pgTable("vaccinations", {
   doseNumber: integer("dose_number").notNull(),
   scheduledDate: date("scheduled_date"),
   administeredDate: date("administered_date"),
-  status: text("status").notNull().default("scheduled"), // 'scheduled', 'completed', 'missed', 'overdue'
+  status: text("status").notNull().default("scheduled"), // 'scheduled', 'completed', 'missed', 'overdue', 'cancelled'
+  statusChangedAt: timestamp("status_changed_at"),
   notes: text("notes"),
   administeredBy: integer("administered_by").references(() => users.id),
+  assignedTo: integer("assigned_to").references(() => users.id), // health worker responsible for the dose
+  lotId: integer("lot_id").references(() => vaccineLots.id),
+  lotNumber: text("lot_number"), // batch number of the lot the dose was drawn from
+  version: integer("version").notNull().default(1), // bumped on every write, like patients.version
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Twice-daily (or data logger) temperature readings per storage unit
+export const temperatureReadings = pgTable("temperature_readings", {
+  id: serial("id").primaryKey(),
+  storageUnitId: integer("storage_unit_id").notNull().references(() => storageUnits.id),
+  readingAt: timestamp("reading_at").notNull(),
+  session: text("session").notNull(), // 'morning', 'evening'
+  temperature: real("temperature").notNull(),
+  isExcursion: boolean("is_excursion").notNull().default(false),
+  source: text("source").notNull().default("manual"), // 'manual', 'logger'
+  recordedBy: integer("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Immutable history of vaccination status changes
+export const vaccinationEvents = pgTable("vaccination_events", {
+  id: serial("id").primaryKey(),
+  vaccinationId: integer("vaccination_id").notNull().references(() => vaccinations.id),
+  action: text("action").notNull(), // 'schedule', 'administer', 'miss', 'cancel', 'reopen', 'overdue'
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  reason: text("reason"),
+  details: jsonb("details"), // fields changed by the action, e.g. { scheduledDate }
+  changedBy: integer("changed_by").references(() => users.id), // null for the nightly status job
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Adverse events following immunization, linked to the dose that preceded them
+export const aefiReports = pgTable("aefi_reports", {
+  id: serial("id").primaryKey(),
+  vaccinationId: integer("vaccination_id").notNull().references(() => vaccinations.id),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  onsetAt: timestamp("onset_at").notNull(),
+  symptoms: text("symptoms").notNull(),
+  severity: text("severity").notNull(), // 'mild', 'moderate', 'severe'
+  isSerious: boolean("is_serious").notNull().default(false), // death, hospitalization, disability, etc.
+  outcome: text("outcome").notNull().default("unknown"), // 'recovering', 'recovered', 'recovered_with_sequelae', 'hospitalized', 'died', 'unknown'
+  followUpDate: date("follow_up_date"),
+  followUpNotes: text("follow_up_notes"),
+  reportedBy: integer("reported_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Stock movements against a vaccine lot
+export const stockTransactions = pgTable("stock_transactions", {
+  id: serial("id").primaryKey(),
+  lotId: integer("lot_id").notNull().references(() => vaccineLots.id),
+  type: text("type").notNull(), // 'receipt', 'issue', 'wastage', 'administered'
+  quantity: integer("quantity").notNull(),
+  vaccinationId: integer("vaccination_id").references(() => vaccinations.id),
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Immunization schedule templates applied to patients at registration
+export const scheduleTemplates = pgTable("schedule_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // e.g., 'Penta-1 at 6 weeks'
+  ageGroup: text("age_group").notNull(),
+  vaccineId: integer("vaccine_id").notNull().references(() => vaccines.id),
+  doseNumber: integer("dose_number").notNull().default(1),
+  dueAgeDays: integer("due_age_days").notNull(), // days from date of birth (or registration for pregnancy)
+  maxAgeDays: integer("max_age_days"), // skip if the patient is already older than this
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -89,8 +240,124 @@ export const appointments = pgTable("appointments", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Issued vaccination certificates; the verification code is printed as a QR
+// code so anyone holding the certificate can check it against this record
+export const certificates = pgTable("certificates", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  verificationCode: text("verification_code").notNull().unique(),
+  doseCount: integer("dose_count").notNull(),
+  dosesDigest: text("doses_digest").notNull(), // sha256 of the doses listed at issue time
+  issuedBy: integer("issued_by").references(() => users.id),
+  issuedAt: timestamp("issued_at").defaultNow(),
+});
+
+// Numbers for new patient IDs; see server/patient-ids.ts for the format
+export const patientNumberSeq = pgSequence("patient_number_seq");
+
+// Patient IDs handed to a device in advance, so it can register patients
+// and print their cards while offline
+export const patientIdReservations = pgTable("patient_id_reservations", {
+  id: serial("id").primaryKey(),
+  patientId: text("patient_id").notNull().unique(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  reservedAt: timestamp("reserved_at").defaultNow(),
+  usedAt: timestamp("used_at"),
+});
+
+// Mutations received through the sync endpoint, keyed by the id the device
+// generated for them, so a batch resent after a dropped connection is not
+// applied twice
+export const syncMutations = pgTable("sync_mutations", {
+  id: serial("id").primaryKey(),
+  clientId: text("client_id").notNull().unique(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // e.g. 'patient.update'
+  status: text("status").notNull(), // 'pending' while being applied, then 'applied', 'conflict', 'rejected'
+  result: jsonb("result").notNull(), // the per-item result returned to the device
+  receivedAt: timestamp("received_at").defaultNow(),
+});
+
+// Records merged into another patient after the same person was registered
+// twice. The retired record is deleted; its IDs and card keep resolving to
+// the surviving patient through this table.
+export const patientMerges = pgTable("patient_merges", {
+  id: serial("id").primaryKey(),
+  survivorId: integer("survivor_id").notNull().references(() => patients.id),
+  retiredId: integer("retired_id").notNull().unique(), // row id of the deleted record, for old links
+  retiredPatientId: text("retired_patient_id").notNull().unique(),
+  retiredQrCode: text("retired_qr_code").unique(),
+  retiredRecord: jsonb("retired_record").notNull(), // the retired patient as it was before the merge
+  mergedBy: integer("merged_by").references(() => users.id),
+  mergedAt: timestamp("merged_at").defaultNow(),
+});
+
+// Requests to move a patient to a village in the requester's area, e.g. after
+// a family moves. Decided by someone who can see the patient where they are now.
+export const patientTransfers = pgTable("patient_transfers", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  fromVillageId: integer("from_village_id").references(() => locations.id),
+  toVillageId: integer("to_village_id").notNull().references(() => locations.id),
+  reason: text("reason"),
+  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected'
+  requestedBy: integer("requested_by").notNull().references(() => users.id),
+  requestedAt: timestamp("requested_at").defaultNow(),
+  decidedBy: integer("decided_by").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+});
+
+// Successful health card lookups; doubles as an access log of who looked up whom
+export const qrScans = pgTable("qr_scans", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  device: text("device"), // user agent of the scanning device
+  scannedAt: timestamp("scanned_at").defaultNow(),
+});
+
+// What each role may do, as edited by admins. A role without a row uses
+// defaultRolePermissions; admins can always do everything.
+export const rolePermissions = pgTable("role_permissions", {
+  role: text("role").primaryKey(), // see userRoles
+  permissions: text("permissions").array().notNull(), // see permissionNames
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Keys used to sign health card QR payloads. Only one is active for signing;
+// retired keys are kept so cards issued under them still verify.
+// At most one key is active at a time.
+export const qrSigningKeys = pgTable(
+  "qr_signing_keys",
+  {
+    id: serial("id").primaryKey(),
+    keyId: text("key_id").notNull().unique(),
+    publicKey: jsonb("public_key").notNull(), // JWK, published for offline verification
+    privateKey: text("private_key").notNull(), // PKCS#8 PEM, never sent to clients
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    retiredAt: timestamp("retired_at"),
+  },
+  (table) => [uniqueIndex("UQ_qr_signing_keys_active").on(table.isActive).where(sql`${table.isActive}`)],
+);
+
+// Background job runs, latest first per job name
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // e.g. 'vaccination-status'
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at"),
+  counts: jsonb("counts"), // per-job summary, e.g. { overdue: 3, missed: 1 }
+  error: text("error"),
+});
+
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  facility: one(locations, {
+    fields: [users.facilityId],
+    references: [locations.id],
+  }),
   patientsCreated: many(patients),
   vaccinationsAdministered: many(vaccinations),
   appointmentsCreated: many(appointments),
@@ -101,12 +368,115 @@ export const patientsRelations = relations(patients, ({ one, many }) => ({
     fields: [patients.createdBy],
     references: [users.id],
   }),
+  household: one(households, {
+    fields: [patients.householdId],
+    references: [households.id],
+  }),
+  village: one(locations, {
+    fields: [patients.villageId],
+    references: [locations.id],
+  }),
   vaccinations: many(vaccinations),
   appointments: many(appointments),
+  changes: many(patientChanges),
+  transfers: many(patientTransfers),
+}));
+
+export const locationsRelations = relations(locations, ({ one, many }) => ({
+  parent: one(locations, {
+    fields: [locations.parentId],
+    references: [locations.id],
+    relationName: "locationParent",
+  }),
+  children: many(locations, { relationName: "locationParent" }),
+  patients: many(patients),
+  users: many(users),
+}));
+
+export const patientChangesRelations = relations(patientChanges, ({ one }) => ({
+  patient: one(patients, {
+    fields: [patientChanges.patientId],
+    references: [patients.id],
+  }),
+  changedBy: one(users, {
+    fields: [patientChanges.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const householdsRelations = relations(households, ({ one, many }) => ({
+  head: one(patients, {
+    fields: [households.headPatientId],
+    references: [patients.id],
+  }),
+  members: many(patients),
+  createdBy: one(users, {
+    fields: [households.createdBy],
+    references: [users.id],
+  }),
 }));
 
 export const vaccinesRelations = relations(vaccines, ({ many }) => ({
   vaccinations: many(vaccinations),
+  scheduleTemplates: many(scheduleTemplates),
+  lots: many(vaccineLots),
+}));
+
+export const storageUnitsRelations = relations(storageUnits, ({ many }) => ({
+  lots: many(vaccineLots),
+  readings: many(temperatureReadings),
+}));
+
+export const temperatureReadingsRelations = relations(temperatureReadings, ({ one }) => ({
+  storageUnit: one(storageUnits, {
+    fields: [temperatureReadings.storageUnitId],
+    references: [storageUnits.id],
+  }),
+}));
+
+export const vaccineLotsRelations = relations(vaccineLots, ({ one, many }) => ({
+  vaccine: one(vaccines, {
+    fields: [vaccineLots.vaccineId],
+    references: [vaccines.id],
+  }),
+  storageUnit: one(storageUnits, {
+    fields: [vaccineLots.storageUnitId],
+    references: [storageUnits.id],
+  }),
+  transactions: many(stockTransactions),
+}));
+
+export const aefiReportsRelations = relations(aefiReports, ({ one }) => ({
+  vaccination: one(vaccinations, {
+    fields: [aefiReports.vaccinationId],
+    references: [vaccinations.id],
+  }),
+  patient: one(patients, {
+    fields: [aefiReports.patientId],
+    references: [patients.id],
+  }),
+  reportedBy: one(users, {
+    fields: [aefiReports.reportedBy],
+    references: [users.id],
+  }),
+}));
+
+export const stockTransactionsRelations = relations(stockTransactions, ({ one }) => ({
+  lot: one(vaccineLots, {
+    fields: [stockTransactions.lotId],
+    references: [vaccineLots.id],
+  }),
+  vaccination: one(vaccinations, {
+    fields: [stockTransactions.vaccinationId],
+    references: [vaccinations.id],
+  }),
+}));
+
+export const scheduleTemplatesRelations = relations(scheduleTemplates, ({ one }) => ({
+  vaccine: one(vaccines, {
+    fields: [scheduleTemplates.vaccineId],
+    references: [vaccines.id],
+  }),
 }));
 
 export const vaccinationsRelations = relations(vaccinations, ({ one, many }) => ({
@@ -122,7 +492,92 @@ export const vaccinationsRelations = relations(vaccinations, ({ one, many }) =>
     fields: [vaccinations.administeredBy],
     references: [users.id],
   }),
+  lot: one(vaccineLots, {
+    fields: [vaccinations.lotId],
+    references: [vaccineLots.id],
+  }),
   appointments: many(appointments),
+  events: many(vaccinationEvents),
+}));
+
+export const patientIdReservationsRelations = relations(patientIdReservations, ({ one }) => ({
+  user: one(users, {
+    fields: [patientIdReservations.userId],
+    references: [users.id],
+  }),
+}));
+
+export const syncMutationsRelations = relations(syncMutations, ({ one }) => ({
+  user: one(users, {
+    fields: [syncMutations.userId],
+    references: [users.id],
+  }),
+}));
+
+export const rolePermissionsRelations = relations(rolePermissions, ({ one }) => ({
+  updatedBy: one(users, {
+    fields: [rolePermissions.updatedBy],
+    references: [users.id],
+  }),
+}));
+
+export const qrScansRelations = relations(qrScans, ({ one }) => ({
+  patient: one(patients, {
+    fields: [qrScans.patientId],
+    references: [patients.id],
+  }),
+  user: one(users, {
+    fields: [qrScans.userId],
+    references: [users.id],
+  }),
+}));
+
+export const patientMergesRelations = relations(patientMerges, ({ one }) => ({
+  survivor: one(patients, {
+    fields: [patientMerges.survivorId],
+    references: [patients.id],
+  }),
+  mergedBy: one(users, {
+    fields: [patientMerges.mergedBy],
+    references: [users.id],
+  }),
+}));
+
+export const patientTransfersRelations = relations(patientTransfers, ({ one }) => ({
+  patient: one(patients, {
+    fields: [patientTransfers.patientId],
+    references: [patients.id],
+  }),
+  toVillage: one(locations, {
+    fields: [patientTransfers.toVillageId],
+    references: [locations.id],
+  }),
+  requestedBy: one(users, {
+    fields: [patientTransfers.requestedBy],
+    references: [users.id],
+  }),
+}));
+
+export const certificatesRelations = relations(certificates, ({ one }) => ({
+  patient: one(patients, {
+    fields: [certificates.patientId],
+    references: [patients.id],
+  }),
+  issuedBy: one(users, {
+    fields: [certificates.issuedBy],
+    references: [users.id],
+  }),
+}));
+
+export const vaccinationEventsRelations = relations(vaccinationEvents, ({ one }) => ({
+  vaccination: one(vaccinations, {
+    fields: [vaccinationEvents.vaccinationId],
+    references: [vaccinations.id],
+  }),
+  changedBy: one(users, {
+    fields: [vaccinationEvents.changedBy],
+    references: [users.id],
+  }),
 }));
 
 export const appointmentsRelations = relations(appointments, ({ one }) => ({
@@ -141,25 +596,338 @@ export const appointmentsRelations = relations(appointments, ({ one }) => ({
 }));
 
 // Insert schemas
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+  .refine(value => !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value), "Date is not a real date");
+
+// Supervisors see patients across their facility's block, admins and
+// auditors everywhere, and everyone else their own facility's villages.
+// 'health_worker' is the original field role, kept for existing accounts.
+export const userRoles = [
+  'admin',
+  'medical_officer',
+  'supervisor',
+  'anm',
+  'asha',
+  'health_worker',
+  'data_entry_operator',
+  'auditor',
+] as const;
+
+export const permissionNames = [
+  'register_patient',
+  'edit_patient', // details, closing records, households and transfers
+  'administer_vaccine', // recording and changing doses, AEFI reports and certificates
+  'manage_appointments',
+  'manage_inventory', // stock lots and cold chain readings
+  'view_reports',
+  'export_data', // downloading reports as files
+  'manage_users',
+] as const;
+
+// Used until an admin edits a role's permissions
+export const defaultRolePermissions: Record<Exclude<UserRole, 'admin'>, readonly Permission[]> = {
+  medical_officer: [
+    'register_patient',
+    'edit_patient',
+    'administer_vaccine',
+    'manage_appointments',
+    'manage_inventory',
+    'view_reports',
+    'export_data',
+  ],
+  supervisor: ['register_patient', 'edit_patient', 'manage_appointments', 'view_reports', 'export_data'],
+  anm: ['register_patient', 'edit_patient', 'administer_vaccine', 'manage_appointments', 'manage_inventory', 'view_reports'],
+  asha: ['register_patient', 'edit_patient', 'manage_appointments'],
+  health_worker: [
+    'register_patient',
+    'edit_patient',
+    'administer_vaccine',
+    'manage_appointments',
+    'manage_inventory',
+    'view_reports',
+    'export_data',
+  ],
+  data_entry_operator: ['register_patient', 'edit_patient', 'administer_vaccine', 'manage_appointments'],
+  auditor: ['view_reports', 'export_data'],
+};
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
+});
+
+// What an account edit may change; the username is fixed once created
+export const updateUserSchema = insertUserSchema.pick({
+  name: true,
+  phone: true,
+  email: true,
+  role: true,
+  facilityId: true,
+  isActive: true,
+  password: true,
+}).partial();
+
+export const rolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(permissionNames)),
+});
+
+// Top level first; a location's parent is at the level before its own
+export const locationLevels = ['district', 'block', 'phc', 'sub_centre', 'village'] as const;
+
+// Levels a user can be posted to
+export const facilityLevels = ['phc', 'sub_centre'] as const;
+
+export const insertLocationSchema = createInsertSchema(locations).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  level: z.enum(locationLevels),
 });
 
 export const insertPatientSchema = createInsertSchema(patients).omit({
   id: true,
   patientId: true,
   qrCode: true,
+  version: true,
+  status: true,
+  statusDate: true,
+  statusReason: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertVaccineSchema = createInsertSchema(vaccines).omit({
+// A closed record stays on file but is left out of lists, search, schedules
+// and statistics. Only an admin can restore it to 'active'.
+export const patientStatuses = ['active', 'migrated', 'deceased', 'duplicate', 'registered_in_error'] as const;
+
+export const closePatientSchema = z.object({
+  status: z.enum(['migrated', 'deceased', 'duplicate', 'registered_in_error']),
+  statusDate: isoDate,
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+// Fields a user can fill in when registering a patient. Household membership
+// is set from the mother's record (motherId) or through the household routes.
+export const registerPatientSchema = insertPatientSchema.omit({
+  householdId: true,
+  relationship: true,
+});
+
+// Fields a user can change when editing a patient
+export const updatePatientSchema = registerPatientSchema.omit({
+  createdBy: true,
+}).partial();
+
+export const householdRelationships = ['head', 'spouse', 'child', 'parent', 'sibling', 'other'] as const;
+
+export const insertHouseholdSchema = createInsertSchema(households).omit({
   id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
+export const householdMemberSchema = z.object({
+  patientId: z.number().int(),
+  relationship: z.enum(householdRelationships),
+});
+
+export const insertVaccineSchema = createInsertSchema(vaccines, {
+  dosesRequired: z.number().int().min(1, "A vaccine needs at least one dose").nullable().optional(),
+  intervalDays: z.number().int().min(0, "Interval can't be negative").nullable().optional(),
+  minAgeDays: z.number().int().min(0, "Minimum age can't be negative").nullable().optional(),
+  maxAgeDays: z.number().int().min(0, "Maximum age can't be negative").nullable().optional(),
+}).omit({
+  id: true,
+}).refine(
+  v => v.minAgeDays == null || v.maxAgeDays == null || v.minAgeDays <= v.maxAgeDays,
+  { message: "Minimum age can't be more than the maximum age", path: ["maxAgeDays"] },
+);
+
 export const insertVaccinationSchema = createInsertSchema(vaccinations).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+  statusChangedAt: true,
+});
+
+export const insertStorageUnitSchema = createInsertSchema(storageUnits).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Readings carry the offset they were taken at, so the morning/evening
+// session is the hour at the cold chain point rather than on the server
+export const insertTemperatureReadingSchema = createInsertSchema(temperatureReadings, {
+  readingAt: z
+    .string()
+    .datetime({ offset: true, message: "Reading time must be an ISO timestamp with a timezone offset" })
+    .transform(value => new Date(value)),
+  session: z.enum(['morning', 'evening']),
+}).omit({
+  id: true,
+  isExcursion: true,
+  createdAt: true,
+});
+
+// 'morning' or 'evening' from the local hour written in an ISO timestamp,
+// e.g. 2024-05-01T18:30:00+05:30 is evening whatever the server's timezone
+export function readingSession(timestamp: string): 'morning' | 'evening' {
+  return Number(timestamp.slice(11, 13)) < 12 ? 'morning' : 'evening';
+}
+
+export const insertVaccineLotSchema = createInsertSchema(vaccineLots, {
+  status: z.enum(['available', 'quarantined', 'discarded']).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertStockTransactionSchema = createInsertSchema(stockTransactions, {
+  type: z.enum(['receipt', 'issue', 'wastage', 'administered']),
+  quantity: z.number().int().positive(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAefiReportSchema = createInsertSchema(aefiReports, {
+  onsetAt: z.coerce.date(),
+  symptoms: z.string().min(1, "Symptoms are required"),
+  severity: z.enum(['mild', 'moderate', 'severe']),
+  outcome: z.enum(['recovering', 'recovered', 'recovered_with_sequelae', 'hospitalized', 'died', 'unknown']),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Status changes go through these actions only; each lists the statuses it
+// may be applied from and the status it moves the dose to
+export const vaccinationTransitions = {
+  schedule: { from: ['scheduled', 'overdue', 'missed'], to: 'scheduled' },
+  administer: { from: ['scheduled', 'overdue', 'missed'], to: 'completed' },
+  miss: { from: ['scheduled', 'overdue'], to: 'missed' },
+  cancel: { from: ['scheduled', 'overdue', 'missed'], to: 'cancelled' },
+  reopen: { from: ['completed', 'missed', 'cancelled'], to: 'scheduled' },
+} as const;
+
+export const vaccinationTransitionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("schedule"),
+    scheduledDate: isoDate,
+    reason: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal("administer"),
+    administeredDate: isoDate,
+    lotId: z.number().int().optional(),
+  }),
+  z.object({
+    action: z.literal("miss"),
+    reason: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal("cancel"),
+    reason: z.string().min(1, "A reason is required to cancel a dose"),
+  }),
+  z.object({
+    action: z.literal("reopen"),
+    reason: z.string().min(1, "A reason is required to reopen a dose"),
+    scheduledDate: isoDate.optional(),
+  }),
+]);
+
+// ?from=&to= scheduled date range on the vaccination list
+export const vaccinationDateRangeSchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+// Patients to include on a batch of printed health cards: either explicit
+// ids (e.g. search results) or a village / registration date range
+export const healthCardSelectionSchema = z.object({
+  patientIds: z.array(z.number().int()).min(1).max(1000).optional(),
+  village: z.string().trim().min(1).optional(),
+  locationId: z.number().int().optional(),
+  registeredFrom: isoDate.optional(),
+  registeredTo: isoDate.optional(),
+}).refine(
+  s => s.patientIds || s.village || s.locationId || s.registeredFrom || s.registeredTo,
+  "Select patients by id, village, location or registration date",
+);
+
+// Details entered on the registration form, checked against existing
+// patients before the record is saved
+export const duplicateCheckSchema = z.object({
+  name: z.string().trim().min(1),
+  dateOfBirth: isoDate.optional(),
+  guardianName: z.string().optional(),
+  phone: z.string().optional(),
+  guardianPhone: z.string().optional(),
+  excludeId: z.number().int().optional(), // the patient being edited
+});
+
+export const patientMergeSchema = z.object({
+  survivorId: z.number().int(),
+  retiredId: z.number().int(),
+}).refine(m => m.survivorId !== m.retiredId, "Choose two different patients");
+
+export const patientTransferRequestSchema = z.object({
+  toVillageId: z.number().int(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// A batch posted to /api/sync. Each mutation carries a device-generated
+// clientId, and edits carry the version of the row they were made against.
+const syncBase = {
+  clientId: z.string().uuid(),
+};
+
+export const syncMutationSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...syncBase,
+    type: z.literal("patient.create"),
+    data: registerPatientSchema.omit({ createdBy: true }),
+    patientId: z.string().optional(), // one of the device's reserved IDs
+    motherId: z.number().int().optional(), // newborn registered from the mother's record
+  }),
+  z.object({
+    ...syncBase,
+    type: z.literal("patient.update"),
+    id: z.number().int(),
+    baseVersion: z.number().int(),
+    data: updatePatientSchema,
+  }),
+  z.object({
+    ...syncBase,
+    type: z.literal("vaccination.update"),
+    id: z.number().int(),
+    baseVersion: z.number().int(),
+    data: insertVaccinationSchema.pick({ notes: true, assignedTo: true }).partial(),
+  }),
+  z.object({
+    ...syncBase,
+    type: z.literal("vaccination.transition"),
+    id: z.number().int(),
+    baseVersion: z.number().int(),
+    transition: vaccinationTransitionSchema,
+  }),
+]);
+
+export const syncRequestSchema = z.object({
+  mutations: z.array(syncMutationSchema).max(100).default([]),
+  since: z.string().datetime().optional(), // cursor from the previous response
+});
+
+export const insertScheduleTemplateSchema = createInsertSchema(scheduleTemplates).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -174,9 +942,24 @@ export const insertAppointmentSchema = createInsertSchema(appointments).omit({
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserRole = typeof userRoles[number];
+export type Permission = typeof permissionNames[number];
+export type RolePermission = typeof rolePermissions.$inferSelect;
+
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type LocationLevel = typeof locationLevels[number];
 
 export type Patient = typeof patients.$inferSelect;
 export type InsertPatient = z.infer<typeof insertPatientSchema>;
+export type UpdatePatient = z.infer<typeof updatePatientSchema>;
+export type PatientStatus = typeof patientStatuses[number];
+export type ClosePatient = z.infer<typeof closePatientSchema>;
+export type PatientChange = typeof patientChanges.$inferSelect;
+
+export type Household = typeof households.$inferSelect;
+export type InsertHousehold = z.infer<typeof insertHouseholdSchema>;
+export type HouseholdRelationship = typeof householdRelationships[number];
 
 export type Vaccine = typeof vaccines.$inferSelect;
 export type InsertVaccine = z.infer<typeof insertVaccineSchema>;
@@ -184,5 +967,48 @@ export type InsertVaccine = z.infer<typeof insertVaccineSchema>;
 export type Vaccination = typeof vaccinations.$inferSelect;
 export type InsertVaccination = z.infer<typeof insertVaccinationSchema>;
 
+export type StorageUnit = typeof storageUnits.$inferSelect;
+export type InsertStorageUnit = z.infer<typeof insertStorageUnitSchema>;
+
+export type TemperatureReading = typeof temperatureReadings.$inferSelect;
+export type InsertTemperatureReading = z.infer<typeof insertTemperatureReadingSchema>;
+
+export type VaccineLot = typeof vaccineLots.$inferSelect;
+export type InsertVaccineLot = z.infer<typeof insertVaccineLotSchema>;
+
+export type StockTransaction = typeof stockTransactions.$inferSelect;
+export type InsertStockTransaction = z.infer<typeof insertStockTransactionSchema>;
+
+export type AefiReport = typeof aefiReports.$inferSelect;
+export type InsertAefiReport = z.infer<typeof insertAefiReportSchema>;
+
+export type ScheduleTemplate = typeof scheduleTemplates.$inferSelect;
+export type InsertScheduleTemplate = z.infer<typeof insertScheduleTemplateSchema>;
+
+export type VaccinationEvent = typeof vaccinationEvents.$inferSelect;
+export type VaccinationAction = keyof typeof vaccinationTransitions;
+export type VaccinationTransition = z.infer<typeof vaccinationTransitionSchema>;
+
+export type HealthCardSelection = z.infer<typeof healthCardSelectionSchema>;
+
+export type Certificate = typeof certificates.$inferSelect;
+
+export type QrSigningKey = typeof qrSigningKeys.$inferSelect;
+
+export type QrScan = typeof qrScans.$inferSelect;
+
+export type PatientIdReservation = typeof patientIdReservations.$inferSelect;
+
+export type PatientMerge = typeof patientMerges.$inferSelect;
+export type DuplicateCheck = z.infer<typeof duplicateCheckSchema>;
+
+export type PatientTransfer = typeof patientTransfers.$inferSelect;
+export type PatientTransferRequest = z.infer<typeof patientTransferRequestSchema>;
+
+export type SyncMutation = z.infer<typeof syncMutationSchema>;
+export type SyncRequest = z.infer<typeof syncRequestSchema>;
+
+export type JobRun = typeof jobRuns.$inferSelect;
+
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;